@@ -0,0 +1,61 @@
+import { AddressInfo, createServer } from 'net';
+
+import type { FastifyInstance } from 'fastify';
+
+// 起動の確認だけなのでデータベースには接続しない
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    $use: jest.fn(),
+    $connect: jest.fn(),
+    $disconnect: jest.fn(),
+  })),
+}));
+
+// 空いているポートを OS に選ばせる
+const freePort = () =>
+  new Promise<number>(resolve => {
+    const probe = createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+
+describe('App', () => {
+  let server: FastifyInstance;
+
+  afterAll(() => server?.close());
+
+  it('should serve metrics on their own port', async () => {
+    process.env.PORT = String(await freePort());
+    process.env.HOST = '127.0.0.1';
+    process.env.METRICS_PORT = String(await freePort());
+    process.env.METRICS_TOKEN = 'scrape-token';
+    process.env.FIREBASE_PRIVATE_KEY = 'test-private-key';
+    process.env.FIREBASE_CLIENT_EMAIL = 'api@test-project.example.com';
+    const { buildServer, listen } = await import('../app');
+
+    server = await buildServer();
+    const { metricsAddress } = await listen(server);
+
+    const scrape = (authorization?: string) =>
+      fetch(`${metricsAddress}/metrics`, {
+        headers: authorization ? { authorization } : {},
+      });
+
+    expect((await scrape('Bearer scrape-token')).status).toBe(200);
+    const rejected = await scrape('Bearer wrong');
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toMatchObject({
+      success: false,
+      error: { code: 'UNAUTHORIZED' },
+    });
+
+    const api = await server.inject({ method: 'GET', url: '/metrics' });
+    expect(api.statusCode).toBe(404);
+
+    // メトリクス用のリスナーも API と一緒に閉じる
+    await server.close();
+    await expect(scrape('Bearer scrape-token')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,20 @@
+import type * as Prisma from '@template/database';
+import type * as Types from '@template/types';
+
+type Equals<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+    ? true
+    : false;
+
+describe('Shared enums', () => {
+  it('should have the same values as the Prisma schema', () => {
+    // 値がずれると型が false になり、type-check が失敗する
+    const matches: [
+      Equals<`${Types.UserRole}`, Prisma.UserRole>,
+      Equals<`${Types.FileType}`, Prisma.FileType>,
+      Equals<`${Types.FileStatus}`, Prisma.FileStatus>,
+    ] = [true, true, true];
+
+    expect(matches).toEqual([true, true, true]);
+  });
+});
@@ -1,4 +1,4 @@
-import Fastify from 'fastify';
+import Fastify, { FastifyInstance } from 'fastify';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import rateLimit from '@fastify/rate-limit';
@@ -6,14 +6,44 @@ import multipart from '@fastify/multipart';
 import jwt from '@fastify/jwt';
 
 import { config } from './lib/config';
+import {
+  commentRepository,
+  createUserWithProfile,
+  db,
+  postRepository,
+  sessionRepository,
+  userRepository,
+} from './lib/database';
+import {
+  FIREBASE_JWKS_URL,
+  createFirebaseIdTokenVerifier,
+  createHttpJwksFetcher,
+} from './lib/firebase-auth';
+import { HealthCheckRegistry, packageVersion } from './lib/health';
+import { scheduleJob } from './lib/jobs';
 import { logger } from './lib/logger';
+import { ApiMetrics } from './lib/metrics';
+import { createTracing } from './lib/tracing';
 import { errorHandler } from './middleware/error-handler';
+import { auditMiddleware } from './middleware/audit';
 import { authMiddleware } from './middleware/auth';
+import { metricsMiddleware } from './middleware/metrics';
+import { tracingMiddleware } from './middleware/tracing';
+import { IdentityService } from './services/identity.service';
+import { RetentionService } from './services/retention.service';
 
 // Routes
+import { adminRoutes } from './routes/admin';
 import { authRoutes } from './routes/auth';
 import { userRoutes } from './routes/users';
+import { postRoutes } from './routes/posts';
 import { fileRoutes } from './routes/files';
+import { healthProbeRoutes } from './routes/health';
+import { buildMetricsServer, metricsRoutes } from './routes/metrics';
+import { getAppConfig } from './shared/infrastructure/config';
+
+// 保持期間を過ぎた論理削除行を探す間隔
+const SOFT_DELETE_PURGE_INTERVAL = 60 * 60 * 1000;
 
 const fastify = Fastify({
   logger: logger,
@@ -26,8 +56,26 @@ const fastify = Fastify({
   },
 });
 
+// METRICS_PORT が設定されているときの /metrics 専用サーバー
+let metricsServer: FastifyInstance | undefined;
+
 async function buildServer() {
   try {
+    const appConfig = getAppConfig();
+
+    // Tracing (first, so that every other hook runs inside the request span)
+    const tracing = createTracing(appConfig.tracing, packageVersion);
+    tracing.instrumentPrisma(db);
+    await fastify.register(tracingMiddleware, { tracing });
+
+    // Audit context (actor, trace id and IP) for the audited repositories
+    await fastify.register(auditMiddleware);
+
+    // Metrics
+    const metrics = new ApiMetrics();
+    metrics.instrumentPrisma(db);
+    await fastify.register(metricsMiddleware, { metrics });
+
     // Security plugins
     await fastify.register(helmet, {
       contentSecurityPolicy: {
@@ -48,6 +96,7 @@ async function buildServer() {
     await fastify.register(rateLimit, {
       max: 100,
       timeWindow: '1 minute',
+      onExceeded: request => metrics.recordRateLimitRejection(request),
     });
 
     // Utility plugins
@@ -63,20 +112,64 @@ async function buildServer() {
 
     // Global middleware
     await fastify.register(errorHandler);
-    await fastify.register(authMiddleware);
+    const identityService = new IdentityService({
+      userRepository,
+      createUserWithProfile,
+    });
+    await fastify.register(authMiddleware, {
+      loadAccessState: id => userRepository.findAccessState(id),
+      isSessionActive: id => sessionRepository.isActive(id),
+      externalAuth: {
+        verifier: createFirebaseIdTokenVerifier(
+          config.firebase.projectId,
+          createHttpJwksFetcher(FIREBASE_JWKS_URL, tracing.fetch)
+        ),
+        resolveUser: identity => identityService.resolveUser(identity),
+      },
+    });
 
-    // Health check
-    fastify.get('/health', async () => ({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      version: process.env.npm_package_version || '0.1.0',
-    }));
+    // Health checks (plugins register what they depend on)
+    fastify.decorate('healthChecks', new HealthCheckRegistry());
+    fastify.healthChecks.register({
+      name: 'database',
+      check: () => db.$queryRaw`SELECT 1`,
+    });
+    await fastify.register(healthProbeRoutes);
+
+    // 内部ポートが設定されていれば listen() がそちらで公開する
+    if (appConfig.metrics.port === undefined) {
+      await fastify.register(metricsRoutes, {
+        metrics,
+        token: appConfig.metrics.token,
+      });
+    } else {
+      metricsServer = await buildMetricsServer({
+        metrics,
+        token: appConfig.metrics.token,
+      });
+      // listen() の後にはフックを追加できないので、ここで閉じ方を決めておく
+      const server = metricsServer;
+      fastify.addHook('onClose', async () => server.close());
+    }
+
+    // 論理削除した行は保持期間を過ぎたら物理削除する
+    const retentionService = new RetentionService({
+      userRepository,
+      postRepository,
+      commentRepository,
+      retentionDays: appConfig.database.softDeleteRetentionDays,
+    });
+    scheduleJob(fastify, 'purge-soft-deleted', SOFT_DELETE_PURGE_INTERVAL, () =>
+      retentionService.purgeExpired()
+    );
 
     // API routes
     await fastify.register(import('./routes/health'), { prefix: '/api/v1' });
     await fastify.register(authRoutes, { prefix: '/api/v1/auth' });
     await fastify.register(userRoutes, { prefix: '/api/v1/users' });
+    await fastify.register(postRoutes, { prefix: '/api/v1/posts' });
     await fastify.register(fileRoutes, { prefix: '/api/v1/files' });
+    await fastify.register(adminRoutes, { prefix: '/api/v1/admin' });
 
     return fastify;
   } catch (error) {
@@ -85,18 +178,35 @@ async function buildServer() {
   }
 }
 
+/**
+ * Start listening on the API port, and on the metrics port if one is set
+ */
+async function listen(
+  server: FastifyInstance
+): Promise<{ address: string; metricsAddress?: string }> {
+  const address = await server.listen({
+    port: config.app.port,
+    host: config.app.host,
+  });
+
+  const { port, host } = getAppConfig().metrics;
+  const metricsAddress =
+    metricsServer && (await metricsServer.listen({ port, host }));
+
+  return { address, metricsAddress };
+}
+
 async function start() {
   try {
     const server = await buildServer();
-
-    const address = await server.listen({
-      port: config.app.port,
-      host: config.app.host,
-    });
+    const { address, metricsAddress } = await listen(server);
 
     console.log(`🚀 API Server running at ${address}`);
     console.log(`📖 Environment: ${config.app.nodeEnv}`);
     console.log(`🔗 Health check: ${address}/health`);
+    if (metricsAddress) {
+      console.log(`📊 Metrics: ${metricsAddress}/metrics`);
+    }
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -125,5 +235,5 @@ if (require.main === module) {
   start();
 }
 
-export { buildServer };
+export { buildServer, listen };
 export default fastify;
@@ -0,0 +1,99 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { Readable } from 'stream';
+
+import { ClamAvScanner } from '../scanner';
+import { ExternalServiceError } from '../../shared/infrastructure/errors';
+
+/**
+ * Minimal clamd stand-in: decodes INSTREAM chunks and answers like clamd
+ */
+const startClamd = (verdict: (content: Buffer) => string): Promise<Server> => {
+  const server = createServer((socket: Socket) => {
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', data => {
+      buffer = Buffer.concat([buffer, data]);
+
+      if (buffer.toString() === 'zPING\0') {
+        socket.end('PONG\0');
+        return;
+      }
+
+      const command = 'zINSTREAM\0';
+      if (buffer.length < command.length) return;
+      if (buffer.subarray(0, command.length).toString() !== command) {
+        socket.end('UNKNOWN COMMAND\0');
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let position = command.length;
+      while (position + 4 <= buffer.length) {
+        const length = buffer.readUInt32BE(position);
+        if (length === 0) {
+          socket.end(`stream: ${verdict(Buffer.concat(chunks))}\0`);
+          return;
+        }
+        if (position + 4 + length > buffer.length) return;
+        chunks.push(buffer.subarray(position + 4, position + 4 + length));
+        position += 4 + length;
+      }
+    });
+  });
+
+  return new Promise(resolve =>
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  );
+};
+
+const EICAR =
+  'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!';
+
+describe('ClamAvScanner', () => {
+  let server: Server;
+  let scanner: ClamAvScanner;
+
+  beforeEach(async () => {
+    server = await startClamd(content =>
+      content.includes(EICAR) ? 'Eicar-Test-Signature FOUND' : 'OK'
+    );
+    scanner = new ClamAvScanner({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      timeout: 1000,
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should report clean content', async () => {
+    const content = Readable.from([Buffer.alloc(200 * 1024, 'a')]);
+
+    expect(await scanner.scan(content)).toEqual({ clean: true });
+  });
+
+  it('should report the signature of infected content', async () => {
+    const content = Readable.from([Buffer.from('prefix '), Buffer.from(EICAR)]);
+
+    expect(await scanner.scan(content)).toEqual({
+      clean: false,
+      threat: 'Eicar-Test-Signature',
+    });
+  });
+
+  it('should answer pings', async () => {
+    await expect(scanner.ping()).resolves.toBeUndefined();
+  });
+
+  it('should fail when clamd cannot be reached', async () => {
+    await new Promise(resolve => server.close(resolve));
+    server = createServer();
+
+    await expect(
+      scanner.scan(Readable.from([Buffer.from('x')]))
+    ).rejects.toThrow(ExternalServiceError);
+    await expect(scanner.ping()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  ConflictError,
+  PreconditionFailedError,
+} from '../../shared/infrastructure/errors';
+import { etagOf, ifMatchVersions, withPrecondition } from '../etag';
+
+describe('Entity tags', () => {
+  describe('ifMatchVersions', () => {
+    it('should read back the version from its tag', () => {
+      expect(ifMatchVersions(etagOf(3))).toEqual([3]);
+    });
+
+    it('should accept any of the listed tags', () => {
+      expect(ifMatchVersions('"1", "2"')).toEqual([1, 2]);
+    });
+
+    it.each([undefined, '', '*'])(
+      'should not expect a version for %p',
+      ifMatch => {
+        expect(ifMatchVersions(ifMatch)).toBeUndefined();
+      }
+    );
+
+    it('should leave out tags that cannot match', () => {
+      expect(ifMatchVersions('W/"3", "abc", 4, "5"')).toEqual([5]);
+      expect(ifMatchVersions('W/"3"')).toEqual([]);
+    });
+  });
+
+  describe('withPrecondition', () => {
+    const conflict = new ConflictError('Post has been modified', {
+      currentVersion: 3,
+    });
+
+    it('should fail the precondition on a version conflict', async () => {
+      await expect(
+        withPrecondition([2], () => Promise.reject(conflict))
+      ).rejects.toMatchObject({
+        constructor: PreconditionFailedError,
+        statusCode: 412,
+        context: { currentVersion: 3 },
+      });
+    });
+
+    it('should leave conflicts alone without If-Match', async () => {
+      await expect(
+        withPrecondition(undefined, () => Promise.reject(conflict))
+      ).rejects.toBe(conflict);
+    });
+  });
+});
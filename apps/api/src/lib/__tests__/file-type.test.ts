@@ -0,0 +1,47 @@
+import { FileType } from '@template/types';
+
+import { detectMimeType, toFileType } from '../file-type';
+
+describe('detectMimeType', () => {
+  it.each([
+    ['image/jpeg', Buffer.from([0xff, 0xd8, 0xff, 0xe0])],
+    ['image/png', Buffer.from('89504e470d0a1a0a0000', 'hex')],
+    ['image/gif', Buffer.from('GIF89a')],
+    ['image/webp', Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 ', 'latin1')],
+    ['application/pdf', Buffer.from('%PDF-1.7\n')],
+    ['application/msword', Buffer.from('d0cf11e0a1b11ae1', 'hex')],
+    ['video/mp4', Buffer.from('\x00\x00\x00\x18ftypmp42', 'latin1')],
+    ['image/heic', Buffer.from('\x00\x00\x00\x18ftypheic', 'latin1')],
+    ['image/heic', Buffer.from('\x00\x00\x00\x18ftypmif1', 'latin1')],
+    ['image/avif', Buffer.from('\x00\x00\x00\x1cftypavif', 'latin1')],
+  ])('should detect %s', (mimeType, head) => {
+    expect(detectMimeType(head)).toBe(mimeType);
+  });
+
+  it('should tell docx apart from other zip archives', () => {
+    const docx = Buffer.from('PK\x03\x04....word/document.xml', 'latin1');
+    const zip = Buffer.from('PK\x03\x04....readme.txt', 'latin1');
+
+    expect(detectMimeType(docx)).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(detectMimeType(zip)).toBe('application/zip');
+  });
+
+  it('should not trust content that only looks like text', () => {
+    expect(detectMimeType(Buffer.from('<svg onload="alert(1)">'))).toBe(
+      undefined
+    );
+    expect(detectMimeType(Buffer.alloc(0))).toBe(undefined);
+  });
+});
+
+describe('toFileType', () => {
+  it('should classify MIME types', () => {
+    expect(toFileType('image/png')).toBe(FileType.IMAGE);
+    expect(toFileType('application/pdf')).toBe(FileType.DOCUMENT);
+    expect(toFileType('video/mp4')).toBe(FileType.VIDEO);
+    expect(toFileType('image/heic')).toBe(FileType.IMAGE);
+    expect(toFileType('application/zip')).toBe(FileType.OTHER);
+  });
+});
@@ -0,0 +1,166 @@
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+
+import {
+  FirebaseIdTokenVerifier,
+  JwksKeyStore,
+  JwksResponse,
+} from '../firebase-auth';
+import { AuthenticationError } from '../../shared/infrastructure/errors';
+
+const PROJECT_ID = 'test-project';
+const ISSUER = `https://securetoken.google.com/${PROJECT_ID}`;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createToken = (
+  claims: Record<string, unknown> = {},
+  options: { kid?: string; alg?: string; key?: KeyObject } = {}
+) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({
+    alg: options.alg ?? 'RS256',
+    kid: options.kid ?? 'key-1',
+  });
+  const payload = encode({
+    iss: ISSUER,
+    aud: PROJECT_ID,
+    sub: 'firebase-uid',
+    iat: now - 10,
+    auth_time: now - 10,
+    exp: now + 3600,
+    email: 'test@example.com',
+    email_verified: true,
+    ...claims,
+  });
+  const signature = sign(
+    'RSA-SHA256',
+    Buffer.from(`${header}.${payload}`),
+    options.key ?? privateKey
+  ).toString('base64url');
+
+  return `${header}.${payload}.${signature}`;
+};
+
+describe('Firebase Auth', () => {
+  let fetchJwks: jest.Mock<Promise<JwksResponse>>;
+  let verifier: FirebaseIdTokenVerifier;
+
+  beforeEach(() => {
+    fetchJwks = jest.fn().mockResolvedValue({
+      keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }],
+      maxAgeMs: 60_000,
+    });
+    verifier = new FirebaseIdTokenVerifier(
+      PROJECT_ID,
+      new JwksKeyStore(fetchJwks)
+    );
+  });
+
+  describe('canVerify', () => {
+    it('should accept tokens issued for the project', () => {
+      expect(verifier.canVerify(createToken())).toBe(true);
+    });
+
+    it('should ignore other tokens', () => {
+      expect(verifier.canVerify(createToken({ iss: 'template-api' }))).toBe(
+        false
+      );
+      expect(verifier.canVerify('not-a-jwt')).toBe(false);
+    });
+  });
+
+  describe('verify', () => {
+    it('should return the identity for a valid token', async () => {
+      await expect(verifier.verify(createToken())).resolves.toEqual({
+        uid: 'firebase-uid',
+        email: 'test@example.com',
+        emailVerified: true,
+        name: undefined,
+      });
+    });
+
+    it('should cache the key set', async () => {
+      await verifier.verify(createToken());
+      await verifier.verify(createToken());
+
+      expect(fetchJwks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject tokens signed with another key', async () => {
+      const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+      await expect(
+        verifier.verify(createToken({}, { key: other.privateKey }))
+      ).rejects.toThrow('Invalid ID token signature');
+    });
+
+    it('should reject tokens with an unknown key id', async () => {
+      await expect(
+        verifier.verify(createToken({}, { kid: 'unknown' }))
+      ).rejects.toThrow('Invalid ID token signature');
+    });
+
+    it('should reject non-RS256 tokens', async () => {
+      await expect(
+        verifier.verify(createToken({}, { alg: 'HS256' }))
+      ).rejects.toThrow('Unsupported ID token algorithm');
+    });
+
+    it('should reject expired tokens', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(
+        verifier.verify(createToken({ exp: now - 60 }))
+      ).rejects.toThrow('ID token has expired');
+    });
+
+    it('should reject tokens for another project', async () => {
+      await expect(
+        verifier.verify(createToken({ aud: 'other-project' }))
+      ).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('should reject tokens issued in the future', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(
+        verifier.verify(createToken({ iat: now + 600 }))
+      ).rejects.toThrow('ID token is not yet valid');
+    });
+
+    it('should reject tokens without a subject', async () => {
+      await expect(verifier.verify(createToken({ sub: '' }))).rejects.toThrow(
+        'ID token has no subject'
+      );
+    });
+  });
+
+  describe('JwksKeyStore', () => {
+    it('should refetch once the cache expires', async () => {
+      fetchJwks.mockResolvedValue({
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }],
+        maxAgeMs: 0,
+      });
+      const store = new JwksKeyStore(fetchJwks);
+
+      await store.getKey('key-1');
+      await store.getKey('key-1');
+
+      expect(fetchJwks).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throttle refetches for unknown key ids', async () => {
+      const store = new JwksKeyStore(fetchJwks);
+
+      await store.getKey('unknown-1');
+      await store.getKey('unknown-2');
+
+      expect(fetchJwks).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { HealthCheckRegistry, packageVersion } from '../health';
+import { HealthStatus } from '../../shared/types';
+
+describe('HealthCheckRegistry', () => {
+  let registry: HealthCheckRegistry;
+
+  beforeEach(() => {
+    registry = new HealthCheckRegistry(50);
+  });
+
+  it('should be healthy when every check passes', async () => {
+    registry.register({ name: 'database', check: async () => 1 });
+    registry.register({ name: 'storage', check: async () => undefined });
+
+    const report = await registry.run();
+
+    expect(report.status).toBe(HealthStatus.HEALTHY);
+    expect(report.checks.database).toEqual({
+      status: HealthStatus.HEALTHY,
+      critical: true,
+      latencyMs: expect.any(Number),
+    });
+  });
+
+  it('should be degraded when only non-critical checks fail', async () => {
+    registry.register({ name: 'database', check: async () => 1 });
+    registry.register({
+      name: 'scanner',
+      check: async () => {
+        throw new Error('connection refused');
+      },
+      critical: false,
+    });
+
+    const report = await registry.run();
+
+    expect(report.status).toBe(HealthStatus.DEGRADED);
+    expect(report.checks.scanner).toMatchObject({
+      status: HealthStatus.UNHEALTHY,
+      error: 'connection refused',
+    });
+  });
+
+  it('should be unhealthy when a critical check times out', async () => {
+    registry.register({
+      name: 'database',
+      check: () => new Promise(() => undefined),
+    });
+
+    const report = await registry.run();
+
+    expect(report.status).toBe(HealthStatus.UNHEALTHY);
+    expect(report.checks.database.error).toBe('Timed out after 50ms');
+    expect(report.checks.database.latencyMs).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should reject duplicate names', () => {
+    registry.register({ name: 'database', check: async () => 1 });
+
+    expect(() =>
+      registry.register({ name: 'database', check: async () => 1 })
+    ).toThrow('already registered');
+  });
+});
+
+describe('packageVersion', () => {
+  it('should match the API package version', () => {
+    expect(packageVersion).toBe(require('../../../package.json').version);
+  });
+});
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+import { LocalStorageDriver } from '../storage';
+import { FileSystemError } from '../../shared/infrastructure/errors';
+
+const readAll = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+describe('LocalStorageDriver', () => {
+  let root: string;
+  let storage: LocalStorageDriver;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalStorageDriver(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete objects', async () => {
+    await storage.put('user-1/a', Readable.from(['hello ', 'world']));
+
+    expect(await readAll(await storage.get('user-1/a'))).toBe('hello world');
+
+    await storage.delete('user-1/a');
+    await expect(storage.get('user-1/a')).rejects.toThrow(FileSystemError);
+  });
+
+  it('should not leave partial files behind when the stream fails', async () => {
+    const body = new Readable({
+      read() {
+        this.push('partial');
+        this.destroy(new Error('client aborted'));
+      },
+    });
+
+    await expect(storage.put('user-1/b', body)).rejects.toThrow(
+      'client aborted'
+    );
+    expect(await fs.readdir(path.join(root, 'user-1'))).toEqual([]);
+  });
+
+  it('should reject keys outside the root', async () => {
+    await expect(
+      storage.put('../escape', Readable.from(['x']))
+    ).rejects.toThrow(FileSystemError);
+    await expect(storage.get('/etc/passwd')).rejects.toThrow(FileSystemError);
+  });
+
+  it('should ping by creating the root if needed', async () => {
+    const nested = new LocalStorageDriver(path.join(root, 'nested'));
+
+    await expect(nested.ping()).resolves.toBeUndefined();
+    expect(await fs.readdir(root)).toEqual(['nested']);
+  });
+
+  it('should ignore deleting a missing object', async () => {
+    await expect(storage.delete('missing')).resolves.toBeUndefined();
+  });
+
+  it('should assemble chunks in part order', async () => {
+    const uploadId = await storage.createChunkedUpload('user-1/c');
+
+    const second = await storage.uploadChunk(
+      'user-1/c',
+      uploadId,
+      2,
+      Buffer.from('world')
+    );
+    const first = await storage.uploadChunk(
+      'user-1/c',
+      uploadId,
+      1,
+      Buffer.from('hello ')
+    );
+    await storage.completeChunkedUpload('user-1/c', uploadId, [second, first]);
+
+    expect(await readAll(await storage.get('user-1/c'))).toBe('hello world');
+    expect(await fs.readdir(path.join(root, '.chunks'))).toEqual([]);
+  });
+
+  it('should discard chunks of an aborted upload', async () => {
+    const uploadId = await storage.createChunkedUpload('user-1/d');
+    await storage.uploadChunk('user-1/d', uploadId, 1, Buffer.from('x'));
+
+    await storage.abortChunkedUpload('user-1/d', uploadId);
+
+    expect(await fs.readdir(path.join(root, '.chunks'))).toEqual([]);
+    await expect(
+      storage.uploadChunk('user-1/d', '../../escape', 1, Buffer.from('x'))
+    ).rejects.toThrow(FileSystemError);
+  });
+});
@@ -0,0 +1,94 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+import { ApiMetrics } from '../metrics';
+
+describe('ApiMetrics', () => {
+  let metrics: ApiMetrics;
+
+  beforeEach(() => {
+    metrics = new ApiMetrics({ collectDefaults: false });
+  });
+
+  const request = (url?: string) =>
+    ({ method: 'GET', routeOptions: { url } }) as unknown as FastifyRequest;
+  const reply = { statusCode: 200, elapsedTime: 42 } as FastifyReply;
+
+  it('should label requests by route pattern', async () => {
+    metrics.recordRequest(request('/api/v1/posts/:id'), reply);
+    metrics.recordRequest(request('/api/v1/posts/:id'), reply);
+
+    const { values } = await metrics.httpRequests.get();
+    expect(values).toEqual([
+      {
+        labels: {
+          method: 'GET',
+          route: '/api/v1/posts/:id',
+          status_code: '200',
+        },
+        value: 2,
+      },
+    ]);
+
+    const duration = await metrics.httpRequestDuration.get();
+    const sum = duration.values.find(
+      v => v.metricName === 'http_request_duration_seconds_sum'
+    );
+    expect(sum?.value).toBeCloseTo(0.084);
+  });
+
+  it('should group requests that matched no route', async () => {
+    metrics.recordRequest(request(undefined), { ...reply, statusCode: 404 });
+    metrics.recordRateLimitRejection(request(undefined));
+
+    const [requests] = (await metrics.httpRequests.get()).values;
+    expect(requests.labels.route).toBe('unmatched');
+
+    const [rejections] = (await metrics.rateLimitRejections.get()).values;
+    expect(rejections).toEqual({ labels: { route: 'unmatched' }, value: 1 });
+  });
+
+  it('should count errors by code', async () => {
+    metrics.recordError('NOT_FOUND');
+    metrics.recordError('NOT_FOUND');
+    metrics.recordError('VALIDATION_ERROR');
+
+    const { values } = await metrics.errors.get();
+    expect(values).toEqual([
+      { labels: { code: 'NOT_FOUND' }, value: 2 },
+      { labels: { code: 'VALIDATION_ERROR' }, value: 1 },
+    ]);
+  });
+
+  it('should time Prisma queries, including failed ones', async () => {
+    const client = { $use: jest.fn() };
+    metrics.instrumentPrisma(client as any);
+    const [middleware] = client.$use.mock.calls[0];
+
+    await expect(
+      middleware({ model: 'Post', action: 'findMany' }, async () => [])
+    ).resolves.toEqual([]);
+    await expect(
+      middleware({ action: 'queryRaw' }, async () => {
+        throw new Error('connection lost');
+      })
+    ).rejects.toThrow('connection lost');
+
+    const { values } = await metrics.dbQueryDuration.get();
+    const counts = values.filter(
+      v => v.metricName === 'db_query_duration_seconds_count'
+    );
+    expect(counts.map(v => v.labels)).toEqual([
+      { model: 'Post', action: 'findMany' },
+      { model: 'raw', action: 'queryRaw' },
+    ]);
+  });
+
+  it('should render the Prometheus exposition format', async () => {
+    metrics.recordError('CONFLICT');
+
+    const text = await metrics.registry.metrics();
+
+    expect(text).toContain('# TYPE api_errors_total counter');
+    expect(text).toContain('api_errors_total{code="CONFLICT"} 1');
+  });
+});
@@ -0,0 +1,104 @@
+import { UserRole } from '@template/types';
+
+import { assertCan, can } from '../policies';
+import { AuthorizationError } from '../../shared/infrastructure/errors';
+
+describe('Policies', () => {
+  const user = { id: 'user-1', email: 'user@example.com', role: UserRole.USER };
+  const admin = {
+    id: 'admin-1',
+    email: 'admin@example.com',
+    role: UserRole.ADMIN,
+  };
+
+  describe('User', () => {
+    it('should allow users to update themselves', () => {
+      expect(can(user, 'update', 'User', { id: 'user-1' })).toBe(true);
+      expect(can(user, 'update', 'User', { id: 'user-2' })).toBe(false);
+    });
+
+    it('should allow admins to update and delete anyone', () => {
+      expect(can(admin, 'update', 'User', { id: 'user-2' })).toBe(true);
+      expect(can(admin, 'delete', 'User', { id: 'user-2' })).toBe(true);
+      expect(can(user, 'delete', 'User', { id: 'user-1' })).toBe(false);
+    });
+  });
+
+  describe('Profile', () => {
+    it('should allow only the owner or an admin to update', () => {
+      expect(can(user, 'update', 'Profile', { userId: 'user-1' })).toBe(true);
+      expect(can(user, 'update', 'Profile', { userId: 'user-2' })).toBe(false);
+      expect(can(admin, 'update', 'Profile', { userId: 'user-2' })).toBe(true);
+    });
+  });
+
+  describe('Post', () => {
+    const draft = { authorId: 'user-2', published: false };
+
+    it('should hide drafts from everyone but the author and admins', () => {
+      expect(can(user, 'read', 'Post', draft)).toBe(false);
+      expect(can(user, 'read', 'Post', { ...draft, published: true })).toBe(
+        true
+      );
+      expect(can({ ...user, id: 'user-2' }, 'read', 'Post', draft)).toBe(true);
+      expect(can(admin, 'read', 'Post', draft)).toBe(true);
+    });
+
+    it('should allow only the author to update', () => {
+      expect(can({ ...user, id: 'user-2' }, 'update', 'Post', draft)).toBe(
+        true
+      );
+      expect(can(admin, 'update', 'Post', draft)).toBe(false);
+    });
+
+    it('should allow the author or an admin to delete', () => {
+      expect(can(user, 'delete', 'Post', draft)).toBe(false);
+      expect(can(admin, 'delete', 'Post', draft)).toBe(true);
+    });
+  });
+
+  describe('Comment', () => {
+    it('should deny actions without a rule', () => {
+      expect(can(admin, 'read', 'Comment', { authorId: 'user-1' })).toBe(false);
+    });
+  });
+
+  describe('File', () => {
+    it('should allow only the owner or an admin', () => {
+      const file = { ownerId: 'user-1', isPublic: false };
+
+      expect(can(user, 'read', 'File', file)).toBe(true);
+      expect(can(admin, 'delete', 'File', file)).toBe(true);
+      expect(
+        can(user, 'read', 'File', { ownerId: 'user-2', isPublic: false })
+      ).toBe(false);
+    });
+
+    it('should let anyone read public files but not delete them', () => {
+      const file = { ownerId: 'user-2', isPublic: true };
+
+      expect(can(user, 'read', 'File', file)).toBe(true);
+      expect(can(user, 'delete', 'File', file)).toBe(false);
+    });
+  });
+
+  describe('UploadSession', () => {
+    it('should allow only the owner, not even an admin', () => {
+      const session = { ownerId: 'user-1' };
+
+      expect(can(user, 'update', 'UploadSession', session)).toBe(true);
+      expect(can(admin, 'read', 'UploadSession', session)).toBe(false);
+    });
+  });
+
+  describe('assertCan', () => {
+    it('should throw AuthorizationError when denied', () => {
+      expect(() =>
+        assertCan(user, 'delete', 'Comment', { authorId: 'user-2' })
+      ).toThrow(AuthorizationError);
+      expect(() =>
+        assertCan(user, 'delete', 'Comment', { authorId: 'user-1' })
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  NoSuchKey,
+  S3Client,
+} from '@aws-sdk/client-s3';
+
+import { S3StorageDriver } from '../storage';
+import { FileSystemError } from '../../shared/infrastructure/errors';
+
+const options = {
+  bucket: 'uploads',
+  region: 'us-east-1',
+  endpoint: 'http://localhost:9000',
+  accessKeyId: 'minio',
+  secretAccessKey: 'minio-password',
+  forcePathStyle: true,
+};
+
+describe('S3StorageDriver', () => {
+  describe('getSignedUrl', () => {
+    const storage = new S3StorageDriver(options);
+
+    it('should presign a PUT bound to type and size', async () => {
+      const url = new URL(
+        await storage.getSignedUrl('user-1/abc', 'PUT', {
+          expiresIn: 900,
+          contentType: 'image/png',
+          contentLength: 1024,
+        })
+      );
+
+      expect(url.origin).toBe('http://localhost:9000');
+      expect(url.pathname).toBe('/uploads/user-1/abc');
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('900');
+      expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+      expect(url.searchParams.get('X-Amz-SignedHeaders')).toContain(
+        'content-type'
+      );
+    });
+
+    it('should presign a GET', async () => {
+      const url = new URL(
+        await storage.getSignedUrl('user-1/abc', 'GET', { expiresIn: 60 })
+      );
+
+      expect(url.pathname).toBe('/uploads/user-1/abc');
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('60');
+    });
+
+    it('should set the response type and file name of a GET', async () => {
+      const url = new URL(
+        await storage.getSignedUrl('user-1/abc', 'GET', {
+          expiresIn: 60,
+          contentType: 'application/pdf',
+          contentDisposition: 'attachment; filename="report.pdf"',
+        })
+      );
+
+      expect(url.searchParams.get('response-content-type')).toBe(
+        'application/pdf'
+      );
+      expect(url.searchParams.get('response-content-disposition')).toBe(
+        'attachment; filename="report.pdf"'
+      );
+    });
+  });
+
+  describe('with a stubbed client', () => {
+    const send = jest.fn();
+    const storage = new S3StorageDriver(options, {
+      send,
+    } as unknown as S3Client);
+
+    beforeEach(() => {
+      send.mockReset();
+    });
+
+    it('should map missing objects to FileSystemError', async () => {
+      send.mockRejectedValue(
+        new NoSuchKey({ message: 'missing', $metadata: {} })
+      );
+
+      await expect(storage.get('user-1/missing')).rejects.toThrow(
+        FileSystemError
+      );
+      expect(send.mock.calls[0][0]).toBeInstanceOf(GetObjectCommand);
+    });
+
+    it('should delete objects from the bucket', async () => {
+      send.mockResolvedValue({});
+
+      await storage.delete('user-1/abc');
+
+      const [command] = send.mock.calls[0];
+      expect(command).toBeInstanceOf(DeleteObjectCommand);
+      expect(command.input).toEqual({ Bucket: 'uploads', Key: 'user-1/abc' });
+    });
+
+    it('should ping by checking the bucket', async () => {
+      send.mockResolvedValue({});
+
+      await storage.ping();
+
+      const [command] = send.mock.calls[0];
+      expect(command).toBeInstanceOf(HeadBucketCommand);
+      expect(command.input).toEqual({ Bucket: 'uploads' });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+
+import { Tracing } from '../tracing';
+
+describe('Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  const tracing = new Tracing({
+    serviceName: 'template-api-test',
+    exporter,
+    exportImmediately: true,
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(() => tracing.shutdown());
+
+  describe('instrumentPrisma', () => {
+    const client = { $use: jest.fn() };
+    tracing.instrumentPrisma(client as any);
+    const [middleware] = client.$use.mock.calls[0];
+
+    it('should wrap queries in child spans of the active span', async () => {
+      await tracing.inSpan('parent', {}, () =>
+        middleware({ model: 'Post', action: 'findMany' }, async () => [])
+      );
+
+      const [query, parent] = exporter.getFinishedSpans();
+      expect(query.name).toBe('prisma:Post.findMany');
+      expect(query.kind).toBe(SpanKind.CLIENT);
+      expect(query.attributes).toMatchObject({
+        'db.operation': 'findMany',
+        'db.prisma.model': 'Post',
+      });
+      expect(query.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    });
+
+    it('should record failed queries', async () => {
+      await expect(
+        middleware({ action: 'queryRaw' }, async () => {
+          throw new Error('connection lost');
+        })
+      ).rejects.toThrow('connection lost');
+
+      const [query] = exporter.getFinishedSpans();
+      expect(query.name).toBe('prisma:raw.queryRaw');
+      expect(query.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'connection lost',
+      });
+      expect(query.events[0].name).toBe('exception');
+    });
+  });
+
+  describe('fetch', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchSpy = jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValue(new Response('{}', { status: 502 }));
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    it('should propagate the trace to the callee', async () => {
+      const response = await tracing.fetch('https://example.com/jwks', {
+        headers: { accept: 'application/json' },
+      });
+
+      expect(response.status).toBe(502);
+
+      const [span] = exporter.getFinishedSpans();
+      const { traceId, spanId } = span.spanContext();
+      const headers: Headers = fetchSpy.mock.calls[0][1].headers;
+      expect(headers.get('traceparent')).toBe(`00-${traceId}-${spanId}-01`);
+      expect(headers.get('accept')).toBe('application/json');
+
+      expect(span.attributes).toMatchObject({
+        'http.request.method': 'GET',
+        'url.full': 'https://example.com/jwks',
+        'http.response.status_code': 502,
+        'error.type': '502',
+      });
+      expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    });
+  });
+});
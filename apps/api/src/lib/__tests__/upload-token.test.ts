@@ -0,0 +1,80 @@
+import { UploadTokenSigner } from '../upload-token';
+import { AuthenticationError } from '../../shared/infrastructure/errors';
+
+describe('UploadTokenSigner', () => {
+  const currentSecret = 'current-upload-token-secret-32-chars!!';
+  const previousSecret = 'previous-upload-token-secret-32-chars!';
+  const claims = {
+    userId: 'user-1',
+    fileName: 'photo.png',
+    maxSize: 1024,
+    mimeType: 'image/png',
+    expiresAt: new Date('2030-01-01T00:00:00Z'),
+  };
+  const now = new Date('2029-12-31T23:00:00Z');
+
+  it('should round-trip the claims', () => {
+    const signer = new UploadTokenSigner([currentSecret]);
+
+    expect(signer.verify(signer.issue(claims), now)).toEqual({
+      ...claims,
+      tokenId: expect.any(String),
+    });
+  });
+
+  it('should give every token its own id', () => {
+    const signer = new UploadTokenSigner([currentSecret]);
+    const first = signer.verify(signer.issue(claims), now);
+    const second = signer.verify(signer.issue(claims), now);
+
+    expect(first.tokenId).not.toBe(second.tokenId);
+  });
+
+  it('should reject tampered claims', () => {
+    const signer = new UploadTokenSigner([currentSecret]);
+    const [kid, payload, signature] = signer.issue(claims).split('.');
+    const forged = Buffer.from(
+      Buffer.from(payload, 'base64url')
+        .toString()
+        .replace('"max":1024', '"max":999999999')
+    ).toString('base64url');
+
+    expect(() => signer.verify(`${kid}.${forged}.${signature}`, now)).toThrow(
+      AuthenticationError
+    );
+  });
+
+  it('should reject tokens signed with an unknown secret', () => {
+    const token = new UploadTokenSigner([previousSecret]).issue(claims);
+
+    expect(() =>
+      new UploadTokenSigner([currentSecret]).verify(token, now)
+    ).toThrow('Invalid upload token');
+  });
+
+  it('should reject expired tokens', () => {
+    const signer = new UploadTokenSigner([currentSecret]);
+
+    expect(() =>
+      signer.verify(signer.issue(claims), new Date('2030-01-01T00:00:01Z'))
+    ).toThrow('Upload token has expired');
+  });
+
+  it('should accept tokens from a rotated-out secret still in the list', () => {
+    const oldToken = new UploadTokenSigner([previousSecret]).issue(claims);
+    const rotated = new UploadTokenSigner([currentSecret, previousSecret]);
+
+    expect(rotated.verify(oldToken, now)).toMatchObject(claims);
+    expect(rotated.issue(claims).split('.')[0]).not.toBe(
+      oldToken.split('.')[0]
+    );
+  });
+
+  it('should reject malformed tokens', () => {
+    const signer = new UploadTokenSigner([currentSecret]);
+
+    expect(() => signer.verify('not-a-token', now)).toThrow(
+      AuthenticationError
+    );
+  });
+});
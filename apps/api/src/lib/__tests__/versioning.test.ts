@@ -0,0 +1,50 @@
+import { VersionConflictError } from '@template/database';
+
+import { ConflictError } from '../../shared/infrastructure/errors';
+import { updateAtVersion } from '../versioning';
+
+describe('updateAtVersion', () => {
+  const current = { id: 'post-1', version: 2 };
+
+  it('should update unconditionally without expected versions', async () => {
+    const update = jest.fn().mockResolvedValue('updated');
+
+    await expect(
+      updateAtVersion('Post', current, undefined, update)
+    ).resolves.toBe('updated');
+    expect(update).toHaveBeenCalledWith();
+  });
+
+  it('should update at the current version when it is expected', async () => {
+    const update = jest.fn().mockResolvedValue('updated');
+
+    await updateAtVersion('Post', current, [1, 2], update);
+
+    expect(update).toHaveBeenCalledWith(2);
+  });
+
+  it('should refuse when the current version is not expected', async () => {
+    const update = jest.fn();
+
+    await expect(
+      updateAtVersion('Post', current, [1], update)
+    ).rejects.toMatchObject({
+      constructor: ConflictError,
+      context: { entity: 'Post', id: 'post-1', currentVersion: 2 },
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should report a concurrent update as a conflict', async () => {
+    const update = jest
+      .fn()
+      .mockRejectedValue(new VersionConflictError('post-1', 2, 3));
+
+    await expect(
+      updateAtVersion('Post', current, [2], update)
+    ).rejects.toMatchObject({
+      constructor: ConflictError,
+      context: { currentVersion: 3 },
+    });
+  });
+});
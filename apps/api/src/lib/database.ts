@@ -7,7 +7,14 @@ import {
   getDatabaseClient,
   closeDatabaseConnection,
   UserRepository,
-  withTransaction,
+  RefreshTokenRepository,
+  SessionRepository,
+  PostRepository,
+  CommentRepository,
+  FileRepository,
+  UploadSessionRepository,
+  ConsumedUploadTokenRepository,
+  AuditLogRepository,
   type DatabaseConfig,
   type PrismaClient,
 } from '@template/database';
@@ -30,6 +37,16 @@ export const db: PrismaClient = getDatabaseClient(databaseConfig);
  * Repository instances for easy access
  */
 export const userRepository = new UserRepository(db);
+export const refreshTokenRepository = new RefreshTokenRepository(db);
+export const sessionRepository = new SessionRepository(db);
+export const postRepository = new PostRepository(db);
+export const commentRepository = new CommentRepository(db);
+export const fileRepository = new FileRepository(db);
+export const uploadSessionRepository = new UploadSessionRepository(db);
+export const consumedUploadTokenRepository = new ConsumedUploadTokenRepository(
+  db
+);
+export const auditLogRepository = new AuditLogRepository(db);
 
 /**
  * Gracefully close database connection
@@ -46,7 +63,9 @@ export async function closeDatabase(): Promise<void> {
 }
 
 /**
- * Example: Create user with profile in a transaction
+ * Create user with profile
+ *
+ * Goes through the repository so the creation is audited like any other.
  */
 export async function createUserWithProfile(userData: {
   firebaseUid: string;
@@ -60,30 +79,15 @@ export async function createUserWithProfile(userData: {
     location?: string;
   };
 }) {
-  return withTransaction(db, async tx => {
-    // Create user first
-    const user = await tx.user.create({
-      data: {
-        firebaseUid: userData.firebaseUid,
-        email: userData.email,
-        name: userData.name,
-        role: userData.role,
-      },
-    });
-
-    // Create user profile if data provided
-    let profile = null;
-    if (userData.profileData) {
-      profile = await tx.userProfile.create({
-        data: {
-          userId: user.id,
-          ...userData.profileData,
-        },
-      });
-    }
+  const { profileData, ...data } = userData;
 
-    return { user, profile };
+  // プロフィールはユーザーと同じトランザクションでネスト作成する
+  const user = await userRepository.create({
+    ...data,
+    ...(profileData && { profile: { create: profileData } }),
   });
+
+  return { user, profile: user.profile };
 }
 
 /**
@@ -101,67 +105,3 @@ export async function getUserWithPosts(userId: string): Promise<any> {
     },
   });
 }
-
-/**
- * Example: Create post with comments support
- */
-export async function createPost(data: {
-  title: string;
-  content: string;
-  authorId: string;
-  published?: boolean;
-}): Promise<any> {
-  return db.post.create({
-    data: {
-      title: data.title,
-      content: data.content,
-      authorId: data.authorId,
-      published: data.published || false,
-    },
-    include: {
-      author: {
-        include: {
-          profile: true,
-        },
-      },
-    },
-  });
-}
-
-/**
- * Example: Get posts with pagination
- */
-export async function getPosts(params: {
-  published?: boolean;
-  page?: number;
-  limit?: number;
-}): Promise<any> {
-  const { page = 1, limit = 10, published = true } = params;
-  const skip = (page - 1) * limit;
-
-  const [posts, total] = await Promise.all([
-    db.post.findMany({
-      where: { published },
-      skip,
-      take: limit,
-      orderBy: { createdAt: 'desc' },
-      include: {
-        author: true,
-        _count: {
-          select: { comments: true },
-        },
-      },
-    }),
-    db.post.count({ where: { published } }),
-  ]);
-
-  return {
-    posts,
-    pagination: {
-      page,
-      limit,
-      total,
-      totalPages: Math.ceil(total / limit),
-    },
-  };
-}
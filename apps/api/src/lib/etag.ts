@@ -0,0 +1,52 @@
+import {
+  ConflictError,
+  PreconditionFailedError,
+} from '../shared/infrastructure/errors';
+
+// 強いエンティティタグのみ（If-Match は強い比較を使う）
+const ENTITY_TAG = /^"(\d+)"$/;
+
+/**
+ * Entity tag of a versioned resource
+ */
+export const etagOf = (version: number): string => `"${version}"`;
+
+/**
+ * Versions listed in an If-Match header, any of which may match
+ *
+ * Returns undefined without a header or for `*`, which only asks that the
+ * resource exists. Weak tags and tags we did not issue can never match, so
+ * they are left out; a header without any of ours gives an empty list.
+ */
+export function ifMatchVersions(
+  ifMatch: string | undefined
+): number[] | undefined {
+  const value = ifMatch?.trim();
+  if (!value || value === '*') return undefined;
+
+  return value
+    .split(',')
+    .map(tag => ENTITY_TAG.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => Number(match[1]));
+}
+
+/**
+ * Run an update made conditional by If-Match
+ *
+ * A version conflict means the precondition failed, so it is answered with
+ * 412 instead of 409.
+ */
+export async function withPrecondition<T>(
+  expectedVersions: readonly number[] | undefined,
+  update: () => Promise<T>
+): Promise<T> {
+  try {
+    return await update();
+  } catch (error) {
+    if (expectedVersions !== undefined && error instanceof ConflictError) {
+      throw new PreconditionFailedError(error.message, error.context);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,95 @@
+import { FileType } from '@template/types';
+
+/**
+ * Number of leading bytes needed by {@link detectMimeType}
+ */
+export const MIME_SNIFF_LENGTH = 4100;
+
+interface Signature {
+  mimeType: string;
+  offset?: number;
+  bytes: number[] | string;
+}
+
+const signatures: Signature[] = [
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  {
+    mimeType: 'image/png',
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mimeType: 'image/gif', bytes: 'GIF87a' },
+  { mimeType: 'image/gif', bytes: 'GIF89a' },
+  { mimeType: 'application/pdf', bytes: '%PDF-' },
+  // OLE2 コンテナ（旧形式の Office 文書）
+  {
+    mimeType: 'application/msword',
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  },
+  { mimeType: 'audio/mpeg', bytes: 'ID3' },
+];
+
+// ISO BMFF のメジャーブランド（HEIF/AVIF の画像も MP4 と同じ ftyp ボックスを持つ）
+const isoBrands: Record<string, string> = {
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heic',
+  avif: 'image/avif',
+};
+
+const matches = (
+  head: Buffer,
+  bytes: Signature['bytes'],
+  offset = 0
+): boolean => {
+  const expected =
+    typeof bytes === 'string'
+      ? Buffer.from(bytes, 'latin1')
+      : Buffer.from(bytes);
+  return (
+    head.length >= offset + expected.length &&
+    head.subarray(offset, offset + expected.length).equals(expected)
+  );
+};
+
+/**
+ * Detect a MIME type from the leading bytes of a file
+ *
+ * The client-supplied Content-Type is never trusted; only the content decides.
+ * Returns undefined for unrecognised content.
+ */
+export function detectMimeType(head: Buffer): string | undefined {
+  if (matches(head, 'RIFF')) {
+    return matches(head, 'WEBP', 8) ? 'image/webp' : undefined;
+  }
+
+  if (matches(head, 'ftyp', 4)) {
+    return isoBrands[head.toString('latin1', 8, 12)] ?? 'video/mp4';
+  }
+
+  if (matches(head, 'PK\x03\x04')) {
+    // OOXML はZIP内のエントリ名で判別する
+    return head.includes('word/', 0, 'latin1')
+      ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      : 'application/zip';
+  }
+
+  return signatures.find(({ bytes, offset }) => matches(head, bytes, offset))
+    ?.mimeType;
+}
+
+const documentMimeTypes = new Set([
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+]);
+
+/**
+ * Classify a MIME type into a {@link FileType}
+ */
+export function toFileType(mimeType: string): FileType {
+  if (mimeType.startsWith('image/')) return FileType.IMAGE;
+  if (mimeType.startsWith('video/')) return FileType.VIDEO;
+  if (mimeType.startsWith('audio/')) return FileType.AUDIO;
+  if (documentMimeTypes.has(mimeType)) return FileType.DOCUMENT;
+  return FileType.OTHER;
+}
@@ -0,0 +1,244 @@
+import { createPublicKey, verify, JsonWebKey, KeyObject } from 'crypto';
+
+import { AuthenticationError } from '../shared/infrastructure/errors';
+
+/**
+ * Identity asserted by a verified external ID token
+ */
+export interface VerifiedIdentity {
+  uid: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+/**
+ * Verifier for ID tokens issued by an external identity provider
+ */
+export interface IdTokenVerifier {
+  /**
+   * Cheap check (no signature verification) whether the token was issued by
+   * this verifier's provider
+   */
+  canVerify(token: string): boolean;
+  /**
+   * Verify signature and claims
+   *
+   * @throws AuthenticationError when the token is invalid
+   */
+  verify(token: string): Promise<VerifiedIdentity>;
+}
+
+/**
+ * JSON Web Key Set together with how long it may be cached
+ */
+export interface JwksResponse {
+  keys: (JsonWebKey & { kid?: string })[];
+  maxAgeMs?: number;
+}
+
+export type JwksFetcher = () => Promise<JwksResponse>;
+
+export const FIREBASE_JWKS_URL =
+  'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+/**
+ * Create a fetcher that downloads a JWKS and honours its Cache-Control max-age
+ */
+export function createHttpJwksFetcher(
+  url: string,
+  fetchFn: (url: string) => Promise<Response> = fetch
+): JwksFetcher {
+  return async () => {
+    const response = await fetchFn(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS: HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as JwksResponse;
+    const maxAge = /max-age=(\d+)/.exec(
+      response.headers.get('cache-control') || ''
+    );
+
+    return {
+      keys: body.keys,
+      maxAgeMs: maxAge ? parseInt(maxAge[1], 10) * 1000 : undefined,
+    };
+  };
+}
+
+/**
+ * In-memory cache of public keys from a JWKS endpoint
+ *
+ * Keys are refetched once the cache expires, or when a token references an
+ * unknown key id (throttled so that forged key ids cannot force a fetch on
+ * every request).
+ */
+export class JwksKeyStore {
+  private keys = new Map<string, KeyObject>();
+  private expiresAt = 0;
+  private lastFetchedAt = 0;
+  private pending?: Promise<void>;
+
+  constructor(
+    private readonly fetchJwks: JwksFetcher,
+    private readonly options: {
+      defaultMaxAgeMs?: number;
+      minRefreshIntervalMs?: number;
+    } = {}
+  ) {}
+
+  async getKey(kid: string): Promise<KeyObject | undefined> {
+    const { minRefreshIntervalMs = 60 * 1000 } = this.options;
+    const now = Date.now();
+
+    const isExpired = now >= this.expiresAt;
+    const isUnknown =
+      !this.keys.has(kid) && now - this.lastFetchedAt >= minRefreshIntervalMs;
+
+    if (isExpired || isUnknown) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid);
+  }
+
+  private refresh(): Promise<void> {
+    // Share one in-flight request between concurrent callers
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  private async load(): Promise<void> {
+    const { defaultMaxAgeMs = 60 * 60 * 1000 } = this.options;
+    const { keys, maxAgeMs } = await this.fetchJwks();
+
+    const next = new Map<string, KeyObject>();
+    for (const jwk of keys) {
+      if (jwk.kid) {
+        next.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+
+    this.keys = next;
+    this.lastFetchedAt = Date.now();
+    this.expiresAt = this.lastFetchedAt + (maxAgeMs ?? defaultMaxAgeMs);
+  }
+}
+
+interface DecodedJwt {
+  header: { alg?: string; kid?: string };
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString()),
+      payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString()),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verifies Firebase Authentication ID tokens
+ *
+ * @see https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+ */
+export class FirebaseIdTokenVerifier implements IdTokenVerifier {
+  private readonly issuer: string;
+  private readonly clockToleranceSec: number;
+
+  constructor(
+    private readonly projectId: string,
+    private readonly keyStore: JwksKeyStore,
+    options: { clockToleranceSec?: number } = {}
+  ) {
+    this.issuer = `https://securetoken.google.com/${projectId}`;
+    this.clockToleranceSec = options.clockToleranceSec ?? 5;
+  }
+
+  canVerify(token: string): boolean {
+    const decoded = decodeJwt(token);
+    return decoded?.payload.iss === this.issuer;
+  }
+
+  async verify(token: string): Promise<VerifiedIdentity> {
+    const decoded = decodeJwt(token);
+    if (!decoded) {
+      throw new AuthenticationError('Malformed ID token');
+    }
+
+    const { header, payload, signingInput, signature } = decoded;
+
+    if (header.alg !== 'RS256' || !header.kid) {
+      throw new AuthenticationError('Unsupported ID token algorithm');
+    }
+
+    const key = await this.keyStore.getKey(header.kid);
+    if (
+      !key ||
+      !verify('RSA-SHA256', Buffer.from(signingInput), key, signature)
+    ) {
+      throw new AuthenticationError('Invalid ID token signature');
+    }
+
+    this.verifyClaims(payload);
+
+    return {
+      uid: payload.sub as string,
+      email: typeof payload.email === 'string' ? payload.email : undefined,
+      emailVerified: payload.email_verified === true,
+      name: typeof payload.name === 'string' ? payload.name : undefined,
+    };
+  }
+
+  private verifyClaims(payload: Record<string, unknown>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.clockToleranceSec;
+
+    if (payload.aud !== this.projectId || payload.iss !== this.issuer) {
+      throw new AuthenticationError('ID token was issued for another project');
+    }
+
+    if (typeof payload.exp !== 'number' || payload.exp + tolerance <= now) {
+      throw new AuthenticationError('ID token has expired');
+    }
+
+    const issuedInFuture = (claim: unknown) =>
+      typeof claim !== 'number' || claim - tolerance > now;
+
+    if (issuedInFuture(payload.iat) || issuedInFuture(payload.auth_time)) {
+      throw new AuthenticationError('ID token is not yet valid');
+    }
+
+    if (typeof payload.sub !== 'string' || payload.sub.length === 0) {
+      throw new AuthenticationError('ID token has no subject');
+    }
+  }
+}
+
+/**
+ * Create a Firebase ID token verifier backed by Google's public JWKS
+ */
+export function createFirebaseIdTokenVerifier(
+  projectId: string,
+  fetchJwks: JwksFetcher = createHttpJwksFetcher(FIREBASE_JWKS_URL)
+): FirebaseIdTokenVerifier {
+  return new FirebaseIdTokenVerifier(projectId, new JwksKeyStore(fetchJwks));
+}
@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+
+import { HealthStatus } from '../shared/types';
+
+/**
+ * A dependency the server needs in order to serve traffic
+ */
+export interface HealthCheck {
+  name: string;
+  /**
+   * Resolves when the dependency is usable; the value is ignored
+   */
+  check: () => Promise<unknown>;
+  /**
+   * Critical checks make the server unhealthy when they fail, the others
+   * only degrade it (default: true)
+   */
+  critical?: boolean;
+  /** Overrides the registry timeout for this check */
+  timeoutMs?: number;
+}
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  critical: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: Record<string, HealthCheckResult>;
+}
+
+/**
+ * Dependency checks behind the readiness probe
+ *
+ * Plugins register checks for what they depend on; {@link run} executes them
+ * in parallel, each bounded by a timeout, and aggregates the result.
+ */
+export class HealthCheckRegistry {
+  private readonly checks = new Map<string, HealthCheck>();
+
+  constructor(private readonly defaultTimeoutMs: number = 3000) {}
+
+  register(check: HealthCheck): void {
+    if (this.checks.has(check.name)) {
+      throw new Error(`Health check ${check.name} is already registered`);
+    }
+    this.checks.set(check.name, check);
+  }
+
+  async run(): Promise<HealthReport> {
+    const entries = await Promise.all(
+      [...this.checks.values()].map(
+        async check => [check.name, await this.runCheck(check)] as const
+      )
+    );
+    const checks = Object.fromEntries(entries);
+    const failed = entries.filter(
+      ([, result]) => result.status !== HealthStatus.HEALTHY
+    );
+
+    let status = HealthStatus.HEALTHY;
+    if (failed.some(([, result]) => result.critical)) {
+      status = HealthStatus.UNHEALTHY;
+    } else if (failed.length > 0) {
+      status = HealthStatus.DEGRADED;
+    }
+
+    return { status, checks };
+  }
+
+  private async runCheck(check: HealthCheck): Promise<HealthCheckResult> {
+    const critical = check.critical ?? true;
+    const timeoutMs = check.timeoutMs ?? this.defaultTimeoutMs;
+    const startedAt = performance.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await Promise.race([
+        check.check(),
+        new Promise((_resolve, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+            timeoutMs
+          );
+        }),
+      ]);
+
+      return {
+        status: HealthStatus.HEALTHY,
+        critical,
+        latencyMs: elapsedSince(startedAt),
+      };
+    } catch (error) {
+      return {
+        status: HealthStatus.UNHEALTHY,
+        critical,
+        latencyMs: elapsedSince(startedAt),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function elapsedSince(startedAt: number): number {
+  return Math.round((performance.now() - startedAt) * 100) / 100;
+}
+
+/**
+ * Version from the API's package.json (src/lib and dist/lib are both two
+ * levels below it)
+ */
+export const packageVersion: string = JSON.parse(
+  readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8')
+).version;
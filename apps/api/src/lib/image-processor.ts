@@ -0,0 +1,78 @@
+import sharp from 'sharp';
+
+import { UseCaseValidationError } from '../shared/infrastructure/errors';
+
+/**
+ * Renditions generated for every image once it has been scanned clean
+ *
+ * `original` keeps the full resolution; the others fit inside a square of
+ * `maxDimension` pixels.
+ */
+export const IMAGE_VARIANTS = [
+  { name: 'thumbnail', maxDimension: 200 },
+  { name: 'medium', maxDimension: 800 },
+  { name: 'original' },
+] as const;
+
+export type ImageVariantName = (typeof IMAGE_VARIANTS)[number]['name'];
+
+/**
+ * Image types that are re-encoded once they have been scanned clean
+ */
+export const PROCESSABLE_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+
+export interface ProcessedImage {
+  name: ImageVariantName;
+  mimeType: 'image/webp';
+  width: number;
+  height: number;
+  content: Buffer;
+}
+
+/**
+ * Produce WebP variants of an image
+ *
+ * sharp drops EXIF/GPS and other metadata unless asked to keep it, so the
+ * orientation is applied to the pixels first.
+ *
+ * @throws UseCaseValidationError if the content cannot be decoded
+ */
+export async function processImage(input: Buffer): Promise<ProcessedImage[]> {
+  try {
+    return await Promise.all(
+      IMAGE_VARIANTS.map(async variant => {
+        let image = sharp(input).rotate();
+
+        if ('maxDimension' in variant) {
+          image = image.resize(variant.maxDimension, variant.maxDimension, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          });
+        }
+
+        const { data, info } = await image
+          .webp({ quality: 80 })
+          .toBuffer({ resolveWithObject: true });
+
+        return {
+          name: variant.name,
+          mimeType: 'image/webp' as const,
+          width: info.width,
+          height: info.height,
+          content: data,
+        };
+      })
+    );
+  } catch (error) {
+    throw new UseCaseValidationError(
+      'FileUpload',
+      ['Image could not be processed'],
+      { reason: (error as Error).message }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import type { FastifyInstance } from 'fastify';
+
+/**
+ * Run a background task at a fixed interval for the lifetime of the server
+ *
+ * Failures are logged and the next run happens as scheduled. Runs never
+ * overlap; a run that is still in progress skips the next tick.
+ */
+export function scheduleJob(
+  fastify: FastifyInstance,
+  name: string,
+  intervalMs: number,
+  task: () => Promise<unknown>
+): void {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await task();
+      fastify.log.debug({ job: name, result }, 'Job finished');
+    } catch (error) {
+      fastify.log.error({ error, job: name }, 'Job failed');
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  // ジョブのタイマーでプロセス終了を妨げない
+  timer.unref();
+
+  fastify.addHook('onClose', async () => clearInterval(timer));
+}
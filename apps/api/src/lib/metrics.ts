@@ -0,0 +1,119 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { PrismaClient } from '@template/database';
+import {
+  Counter,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+
+/**
+ * Route label for requests that did not match any route (404)
+ */
+const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * Label a request by its route pattern (`/api/v1/posts/:id`) rather than the
+ * raw URL, so that ids do not blow up the label cardinality
+ */
+export const routeLabel = (request: FastifyRequest): string =>
+  request.routeOptions.url ?? UNMATCHED_ROUTE;
+
+/**
+ * Prometheus metrics exposed on /metrics
+ */
+export class ApiMetrics {
+  readonly registry: Registry;
+
+  readonly httpRequests: Counter<'method' | 'route' | 'status_code'>;
+  readonly httpRequestDuration: Histogram<'method' | 'route' | 'status_code'>;
+  readonly errors: Counter<'code'>;
+  readonly dbQueryDuration: Histogram<'model' | 'action'>;
+  readonly rateLimitRejections: Counter<'route'>;
+
+  constructor(options: { collectDefaults?: boolean } = {}) {
+    const { collectDefaults = true } = options;
+
+    this.registry = new Registry();
+
+    // プロセスのCPU・メモリ・イベントループ遅延など
+    if (collectDefaults) {
+      collectDefaultMetrics({ register: this.registry });
+    }
+
+    this.httpRequests = new Counter({
+      name: 'http_requests_total',
+      help: 'HTTP requests by route pattern and status code',
+      labelNames: ['method', 'route', 'status_code'],
+      registers: [this.registry],
+    });
+
+    this.httpRequestDuration = new Histogram({
+      name: 'http_request_duration_seconds',
+      help: 'HTTP request latency by route pattern and status code',
+      labelNames: ['method', 'route', 'status_code'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers: [this.registry],
+    });
+
+    this.errors = new Counter({
+      name: 'api_errors_total',
+      help: 'Error responses by error code',
+      labelNames: ['code'],
+      registers: [this.registry],
+    });
+
+    this.dbQueryDuration = new Histogram({
+      name: 'db_query_duration_seconds',
+      help: 'Prisma query latency by model and action',
+      labelNames: ['model', 'action'],
+      buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+      registers: [this.registry],
+    });
+
+    this.rateLimitRejections = new Counter({
+      name: 'rate_limit_rejections_total',
+      help: 'Requests rejected by the rate limiter',
+      labelNames: ['route'],
+      registers: [this.registry],
+    });
+  }
+
+  recordRequest(request: FastifyRequest, reply: FastifyReply): void {
+    const labels = {
+      method: request.method,
+      route: routeLabel(request),
+      status_code: String(reply.statusCode),
+    };
+
+    this.httpRequests.inc(labels);
+    this.httpRequestDuration.observe(labels, reply.elapsedTime / 1000);
+  }
+
+  recordError(code: string): void {
+    this.errors.inc({ code });
+  }
+
+  recordRateLimitRejection(request: FastifyRequest): void {
+    this.rateLimitRejections.inc({ route: routeLabel(request) });
+  }
+
+  /**
+   * Time every query made through the client
+   */
+  instrumentPrisma(client: Pick<PrismaClient, '$use'>): void {
+    client.$use(async (params, next) => {
+      const end = this.dbQueryDuration.startTimer({
+        // $queryRaw などモデルを持たないクエリ
+        model: params.model ?? 'raw',
+        action: params.action,
+      });
+
+      try {
+        return await next(params);
+      } finally {
+        end();
+      }
+    });
+  }
+}
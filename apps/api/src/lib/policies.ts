@@ -0,0 +1,106 @@
+import type {
+  Comment,
+  File,
+  Post,
+  UploadSession,
+  User,
+  UserProfile,
+} from '@template/database';
+import { UserRole } from '@template/types';
+
+import type { AuthenticatedUser } from '../services/auth.service';
+import { AuthorizationError } from '../shared/infrastructure/errors';
+
+export type PolicyAction = 'read' | 'update' | 'delete';
+
+/**
+ * Fields each policy needs from the resource it guards
+ */
+export interface PolicyResources {
+  User: Pick<User, 'id'>;
+  Profile: Pick<UserProfile, 'userId'>;
+  Post: Pick<Post, 'authorId' | 'published'>;
+  Comment: Pick<Comment, 'authorId'>;
+  File: Pick<File, 'ownerId' | 'isPublic'>;
+  UploadSession: Pick<UploadSession, 'ownerId'>;
+}
+
+export type PolicySubject = keyof PolicyResources;
+
+type PolicyRule<T> = (user: AuthenticatedUser, resource: T) => boolean;
+
+type PolicyMap = {
+  [S in PolicySubject]: Partial<
+    Record<PolicyAction, PolicyRule<PolicyResources[S]>>
+  >;
+};
+
+const isAdmin = (user: AuthenticatedUser) => user.role === UserRole.ADMIN;
+
+/**
+ * Who may do what to each resource
+ *
+ * Actions without a rule are denied.
+ */
+export const policies: PolicyMap = {
+  User: {
+    read: () => true,
+    update: (user, target) => user.id === target.id || isAdmin(user),
+    delete: user => isAdmin(user),
+  },
+  Profile: {
+    read: () => true,
+    update: (user, profile) => user.id === profile.userId || isAdmin(user),
+  },
+  Post: {
+    read: (user, post) =>
+      post.published || user.id === post.authorId || isAdmin(user),
+    update: (user, post) => user.id === post.authorId,
+    delete: (user, post) => user.id === post.authorId || isAdmin(user),
+  },
+  Comment: {
+    update: (user, comment) => user.id === comment.authorId,
+    delete: (user, comment) => user.id === comment.authorId || isAdmin(user),
+  },
+  File: {
+    read: (user, file) =>
+      file.isPublic || user.id === file.ownerId || isAdmin(user),
+    delete: (user, file) => user.id === file.ownerId || isAdmin(user),
+  },
+  UploadSession: {
+    read: (user, session) => user.id === session.ownerId,
+    update: (user, session) => user.id === session.ownerId,
+    delete: (user, session) => user.id === session.ownerId,
+  },
+};
+
+/**
+ * Check whether a user may perform an action on a resource
+ */
+export function can<S extends PolicySubject>(
+  user: AuthenticatedUser,
+  action: PolicyAction,
+  subject: S,
+  resource: PolicyResources[S]
+): boolean {
+  const rule = policies[subject][action] as
+    | PolicyRule<PolicyResources[S]>
+    | undefined;
+  return rule ? rule(user, resource) : false;
+}
+
+/**
+ * Same as {@link can}, but throws when access is denied
+ *
+ * @throws AuthorizationError
+ */
+export function assertCan<S extends PolicySubject>(
+  user: AuthenticatedUser,
+  action: PolicyAction,
+  subject: S,
+  resource: PolicyResources[S]
+): void {
+  if (!can(user, action, subject, resource)) {
+    throw new AuthorizationError(subject, action, { userId: user.id });
+  }
+}
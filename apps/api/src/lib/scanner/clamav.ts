@@ -0,0 +1,109 @@
+import { connect, type Socket } from 'net';
+import type { Readable } from 'stream';
+
+import { ExternalServiceError } from '../../shared/infrastructure/errors';
+import type { FileScanner, ScanResult } from './index';
+
+export interface ClamAvOptions {
+  host: string;
+  port: number;
+  /** Socket inactivity timeout in milliseconds */
+  timeout: number;
+}
+
+// clamd が受け付ける1チャンクの上限（StreamMaxLength とは別）
+const MAX_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Scanner backed by a clamd daemon, using the INSTREAM command over TCP
+ */
+export class ClamAvScanner implements FileScanner {
+  constructor(private readonly options: ClamAvOptions) {}
+
+  async scan(content: Readable): Promise<ScanResult> {
+    let reply: string;
+
+    try {
+      reply = await this.instream(content);
+    } catch (error) {
+      content.destroy();
+      throw new ExternalServiceError('clamav', 'scan', error as Error);
+    }
+
+    // 応答は "stream: OK" / "stream: <signature> FOUND" / "<reason> ERROR"
+    const verdict = reply.replace(/^stream:\s*/, '');
+    if (verdict === 'OK') {
+      return { clean: true };
+    }
+    if (verdict.endsWith(' FOUND')) {
+      return { clean: false, threat: verdict.slice(0, -' FOUND'.length) };
+    }
+
+    throw new ExternalServiceError('clamav', 'scan', new Error(verdict));
+  }
+
+  async ping(): Promise<void> {
+    const reply = await this.command(socket =>
+      write(socket, Buffer.from('zPING\0'))
+    );
+
+    if (reply !== 'PONG') {
+      throw new ExternalServiceError('clamav', 'ping', new Error(reply));
+    }
+  }
+
+  /**
+   * Send the stream as length-prefixed chunks and read the reply
+   */
+  private instream(content: Readable): Promise<string> {
+    return this.command(socket => send(socket, content));
+  }
+
+  /**
+   * Open a connection, send a command and read the reply until clamd closes
+   */
+  private command(request: (socket: Socket) => Promise<void>): Promise<string> {
+    const { host, port, timeout } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = connect({ host, port });
+      const received: Buffer[] = [];
+
+      socket.setTimeout(timeout, () =>
+        socket.destroy(new Error(`No response within ${timeout}ms`))
+      );
+      socket.on('data', chunk => received.push(chunk));
+      socket.on('error', reject);
+      socket.on('close', () =>
+        resolve(Buffer.concat(received).toString().replace(/\0/g, '').trim())
+      );
+
+      socket.once('connect', () => {
+        request(socket).catch(error => socket.destroy(error));
+      });
+    });
+  }
+}
+
+function write(socket: Socket, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) =>
+    socket.write(data, error => (error ? reject(error) : resolve()))
+  );
+}
+
+async function send(socket: Socket, content: Readable): Promise<void> {
+  await write(socket, Buffer.from('zINSTREAM\0'));
+
+  for await (const chunk of content) {
+    const data = chunk as Buffer;
+    for (let start = 0; start < data.length; start += MAX_CHUNK_SIZE) {
+      const part = data.subarray(start, start + MAX_CHUNK_SIZE);
+      const length = Buffer.alloc(4);
+      length.writeUInt32BE(part.length);
+      await write(socket, Buffer.concat([length, part]));
+    }
+  }
+
+  // 長さ0のチャンクでストリームの終わりを伝える
+  await write(socket, Buffer.alloc(4));
+}
@@ -0,0 +1,40 @@
+import type { Readable } from 'stream';
+
+import type { AppConfig } from '../../shared/infrastructure/config';
+import { ClamAvScanner } from './clamav';
+
+export type ScanResult =
+  | { clean: true }
+  | {
+      clean: false;
+      /** Signature name reported by the scanner */
+      threat: string;
+    };
+
+/**
+ * Malware scanner for uploaded content
+ */
+export interface FileScanner {
+  /**
+   * Scan a stream to the end
+   *
+   * @throws ExternalServiceError if the scanner could not give a verdict
+   */
+  scan(content: Readable): Promise<ScanResult>;
+
+  /**
+   * Check that the scanner is reachable, for readiness probes
+   */
+  ping(): Promise<void>;
+}
+
+/**
+ * Create the scanner configured in `upload.scanner`
+ */
+export function createFileScanner(
+  config: AppConfig['upload']['scanner']
+): FileScanner {
+  return new ClamAvScanner(config);
+}
+
+export { ClamAvScanner };
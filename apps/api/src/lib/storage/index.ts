@@ -0,0 +1,112 @@
+import type { Readable } from 'stream';
+
+import type { UploadPart } from '@template/database';
+
+import type { AppConfig } from '../../shared/infrastructure/config';
+import { LocalStorageDriver } from './local';
+import { S3StorageDriver } from './s3';
+
+export interface SignedUrlOptions {
+  /** Lifetime of the URL in seconds */
+  expiresIn: number;
+  /** Content-Type the client must send with a PUT, or is sent with a GET */
+  contentType?: string;
+  /** Content-Length the client must send with a PUT */
+  contentLength?: number;
+  /** Content-Disposition sent with a GET */
+  contentDisposition?: string;
+}
+
+export type { UploadPart };
+
+/**
+ * Backend that stores file content under opaque keys
+ *
+ * Metadata lives in the database; drivers only deal with bytes.
+ */
+export interface StorageDriver {
+  /**
+   * Store a stream under the key; partial writes must not be left behind
+   */
+  put(key: string, body: Readable): Promise<void>;
+
+  /**
+   * Open a stored object for reading
+   *
+   * @throws FileSystemError if the object does not exist
+   */
+  get(key: string): Promise<Readable>;
+
+  /**
+   * Remove a stored object; deleting a missing key is not an error
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Check that the backend is reachable and writable, for readiness probes
+   */
+  ping(): Promise<void>;
+
+  /**
+   * Smallest chunk accepted by {@link uploadChunk}, except for the last one
+   */
+  readonly minChunkSize: number;
+
+  /**
+   * Start assembling an object from chunks
+   *
+   * @returns an upload id to pass to the other chunked upload methods
+   */
+  createChunkedUpload(key: string): Promise<string>;
+
+  /**
+   * Store one chunk; re-sending the same part number replaces it
+   */
+  uploadChunk(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer
+  ): Promise<UploadPart>;
+
+  /**
+   * Join the parts, in order, into the object stored under the key
+   */
+  completeChunkedUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadPart[]
+  ): Promise<void>;
+
+  /**
+   * Discard the parts of an unfinished upload
+   */
+  abortChunkedUpload(key: string, uploadId: string): Promise<void>;
+
+  /**
+   * Presign a URL that lets clients talk to the backend directly
+   *
+   * Only implemented by drivers whose backend can verify signatures itself.
+   */
+  getSignedUrl?(
+    key: string,
+    method: 'GET' | 'PUT',
+    options: SignedUrlOptions
+  ): Promise<string>;
+}
+
+/**
+ * Create the storage driver selected by `upload.storageDriver`
+ */
+export function createStorageDriver(
+  config: AppConfig['upload']
+): StorageDriver {
+  switch (config.storageDriver) {
+    case 's3':
+      return new S3StorageDriver(config.s3);
+    case 'local':
+      return new LocalStorageDriver(config.uploadPath);
+  }
+}
+
+export { LocalStorageDriver, S3StorageDriver };
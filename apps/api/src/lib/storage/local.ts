@@ -0,0 +1,126 @@
+import {
+  constants as fsConstants,
+  createReadStream,
+  createWriteStream,
+  promises as fs,
+} from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import type { StorageDriver, UploadPart } from './index';
+import { FileSystemError } from '../../shared/infrastructure/errors';
+import { CryptoUtils } from '../../shared/utils/crypto';
+
+/**
+ * Stores objects as files below a root directory
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly minChunkSize = 1;
+
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const target = this.resolve(key);
+    // 一時ファイルに書き込んでからリネームし、途中までのファイルを残さない
+    const temp = `${target}.${CryptoUtils.generateRandomString(8)}.part`;
+
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await pipeline(body, createWriteStream(temp, { flags: 'wx' }));
+      await fs.rename(temp, target);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolve(key);
+
+    try {
+      await fs.access(target);
+    } catch (error) {
+      throw new FileSystemError('read', key, error as Error);
+    }
+
+    return createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async ping(): Promise<void> {
+    await fs.mkdir(this.root, { recursive: true });
+    await fs.access(this.root, fsConstants.W_OK);
+  }
+
+  async createChunkedUpload(_key: string): Promise<string> {
+    const uploadId = CryptoUtils.generateUUID();
+    await fs.mkdir(this.chunkDir(uploadId), { recursive: true });
+    return uploadId;
+  }
+
+  async uploadChunk(
+    _key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer
+  ): Promise<UploadPart> {
+    await fs.writeFile(
+      path.join(this.chunkDir(uploadId), String(partNumber)),
+      body
+    );
+    return { number: partNumber };
+  }
+
+  async completeChunkedUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadPart[]
+  ): Promise<void> {
+    const dir = this.chunkDir(uploadId);
+    const ordered = [...parts].sort((a, b) => a.number - b.number);
+
+    async function* concat() {
+      for (const part of ordered) {
+        yield* createReadStream(path.join(dir, String(part.number)));
+      }
+    }
+
+    await this.put(key, Readable.from(concat()));
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  async abortChunkedUpload(_key: string, uploadId: string): Promise<void> {
+    await fs.rm(this.chunkDir(uploadId), { recursive: true, force: true });
+  }
+
+  /**
+   * Directory holding the parts of a chunked upload
+   */
+  private chunkDir(uploadId: string): string {
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) {
+      throw new FileSystemError('resolve', uploadId);
+    }
+    return path.join(this.root, '.chunks', uploadId);
+  }
+
+  /**
+   * Map a key to a path, refusing keys that escape the root
+   */
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+
+    if (!target.startsWith(this.root + path.sep)) {
+      throw new FileSystemError('resolve', key);
+    }
+
+    return target;
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { Readable } from 'stream';
+
+import type { SignedUrlOptions, StorageDriver, UploadPart } from './index';
+import type { AppConfig } from '../../shared/infrastructure/config';
+import { FileSystemError } from '../../shared/infrastructure/errors';
+
+export type S3StorageOptions = AppConfig['upload']['s3'];
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, ...)
+ */
+export class S3StorageDriver implements StorageDriver {
+  // S3 のマルチパートアップロードは最後以外のパートが5MiB以上である必要がある
+  readonly minChunkSize = 5 * 1024 * 1024;
+
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: S3StorageOptions, client?: S3Client) {
+    this.bucket = options.bucket;
+    this.client =
+      client ??
+      new S3Client({
+        region: options.region,
+        endpoint: options.endpoint,
+        forcePathStyle: options.forcePathStyle,
+        // 未指定の場合はSDK標準の認証情報チェーン（IAMロールなど）を使う
+        credentials:
+          options.accessKeyId && options.secretAccessKey
+            ? {
+                accessKeyId: options.accessKeyId,
+                secretAccessKey: options.secretAccessKey,
+              }
+            : undefined,
+      });
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    // 長さが不明なストリームはマルチパートで送る（失敗時はパートを破棄する）
+    const upload = new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: body },
+    });
+
+    await upload.done();
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const { Body } = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new FileSystemError('read', key, error);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+
+  async ping(): Promise<void> {
+    await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+  }
+
+  async createChunkedUpload(key: string): Promise<string> {
+    const { UploadId } = await this.client.send(
+      new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: key })
+    );
+    return UploadId!;
+  }
+
+  async uploadChunk(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer
+  ): Promise<UploadPart> {
+    const { ETag } = await this.client.send(
+      new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: body,
+      })
+    );
+    return { number: partNumber, etag: ETag };
+  }
+
+  async completeChunkedUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadPart[]
+  ): Promise<void> {
+    await this.client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.number - b.number)
+            .map(part => ({ PartNumber: part.number, ETag: part.etag })),
+        },
+      })
+    );
+  }
+
+  async abortChunkedUpload(key: string, uploadId: string): Promise<void> {
+    await this.client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+      })
+    );
+  }
+
+  async getSignedUrl(
+    key: string,
+    method: 'GET' | 'PUT',
+    options: SignedUrlOptions
+  ): Promise<string> {
+    const command =
+      method === 'PUT'
+        ? new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: options.contentType,
+            ContentLength: options.contentLength,
+          })
+        : new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            // オブジェクト自体には種類もファイル名も保存していない
+            ResponseContentType: options.contentType,
+            ResponseContentDisposition: options.contentDisposition,
+          });
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: options.expiresIn,
+      // 署名に含めないと Content-Type が異なるアップロードも通ってしまう
+      signableHeaders: new Set(['content-type', 'content-length']),
+    });
+  }
+}
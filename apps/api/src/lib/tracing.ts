@@ -0,0 +1,229 @@
+import {
+  Attributes,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+  context,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import {
+  ATTR_ERROR_TYPE,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+  ATTR_URL_FULL,
+} from '@opentelemetry/semantic-conventions';
+import type { PrismaClient } from '@template/database';
+
+import type { AppConfig } from '../shared/infrastructure/config';
+
+export interface TracingOptions {
+  serviceName: string;
+  serviceVersion?: string;
+  /**
+   * Where finished spans are sent; without one spans are still created so
+   * that trace ids are propagated, but they are not exported
+   */
+  exporter?: SpanExporter;
+  /**
+   * Export each span as soon as it ends instead of in batches (for tests)
+   */
+  exportImmediately?: boolean;
+}
+
+let globalsRegistered = false;
+
+/**
+ * Context manager and propagator are process-wide in the OpenTelemetry API
+ */
+function registerGlobals(): void {
+  if (globalsRegistered) return;
+  globalsRegistered = true;
+
+  context.setGlobalContextManager(
+    new AsyncLocalStorageContextManager().enable()
+  );
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+}
+
+/**
+ * Mark a span as failed with the given error type (an ErrorCode for API
+ * errors, the error class otherwise)
+ */
+export function markSpanError(
+  span: Span,
+  type: string,
+  message?: string
+): void {
+  span.setAttribute(ATTR_ERROR_TYPE, type);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * OpenTelemetry tracing for requests, Prisma queries and outbound calls
+ */
+export class Tracing {
+  readonly tracer: Tracer;
+  private readonly provider: BasicTracerProvider;
+
+  constructor(options: TracingOptions) {
+    registerGlobals();
+
+    const { exporter } = options;
+    this.provider = new BasicTracerProvider({
+      resource: resourceFromAttributes({
+        [ATTR_SERVICE_NAME]: options.serviceName,
+        [ATTR_SERVICE_VERSION]: options.serviceVersion,
+      }),
+      spanProcessors: exporter
+        ? [
+            options.exportImmediately
+              ? new SimpleSpanProcessor(exporter)
+              : new BatchSpanProcessor(exporter),
+          ]
+        : [],
+    });
+    this.tracer = this.provider.getTracer(options.serviceName);
+  }
+
+  /**
+   * Start a server span, continuing the caller's trace when the headers carry
+   * a W3C traceparent
+   */
+  startServerSpan(
+    name: string,
+    headers: Record<string, string | string[] | undefined>,
+    attributes?: Attributes
+  ): Span {
+    const parent = propagation.extract(ROOT_CONTEXT, headers);
+    return this.tracer.startSpan(
+      name,
+      { kind: SpanKind.SERVER, attributes },
+      parent
+    );
+  }
+
+  /**
+   * Run `fn` in a child span of the active span; the span ends when `fn`
+   * settles and records the error if it throws
+   */
+  async inSpan<T>(
+    name: string,
+    options: { kind?: SpanKind; attributes?: Attributes },
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    return this.tracer.startActiveSpan(name, options, async span => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        if (error instanceof Error) {
+          span.recordException(error);
+          markSpanError(span, error.name, error.message);
+        }
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Trace every query made through the client
+   */
+  instrumentPrisma(client: Pick<PrismaClient, '$use'>): void {
+    client.$use((params, next) => {
+      // $queryRaw などモデルを持たないクエリ
+      const model = params.model ?? 'raw';
+
+      return this.inSpan(
+        `prisma:${model}.${params.action}`,
+        {
+          kind: SpanKind.CLIENT,
+          attributes: {
+            'db.system': 'postgresql',
+            'db.operation': params.action,
+            'db.prisma.model': model,
+          },
+        },
+        () => next(params)
+      );
+    });
+  }
+
+  /**
+   * `fetch` in a client span that passes the trace on to the callee
+   */
+  readonly fetch = (url: string | URL, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+
+    return this.inSpan(
+      method,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [ATTR_HTTP_REQUEST_METHOD]: method,
+          [ATTR_URL_FULL]: String(url),
+        },
+      },
+      async span => {
+        const headers = new Headers(init.headers);
+        propagation.inject(context.active(), headers, {
+          set: (carrier, key, value) => carrier.set(key, value),
+        });
+
+        const response = await fetch(url, { ...init, headers });
+
+        span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+        if (response.status >= 400) {
+          markSpanError(span, String(response.status));
+        }
+        return response;
+      }
+    );
+  };
+
+  /**
+   * Flush pending spans
+   */
+  async shutdown(): Promise<void> {
+    await this.provider.shutdown();
+  }
+}
+
+/**
+ * Tracing that exports over OTLP/HTTP when an endpoint is configured
+ */
+export function createTracing(
+  config: AppConfig['tracing'],
+  serviceVersion?: string
+): Tracing {
+  return new Tracing({
+    serviceName: config.serviceName,
+    serviceVersion,
+    exporter: config.endpoint
+      ? new OTLPTraceExporter({ url: config.endpoint })
+      : undefined,
+  });
+}
+
+/**
+ * Trace id of a span, or undefined when there is no valid span
+ */
+export const traceIdOf = (span: Span | null | undefined): string | undefined =>
+  span && trace.isSpanContextValid(span.spanContext())
+    ? span.spanContext().traceId
+    : undefined;
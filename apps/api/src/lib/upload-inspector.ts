@@ -0,0 +1,96 @@
+import { createHash, Hash } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+import { MIME_SNIFF_LENGTH, detectMimeType } from './file-type';
+import { UseCaseValidationError } from '../shared/infrastructure/errors';
+
+export interface UploadLimits {
+  maxFileSize: number;
+  allowedMimeTypes: string[];
+}
+
+/**
+ * Pass-through stream that validates an upload while it is being stored
+ *
+ * Holds back the first bytes until the content type is known, so rejected
+ * content never reaches the storage driver, then counts size and computes a
+ * SHA-256 checksum on the fly.
+ */
+export class UploadInspector extends Transform {
+  private readonly hash: Hash = createHash('sha256');
+  private head: Buffer[] = [];
+  private headLength = 0;
+  private detected?: string;
+
+  /** Total bytes seen so far */
+  size = 0;
+
+  constructor(private readonly limits: UploadLimits) {
+    super();
+  }
+
+  /**
+   * MIME type detected from the content (available once the stream ends)
+   */
+  get mimeType(): string {
+    if (!this.detected) {
+      throw new Error('Upload has not been inspected yet');
+    }
+    return this.detected;
+  }
+
+  /**
+   * Hex-encoded SHA-256 of the content (available once the stream ends)
+   */
+  get checksum(): string {
+    return this.hash.copy().digest('hex');
+  }
+
+  _transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this.size += chunk.length;
+    if (this.size > this.limits.maxFileSize) {
+      return callback(
+        new UseCaseValidationError('FileUpload', [
+          `File exceeds the maximum size of ${this.limits.maxFileSize} bytes`,
+        ])
+      );
+    }
+
+    this.hash.update(chunk);
+
+    if (this.detected) {
+      return callback(null, chunk);
+    }
+
+    this.head.push(chunk);
+    this.headLength += chunk.length;
+    if (this.headLength < MIME_SNIFF_LENGTH) {
+      return callback();
+    }
+
+    callback(this.releaseHead());
+  }
+
+  _flush(callback: TransformCallback) {
+    if (this.detected) {
+      return callback();
+    }
+    callback(this.releaseHead());
+  }
+
+  private releaseHead(): Error | null {
+    const head = Buffer.concat(this.head);
+    const mimeType = detectMimeType(head);
+
+    if (!mimeType || !this.limits.allowedMimeTypes.includes(mimeType)) {
+      return new UseCaseValidationError('FileUpload', [
+        `File type ${mimeType ?? 'unknown'} is not allowed`,
+      ]);
+    }
+
+    this.detected = mimeType;
+    this.head = [];
+    this.push(head);
+    return null;
+  }
+}
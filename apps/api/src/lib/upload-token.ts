@@ -0,0 +1,130 @@
+import {
+  createHash,
+  createHmac,
+  hkdfSync,
+  randomUUID,
+  timingSafeEqual,
+} from 'crypto';
+
+import { AuthenticationError } from '../shared/infrastructure/errors';
+
+/**
+ * What an upload token allows its bearer to do
+ */
+export interface UploadTokenClaims {
+  /** Unique id of the token, consumed by its first use */
+  tokenId: string;
+  userId: string;
+  fileName: string;
+  /** Maximum size in bytes */
+  maxSize: number;
+  mimeType: string;
+  expiresAt: Date;
+}
+
+interface SigningKey {
+  kid: string;
+  key: Buffer;
+}
+
+interface TokenPayload {
+  jti: string;
+  sub: string;
+  name: string;
+  max: number;
+  mime: string;
+  exp: number;
+}
+
+// 設定上の秘密鍵をそのまま使わず、用途ごとに鍵を導出する
+const KEY_INFO = 'template-api/file-upload-token/v1';
+
+const deriveKey = (secret: string): SigningKey => {
+  const key = Buffer.from(hkdfSync('sha256', secret, '', KEY_INFO, 32));
+  const kid = createHash('sha256').update(key).digest('base64url').slice(0, 8);
+  return { kid, key };
+};
+
+const sign = (key: Buffer, data: string): Buffer =>
+  createHmac('sha256', key).update(data).digest();
+
+/**
+ * Signs and verifies capability tokens for direct uploads
+ *
+ * Tokens look like `<kid>.<payload>.<signature>`, and each allows a single
+ * upload: callers consume `tokenId` on first use. The first secret signs new
+ * tokens; the others are still accepted, so secrets can be rotated by
+ * prepending a new one and dropping the oldest once its tokens have expired.
+ */
+export class UploadTokenSigner {
+  private readonly keys: SigningKey[];
+
+  constructor(secrets: string[]) {
+    if (secrets.length === 0) {
+      throw new Error('At least one upload token secret is required');
+    }
+    this.keys = secrets.map(deriveKey);
+  }
+
+  /**
+   * Sign a token with a fresh id for the given claims
+   */
+  issue(claims: Omit<UploadTokenClaims, 'tokenId'>): string {
+    const { kid, key } = this.keys[0];
+    const payload: TokenPayload = {
+      jti: randomUUID(),
+      sub: claims.userId,
+      name: claims.fileName,
+      max: claims.maxSize,
+      mime: claims.mimeType,
+      exp: Math.floor(claims.expiresAt.getTime() / 1000),
+    };
+    const data = `${kid}.${Buffer.from(JSON.stringify(payload)).toString(
+      'base64url'
+    )}`;
+
+    return `${data}.${sign(key, data).toString('base64url')}`;
+  }
+
+  /**
+   * @throws AuthenticationError if the token is malformed, forged or expired
+   */
+  verify(token: string, now: Date = new Date()): UploadTokenClaims {
+    const [kid, encodedPayload, signature, ...rest] = token.split('.');
+    const signingKey = this.keys.find(key => key.kid === kid);
+
+    if (!signingKey || !encodedPayload || !signature || rest.length > 0) {
+      throw new AuthenticationError('Invalid upload token');
+    }
+
+    const expected = sign(signingKey.key, `${kid}.${encodedPayload}`);
+    const actual = Buffer.from(signature, 'base64url');
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new AuthenticationError('Invalid upload token');
+    }
+
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString()
+    ) as TokenPayload;
+
+    if (payload.exp * 1000 <= now.getTime()) {
+      throw new AuthenticationError('Upload token has expired');
+    }
+    // jti のないトークンは使用済みかどうかを記録できない
+    if (!payload.jti) {
+      throw new AuthenticationError('Invalid upload token');
+    }
+
+    return {
+      tokenId: payload.jti,
+      userId: payload.sub,
+      fileName: payload.name,
+      maxSize: payload.max,
+      mimeType: payload.mime,
+      expiresAt: new Date(payload.exp * 1000),
+    };
+  }
+}
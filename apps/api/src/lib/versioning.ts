@@ -0,0 +1,47 @@
+import { VersionConflictError } from '@template/database';
+
+import { ConflictError } from '../shared/infrastructure/errors';
+
+/**
+ * Update a versioned record only while it is at a version the caller expects
+ *
+ * Without expected versions the update is applied as is. Otherwise the record
+ * must be at one of them, and the repository checks atomically that it still
+ * is when the update is written.
+ *
+ * @param entity - Entity name for the error
+ * @param current - The record as the service has just read it
+ * @param expectedVersions - Any of these versions is acceptable
+ * @param update - Writes the change, at the given version when there is one
+ * @throws ConflictError if someone else updated the record first
+ */
+export async function updateAtVersion<T>(
+  entity: string,
+  current: { id: string; version: number },
+  expectedVersions: readonly number[] | undefined,
+  update: (_expectedVersion?: number) => Promise<T>
+): Promise<T> {
+  if (!expectedVersions) {
+    return update();
+  }
+
+  const conflict = (currentVersion: number) =>
+    new ConflictError(`${entity} has been modified by someone else`, {
+      entity,
+      id: current.id,
+      currentVersion,
+    });
+
+  if (!expectedVersions.includes(current.version)) {
+    throw conflict(current.version);
+  }
+
+  try {
+    return await update(current.version);
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      throw conflict(error.currentVersion);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { currentAuditContext } from '@template/database';
+
+import { auditMiddleware } from '../audit';
+
+describe('Audit Middleware', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify();
+    await app.register(auditMiddleware);
+    app.post(
+      '/posts',
+      {
+        preHandler: async request => {
+          // stands in for fastify.authenticate
+          request.user = { id: 'user-1' } as typeof request.user;
+        },
+      },
+      async () => {
+        await new Promise(resolve => setImmediate(resolve));
+        return currentAuditContext();
+      }
+    );
+  });
+
+  afterEach(() => app.close());
+
+  it('should expose the actor, trace id and IP to the handler', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/posts',
+      payload: { title: 'Hello' },
+      remoteAddress: '10.0.0.1',
+    });
+
+    expect(response.json()).toEqual({
+      actorId: 'user-1',
+      traceId: expect.any(String),
+      ipAddress: '10.0.0.1',
+    });
+  });
+
+  it('should leave the actor empty for anonymous requests', async () => {
+    app.get('/public', async () => currentAuditContext());
+
+    const response = await app.inject({ method: 'GET', url: '/public' });
+
+    expect(response.json().actorId).toBeNull();
+  });
+});
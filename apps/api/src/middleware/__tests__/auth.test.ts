@@ -1,5 +1,10 @@
 import { FastifyInstance } from 'fastify';
 import { authMiddleware } from '../auth';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  EntityNotFoundError,
+} from '../../shared/infrastructure/errors';
 
 describe('Auth Middleware', () => {
   let mockFastify: Partial<FastifyInstance>;
@@ -16,7 +21,10 @@ describe('Auth Middleware', () => {
   });
 
   it('should register authentication decorators', async () => {
-    await authMiddleware(mockFastify as FastifyInstance, {});
+    await authMiddleware(mockFastify as FastifyInstance, {
+      loadAccessState: jest.fn(),
+      isSessionActive: jest.fn(),
+    });
 
     expect(mockFastify.decorate).toHaveBeenCalledWith(
       'authenticate',
@@ -30,6 +38,10 @@ describe('Auth Middleware', () => {
       'authorize',
       expect.any(Function)
     );
+    expect(mockFastify.decorate).toHaveBeenCalledWith(
+      'can',
+      expect.any(Function)
+    );
   });
 
   it('should handle bearer token extraction', () => {
@@ -88,4 +100,186 @@ describe('Auth Middleware', () => {
     mockRequest.headers = { authorization: 'Bearer token' };
     expect(mockRequest.headers.authorization).toBeTruthy();
   });
+
+  describe('authenticate', () => {
+    const isSessionActive = jest.fn();
+    const reply = { send: jest.fn() };
+    let authenticate: (...args: any[]) => Promise<void>;
+
+    const createRequest = (sid?: string) => ({
+      headers: { authorization: 'Bearer token' },
+      user: { id: 'user-1', email: 'test@example.com', role: 'USER', sid },
+      jwtVerify: jest.fn(),
+    });
+
+    beforeEach(async () => {
+      isSessionActive.mockReset();
+      reply.send.mockReset();
+      await authMiddleware(mockFastify as FastifyInstance, {
+        loadAccessState: jest.fn(),
+        isSessionActive,
+      });
+      authenticate = (mockFastify.decorate as jest.Mock).mock.calls.find(
+        ([name]) => name === 'authenticate'
+      )[1];
+    });
+
+    it('should accept tokens of active sessions', async () => {
+      isSessionActive.mockResolvedValue(true);
+
+      await authenticate(createRequest('session-1'), reply);
+
+      expect(isSessionActive).toHaveBeenCalledWith('session-1');
+      expect(reply.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of revoked sessions before they expire', async () => {
+      isSessionActive.mockResolvedValue(false);
+
+      await authenticate(createRequest('session-1'), reply);
+
+      expect(reply.send).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    });
+
+    it('should reject tokens without a session', async () => {
+      await authenticate(createRequest(), reply);
+
+      expect(isSessionActive).not.toHaveBeenCalled();
+      expect(reply.send).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    });
+  });
+
+  describe('authorize', () => {
+    const loadAccessState = jest.fn();
+    const reply = { send: jest.fn() };
+    let authorize: (roles: string[]) => (...args: any[]) => Promise<void>;
+
+    const createRequest = () => ({
+      headers: { authorization: 'Bearer token' },
+      method: 'DELETE',
+      url: '/api/v1/users/user-2',
+      user: {
+        id: 'user-1',
+        email: 'test@example.com',
+        role: 'ADMIN',
+        sid: 'session-1',
+      },
+      jwtVerify: jest.fn(),
+    });
+
+    beforeEach(async () => {
+      loadAccessState.mockReset();
+      reply.send.mockReset();
+      await authMiddleware(mockFastify as FastifyInstance, {
+        loadAccessState,
+        isSessionActive: async () => true,
+      });
+      authorize = (mockFastify.decorate as jest.Mock).mock.calls.find(
+        ([name]) => name === 'authorize'
+      )[1];
+    });
+
+    it('should allow users whose current role is permitted', async () => {
+      const request = createRequest();
+      loadAccessState.mockResolvedValue({
+        id: 'user-1',
+        role: 'ADMIN',
+        isActive: true,
+      });
+
+      await authorize(['ADMIN'])(request, reply);
+
+      expect(loadAccessState).toHaveBeenCalledWith('user-1');
+      expect(reply.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject users demoted since the token was issued', async () => {
+      const request = createRequest();
+      loadAccessState.mockResolvedValue({
+        id: 'user-1',
+        role: 'USER',
+        isActive: true,
+      });
+
+      await authorize(['ADMIN'])(request, reply);
+
+      expect(reply.send).toHaveBeenCalledWith(expect.any(AuthorizationError));
+    });
+
+    it('should reject deactivated or deleted users', async () => {
+      loadAccessState
+        .mockResolvedValueOnce({ id: 'user-1', role: 'ADMIN', isActive: false })
+        .mockResolvedValueOnce(null);
+
+      await authorize(['ADMIN'])(createRequest(), reply);
+      await authorize(['ADMIN'])(createRequest(), reply);
+
+      expect(reply.send).toHaveBeenCalledTimes(2);
+      reply.send.mock.calls.forEach(([error]) => {
+        expect(error).toBeInstanceOf(AuthenticationError);
+      });
+    });
+  });
+
+  describe('can', () => {
+    const loadAccessState = jest.fn();
+    const loader = jest.fn();
+    const reply = { send: jest.fn() };
+    let can: (...args: any[]) => (...args: any[]) => Promise<void>;
+
+    const createRequest = () => ({
+      headers: { authorization: 'Bearer token' },
+      params: { id: 'user-2' },
+      user: {
+        id: 'user-1',
+        email: 'test@example.com',
+        role: 'USER',
+        sid: 'session-1',
+      },
+      jwtVerify: jest.fn(),
+    });
+
+    beforeEach(async () => {
+      loadAccessState.mockReset().mockResolvedValue({
+        id: 'user-1',
+        role: 'USER',
+        isActive: true,
+      });
+      loader.mockReset();
+      reply.send.mockReset();
+      await authMiddleware(mockFastify as FastifyInstance, {
+        loadAccessState,
+        isSessionActive: async () => true,
+      });
+      can = (mockFastify.decorate as jest.Mock).mock.calls.find(
+        ([name]) => name === 'can'
+      )[1];
+    });
+
+    it('should allow access granted by the policy', async () => {
+      const request = createRequest();
+      loader.mockResolvedValue({ id: 'user-1' });
+
+      await can('update', 'User', loader)(request, reply);
+
+      expect(loader).toHaveBeenCalledWith(request);
+      expect(reply.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject access denied by the policy', async () => {
+      loader.mockResolvedValue({ id: 'user-2' });
+
+      await can('update', 'User', loader)(createRequest(), reply);
+
+      expect(reply.send).toHaveBeenCalledWith(expect.any(AuthorizationError));
+    });
+
+    it('should report missing resources as not found', async () => {
+      loader.mockResolvedValue(null);
+
+      await can('update', 'User', loader)(createRequest(), reply);
+
+      expect(reply.send).toHaveBeenCalledWith(expect.any(EntityNotFoundError));
+    });
+  });
 });
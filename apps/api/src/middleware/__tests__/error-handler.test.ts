@@ -1,5 +1,12 @@
-import { FastifyInstance } from 'fastify';
-import { errorHandler } from '../error-handler';
+import Fastify, { FastifyInstance } from 'fastify';
+import { InvalidQueryError } from '@template/database';
+import { ErrorCode } from '@template/types';
+
+import {
+  ExternalServiceError,
+  ResourceNotAvailableError,
+} from '../../shared/infrastructure/errors';
+import { errorHandler, prefersProblemJson } from '../error-handler';
 
 describe('Error Handler Middleware', () => {
   let mockFastify: Partial<FastifyInstance>;
@@ -91,3 +98,137 @@ describe('Error Handler Middleware', () => {
     process.env.NODE_ENV = originalEnv;
   });
 });
+
+describe('Error Handler responses', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify();
+    await app.register(errorHandler);
+  });
+
+  afterEach(() => app.close());
+
+  const respond = async (error: Error) => {
+    app.get('/boom', async () => {
+      throw error;
+    });
+    const response = await app.inject({ method: 'GET', url: '/boom' });
+    return { status: response.statusCode, body: response.json() };
+  };
+
+  it('should apply to routes registered by sibling plugins', async () => {
+    // ルートは errorHandler とは別のプラグインで登録される
+    await app.register(
+      async routes => {
+        routes.get('/posts/:id', async () => {
+          throw new ResourceNotAvailableError('Post', 'p1', 'pending scan');
+        });
+      },
+      { prefix: '/api/v1' }
+    );
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/posts/p1',
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toMatchObject({
+      success: false,
+      error: { code: ErrorCode.RESOURCE_NOT_AVAILABLE },
+    });
+  });
+
+  it('should map errors by class rather than by status code', async () => {
+    const { status, body } = await respond(
+      new ResourceNotAvailableError('File', 'f1', 'pending scan')
+    );
+
+    expect(status).toBe(404);
+    expect(body.error).toMatchObject({
+      code: ErrorCode.RESOURCE_NOT_AVAILABLE,
+      details: { resource: 'File', reason: 'pending scan' },
+    });
+  });
+
+  it('should map Prisma errors by error code', async () => {
+    const error = Object.assign(new Error('Unique constraint failed'), {
+      name: 'PrismaClientKnownRequestError',
+      code: 'P2002',
+      meta: { target: ['email'] },
+    });
+
+    const { status, body } = await respond(error);
+
+    expect(status).toBe(409);
+    expect(body.error).toMatchObject({
+      code: ErrorCode.CONFLICT,
+      details: { fields: ['email'] },
+    });
+  });
+
+  it('should reject invalid query options as validation errors', async () => {
+    const { status, body } = await respond(
+      new InvalidQueryError('Invalid cursor', 'cursor')
+    );
+
+    expect(status).toBe(400);
+    expect(body.error).toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      details: [{ field: 'cursor', message: 'Invalid cursor' }],
+    });
+  });
+
+  it('should not leak infrastructure details', async () => {
+    const { status, body } = await respond(
+      new ExternalServiceError('s3', 'put', new Error('connect 10.0.0.5'))
+    );
+
+    expect(status).toBe(503);
+    expect(body.error.message).toBe('An external service is unavailable');
+  });
+});
+
+describe('Problem details negotiation', () => {
+  it.each([
+    ['application/problem+json', true],
+    ['application/json, application/problem+json', true],
+    ['application/problem+json;q=0.5, application/json', false],
+    ['application/json', false],
+    ['*/*', false],
+    [undefined, false],
+  ])('should prefer problem+json for %p: %p', (accept, expected) => {
+    expect(prefersProblemJson(accept)).toBe(expected);
+  });
+
+  it('should answer in RFC 9457 format when asked for it', async () => {
+    const app = Fastify();
+    await app.register(errorHandler);
+    app.get('/posts/:id', async () => {
+      throw new ResourceNotAvailableError('File', 'f1', 'pending scan');
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/posts/1',
+      headers: { accept: 'application/problem+json' },
+    });
+    await app.close();
+
+    expect(response.statusCode).toBe(404);
+    expect(response.headers['content-type']).toContain(
+      'application/problem+json'
+    );
+    expect(response.json()).toMatchObject({
+      type: 'urn:template:problem:resource-not-available',
+      title: 'Resource not available',
+      status: 404,
+      detail: 'File f1 is not available: pending scan',
+      instance: '/posts/1',
+      code: ErrorCode.RESOURCE_NOT_AVAILABLE,
+      traceId: expect.any(String),
+      details: { resource: 'File', reason: 'pending scan' },
+    });
+  });
+});
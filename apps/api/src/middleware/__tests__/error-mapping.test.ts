@@ -0,0 +1,139 @@
+import { ErrorCode } from '@template/types';
+
+import {
+  ApplicationError,
+  AuthorizationError,
+  BusinessRuleValidationError,
+  ConflictError,
+  DatabaseQueryError,
+  DomainError,
+  DuplicateEntityError,
+  EntityNotFoundError,
+  ExternalServiceError,
+  InvalidEntityStateError,
+  PreconditionFailedError,
+  QuotaExceededError,
+  RateLimitExceededError,
+  ResourceNotAvailableError,
+  UseCaseValidationError,
+} from '../../shared/infrastructure/errors';
+import { mapBaseError, mapPrismaError } from '../error-mapping';
+
+const prismaError = (code: string, meta?: Record<string, unknown>) =>
+  Object.assign(new Error('Invalid `prisma.user.create()` invocation'), {
+    name: 'PrismaClientKnownRequestError',
+    code,
+    meta,
+    clientVersion: '5.22.0',
+  }) as any;
+
+describe('Error mapping', () => {
+  describe('mapBaseError', () => {
+    it.each([
+      [new EntityNotFoundError('Post', 'p1'), ErrorCode.NOT_FOUND],
+      [new DuplicateEntityError('User', 'a@b.c'), ErrorCode.CONFLICT],
+      [
+        new InvalidEntityStateError('Post', 'DRAFT', 'PUBLISHED'),
+        ErrorCode.CONFLICT,
+      ],
+      [
+        new BusinessRuleValidationError('max-posts', 'User'),
+        ErrorCode.BUSINESS_RULE_VIOLATION,
+      ],
+      [new DomainError('Invalid'), ErrorCode.BUSINESS_RULE_VIOLATION],
+      [new AuthorizationError('Post', 'update'), ErrorCode.FORBIDDEN],
+      [
+        new ResourceNotAvailableError('File', 'f1', 'pending scan'),
+        ErrorCode.RESOURCE_NOT_AVAILABLE,
+      ],
+      [new QuotaExceededError(100, 90), ErrorCode.QUOTA_EXCEEDED],
+      [
+        new PreconditionFailedError('Stale entity tag'),
+        ErrorCode.PRECONDITION_FAILED,
+      ],
+      [new RateLimitExceededError(10, 1000), ErrorCode.RATE_LIMIT_EXCEEDED],
+      [new ApplicationError('Gone', 404), ErrorCode.NOT_FOUND],
+      [new ApplicationError('Bad input'), ErrorCode.INVALID_REQUEST],
+    ])('should map %p', (error, code) => {
+      expect(mapBaseError(error).code).toBe(code);
+    });
+
+    it('should only expose safe details', () => {
+      const error = new EntityNotFoundError('User', 'u1', {
+        email: 'secret@example.com',
+      });
+
+      expect(mapBaseError(error)).toEqual({
+        code: ErrorCode.NOT_FOUND,
+        message: 'User with identifier u1 not found',
+        details: { entity: 'User' },
+      });
+    });
+
+    it('should expose only what clients need to retry a conflict', () => {
+      const error = new ConflictError('Post has been modified', {
+        entity: 'Post',
+        id: 'p1',
+        currentVersion: 3,
+        authorId: 'u1',
+      });
+
+      const { details } = mapBaseError(error);
+      expect(details).toEqual({ entity: 'Post', currentVersion: 3 });
+      expect(details).not.toHaveProperty('id');
+      expect(details).not.toHaveProperty('authorId');
+    });
+
+    it('should list use case validation errors as details', () => {
+      const error = new UseCaseValidationError('ResumableUpload', [
+        'Chunk too large',
+      ]);
+
+      expect(mapBaseError(error).details).toEqual([
+        { message: 'Chunk too large' },
+      ]);
+    });
+
+    it('should hide the message of infrastructure errors', () => {
+      const database = mapBaseError(
+        new DatabaseQueryError('SELECT 1', new Error('connect 10.0.0.5:5432'))
+      );
+      const external = mapBaseError(
+        new ExternalServiceError('clamav', 'scan', new Error('ECONNREFUSED'))
+      );
+
+      expect(database).toEqual({
+        code: ErrorCode.DATABASE_ERROR,
+        message: 'A database error occurred',
+        details: undefined,
+      });
+      expect(external.code).toBe(ErrorCode.EXTERNAL_SERVICE_ERROR);
+      expect(external.message).not.toContain('ECONNREFUSED');
+    });
+  });
+
+  describe('mapPrismaError', () => {
+    it('should map unique constraint failures with the fields', () => {
+      expect(
+        mapPrismaError(prismaError('P2002', { target: ['email'] }))
+      ).toEqual({
+        code: ErrorCode.CONFLICT,
+        message: 'Resource already exists',
+        details: { fields: ['email'] },
+      });
+    });
+
+    it('should map foreign key failures and missing records', () => {
+      expect(mapPrismaError(prismaError('P2003'))?.code).toBe(
+        ErrorCode.CONFLICT
+      );
+      expect(mapPrismaError(prismaError('P2025'))?.code).toBe(
+        ErrorCode.NOT_FOUND
+      );
+    });
+
+    it('should leave other codes to the generic handler', () => {
+      expect(mapPrismaError(prismaError('P1001'))).toBeUndefined();
+    });
+  });
+});
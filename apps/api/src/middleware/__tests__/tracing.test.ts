@@ -0,0 +1,87 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+
+import { Tracing } from '../../lib/tracing';
+import { EntityNotFoundError } from '../../shared/infrastructure/errors';
+import { errorHandler } from '../error-handler';
+import { tracingMiddleware } from '../tracing';
+
+describe('Tracing Middleware', () => {
+  let exporter: InMemorySpanExporter;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    // closing the app shuts the tracing and its exporter down
+    exporter = new InMemorySpanExporter();
+    const tracing = new Tracing({
+      serviceName: 'template-api-test',
+      exporter,
+      exportImmediately: true,
+    });
+    const client = { $use: jest.fn() };
+    tracing.instrumentPrisma(client as any);
+    const [prismaMiddleware] = client.$use.mock.calls[0];
+    const query = () =>
+      prismaMiddleware({ model: 'Post', action: 'create' }, async () => ({}));
+
+    app = Fastify();
+    await app.register(tracingMiddleware, { tracing });
+    await app.register(errorHandler);
+    app.get('/posts/:id', async request => {
+      const { id } = request.params as { id: string };
+      throw new EntityNotFoundError('Post', id);
+    });
+    app.post('/posts', async () => query());
+  });
+
+  afterEach(() => app.close());
+
+  const serverSpan = () =>
+    exporter.getFinishedSpans().find(span => span.name.includes('/posts'))!;
+
+  it('should continue the trace from an incoming traceparent', async () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const parentId = '00f067aa0ba902b7';
+
+    await app.inject({
+      method: 'GET',
+      url: '/posts/1',
+      headers: { traceparent: `00-${traceId}-${parentId}-01` },
+    });
+
+    const span = serverSpan();
+    expect(span.name).toBe('GET /posts/:id');
+    expect(span.spanContext().traceId).toBe(traceId);
+    expect(span.parentSpanContext?.spanId).toBe(parentId);
+  });
+
+  it('should mark error spans with the error code and return the trace id', async () => {
+    const response = await app.inject({ method: 'GET', url: '/posts/1' });
+
+    const span = serverSpan();
+    expect(response.json().error.traceId).toBe(span.spanContext().traceId);
+    expect(span.attributes).toMatchObject({
+      'http.route': '/posts/:id',
+      'http.response.status_code': 404,
+      'error.type': 'NOT_FOUND',
+    });
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it('should nest queries under the request span after reading the body', async () => {
+    await app.inject({
+      method: 'POST',
+      url: '/posts',
+      payload: { title: 'Hello' },
+    });
+
+    const span = serverSpan();
+    const child = exporter
+      .getFinishedSpans()
+      .find(s => s.name === 'prisma:Post.create')!;
+    expect(child.spanContext().traceId).toBe(span.spanContext().traceId);
+    expect(child.parentSpanContext?.spanId).toBe(span.spanContext().spanId);
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+  });
+});
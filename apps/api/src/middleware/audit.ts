@@ -0,0 +1,41 @@
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { AuditContext, runWithAuditContext } from '@template/database';
+
+import { traceIdOf } from '../lib/tracing';
+import type { AuthenticatedUser } from '../services/auth.service';
+
+/**
+ * Audit context of a request
+ *
+ * The actor and trace id are read when an entry is written, since the user
+ * is only known once the route's authentication has run.
+ */
+export const auditContextOf = (request: FastifyRequest): AuditContext => ({
+  get actorId() {
+    return (request.user as AuthenticatedUser | undefined)?.id;
+  },
+  get traceId() {
+    return traceIdOf(request.span) ?? request.id;
+  },
+  ipAddress: request.ip,
+});
+
+/**
+ * Makes the request's actor, trace id and IP available to the audited
+ * repositories
+ */
+const auditMiddlewarePlugin: FastifyPluginAsync = async fastify => {
+  fastify.addHook('onRequest', (request, _reply, done) => {
+    runWithAuditContext(auditContextOf(request), done);
+  });
+
+  // ボディの読み込み後はソケットのコンテキストで再開されるので入り直す
+  fastify.addHook('preHandler', (request, _reply, done) => {
+    runWithAuditContext(auditContextOf(request), done);
+  });
+};
+
+export const auditMiddleware = fp(auditMiddlewarePlugin, {
+  name: 'audit-middleware',
+});
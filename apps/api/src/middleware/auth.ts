@@ -1,29 +1,100 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
+import type { User, UserAccessState, UserRole } from '@template/database';
 
-declare module 'fastify' {
-  interface FastifyInstance {
-    authenticate: (
-      request: FastifyRequest,
-      reply: FastifyReply
-    ) => Promise<void>;
-    optionalAuth: (
-      request: FastifyRequest,
-      reply: FastifyReply
-    ) => Promise<void>;
-    authorize: (
-      roles: string[]
-    ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+import type { IdTokenVerifier, VerifiedIdentity } from '../lib/firebase-auth';
+import {
+  assertCan,
+  PolicyAction,
+  PolicyResources,
+  PolicySubject,
+} from '../lib/policies';
+import type {
+  AccessTokenPayload,
+  AuthenticatedUser,
+} from '../services/auth.service';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  EntityNotFoundError,
+} from '../shared/infrastructure/errors';
+
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    payload: AccessTokenPayload;
+    user: AuthenticatedUser;
   }
 }
 
-const authMiddlewarePlugin: FastifyPluginAsync = async fastify => {
+/**
+ * Load the resource a policy is evaluated against, or null if it does not exist
+ */
+export type ResourceLoader<S extends PolicySubject> = (
+  request: FastifyRequest
+) => Promise<PolicyResources[S] | null>;
+
+export interface AuthMiddlewareOptions {
+  /**
+   * Load the current role and active status of a user, so that `authorize`
+   * does not trust claims in a token that may predate a demotion
+   */
+  loadAccessState: (userId: string) => Promise<UserAccessState | null>;
+  /**
+   * Whether the session an access token was issued for is still active, so
+   * that signing out or revoking a device takes effect before the token
+   * expires
+   */
+  isSessionActive: (sessionId: string) => Promise<boolean>;
+  /**
+   * Accept ID tokens from an external identity provider (e.g. Firebase)
+   * alongside our own JWTs
+   */
+  externalAuth?: {
+    verifier: IdTokenVerifier;
+    /**
+     * Map a verified identity to a local user
+     */
+    resolveUser: (identity: VerifiedIdentity) => Promise<User>;
+  };
+}
+
+const getBearerToken = (request: FastifyRequest): string | undefined => {
+  const [scheme, token] = (request.headers.authorization || '').split(' ');
+  return scheme === 'Bearer' && token ? token : undefined;
+};
+
+const authMiddlewarePlugin: FastifyPluginAsync<AuthMiddlewareOptions> = async (
+  fastify,
+  options
+) => {
+  const { externalAuth, loadAccessState, isSessionActive } = options;
+
+  // 外部IDトークンは発行元で判別し、それ以外は自前のJWTとして検証する
+  const verifyRequest = async (request: FastifyRequest) => {
+    const token = getBearerToken(request);
+
+    if (externalAuth && token && externalAuth.verifier.canVerify(token)) {
+      const identity = await externalAuth.verifier.verify(token);
+      const user = await externalAuth.resolveUser(identity);
+      request.user = { id: user.id, email: user.email, role: user.role };
+      return;
+    }
+
+    await request.jwtVerify();
+
+    // 失効したセッションのアクセストークンは有効期限内でも受け付けない
+    const { sid } = request.user;
+    if (!sid || !(await isSessionActive(sid))) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+  };
+
   // 認証デコレータを追加
   fastify.decorate(
     'authenticate',
     async function (request: FastifyRequest, reply: FastifyReply) {
       try {
-        await request.jwtVerify();
+        await verifyRequest(request);
       } catch (err) {
         reply.send(err);
       }
@@ -37,7 +108,7 @@ const authMiddlewarePlugin: FastifyPluginAsync = async fastify => {
       try {
         const authorization = request.headers.authorization;
         if (authorization) {
-          await request.jwtVerify();
+          await verifyRequest(request);
         }
       } catch (err) {
         // オプショナル認証の場合は認証エラーを無視
@@ -46,23 +117,48 @@ const authMiddlewarePlugin: FastifyPluginAsync = async fastify => {
     }
   );
 
+  // トークンを検証し、ロールと有効状態をDBから再確認する
+  const verifyAccess = async (request: FastifyRequest) => {
+    await verifyRequest(request);
+
+    const state = await loadAccessState(request.user.id);
+    if (!state || !state.isActive) {
+      throw new AuthenticationError('Account is disabled');
+    }
+
+    request.user.role = state.role;
+  };
+
   // ロールベースの認可
-  fastify.decorate('authorize', function (allowedRoles: string[]) {
+  fastify.decorate('authorize', function (allowedRoles: readonly UserRole[]) {
+    return async function (request: FastifyRequest, reply: FastifyReply) {
+      try {
+        await verifyAccess(request);
+
+        if (!allowedRoles.includes(request.user.role)) {
+          throw new AuthorizationError(request.url, request.method);
+        }
+      } catch (err) {
+        reply.send(err);
+      }
+    };
+  });
+
+  // リソース単位の認可（ポリシーは lib/policies に集約）
+  fastify.decorate('can', function <
+    S extends PolicySubject,
+  >(action: PolicyAction, subject: S, loader: ResourceLoader<S>) {
     return async function (request: FastifyRequest, reply: FastifyReply) {
       try {
-        await request.jwtVerify();
-
-        const user = request.user as any;
-        const userRole = user?.role;
-        if (!userRole || !allowedRoles.includes(userRole)) {
-          return reply.status(403).send({
-            success: false,
-            error: {
-              code: 'FORBIDDEN',
-              message: '権限が不足しています',
-            },
-          });
+        await verifyAccess(request);
+
+        const resource = await loader(request);
+        if (!resource) {
+          const { id } = request.params as { id?: string };
+          throw new EntityNotFoundError(subject, id ?? 'unknown');
         }
+
+        assertCan(request.user, action, subject, resource);
       } catch (err) {
         reply.send(err);
       }
@@ -1,4 +1,5 @@
 import { FastifyPluginAsync, FastifyError } from 'fastify';
+import fp from 'fastify-plugin';
 import { ZodError } from 'zod';
 import {
   ApiErrorResponse,
@@ -6,14 +7,54 @@ import {
   createErrorResponse,
   getStatusCodeFromErrorCode,
   ErrorDetail,
+  PROBLEM_JSON_MEDIA_TYPE,
+  toProblemDetails,
 } from '@template/types';
+import {
+  InvalidQueryError,
+  isPrismaKnownRequestError,
+} from '@template/database';
+
+import { traceIdOf } from '../lib/tracing';
+import { BaseError } from '../shared/infrastructure/errors';
+import { mapBaseError, mapPrismaError } from './error-mapping';
+
+/**
+ * Whether the Accept header prefers RFC 9457 problem details over our JSON
+ * error envelope
+ */
+export function prefersProblemJson(accept: string | undefined): boolean {
+  if (!accept) return false;
+
+  const quality = new Map<string, number>();
+  for (const range of accept.split(',')) {
+    const [type, ...params] = range.trim().toLowerCase().split(';');
+    const q = params.find(param => param.trim().startsWith('q='));
+    quality.set(type.trim(), q ? parseFloat(q.trim().slice(2)) : 1);
+  }
 
-export const errorHandler: FastifyPluginAsync = async fastify => {
+  const problem = quality.get(PROBLEM_JSON_MEDIA_TYPE) ?? 0;
+  return problem > 0 && problem >= (quality.get('application/json') ?? 0);
+}
+
+const errorHandlerPlugin: FastifyPluginAsync = async fastify => {
   fastify.setErrorHandler(async (error: FastifyError, request, reply) => {
     const { log } = request;
-    const traceId = request.id;
+    // トレースされていればスパンの traceId を返し、ログと突き合わせられるようにする
+    const traceId = traceIdOf(request.span) ?? request.id;
     const path = request.url;
 
+    const problemJson = prefersProblemJson(request.headers.accept);
+    const send = (statusCode: number, errorResponse: ApiErrorResponse) => {
+      reply.status(statusCode);
+      if (!problemJson) {
+        return reply.send(errorResponse);
+      }
+      return reply
+        .type(PROBLEM_JSON_MEDIA_TYPE)
+        .send(toProblemDetails(errorResponse, statusCode));
+    };
+
     // Zod validation errors
     if (error instanceof ZodError) {
       log.warn({ error: error.errors, traceId }, 'Validation error');
@@ -33,9 +74,10 @@ export const errorHandler: FastifyPluginAsync = async fastify => {
         path,
       });
 
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.VALIDATION_ERROR))
-        .send(errorResponse);
+      return send(
+        getStatusCodeFromErrorCode(ErrorCode.VALIDATION_ERROR),
+        errorResponse
+      );
     }
 
     // Fastify validation errors
@@ -60,9 +102,28 @@ export const errorHandler: FastifyPluginAsync = async fastify => {
         path,
       });
 
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.VALIDATION_ERROR))
-        .send(errorResponse);
+      return send(
+        getStatusCodeFromErrorCode(ErrorCode.VALIDATION_ERROR),
+        errorResponse
+      );
+    }
+
+    // Query options the database layer rejected (malformed cursor, ...)
+    if (error instanceof InvalidQueryError) {
+      log.warn({ field: error.field, traceId }, error.message);
+
+      const errorResponse = createErrorResponse({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: error.message,
+        details: [{ field: error.field, message: error.message }],
+        traceId,
+        path,
+      });
+
+      return send(
+        getStatusCodeFromErrorCode(ErrorCode.VALIDATION_ERROR),
+        errorResponse
+      );
     }
 
     // JWT errors
@@ -76,9 +137,10 @@ export const errorHandler: FastifyPluginAsync = async fastify => {
         path,
       });
 
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.TOKEN_EXPIRED))
-        .send(errorResponse);
+      return send(
+        getStatusCodeFromErrorCode(ErrorCode.TOKEN_EXPIRED),
+        errorResponse
+      );
     }
 
     if (error.code === 'FST_JWT_BAD_REQUEST') {
@@ -91,9 +153,32 @@ export const errorHandler: FastifyPluginAsync = async fastify => {
         path,
       });
 
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.INVALID_TOKEN))
-        .send(errorResponse);
+      return send(
+        getStatusCodeFromErrorCode(ErrorCode.INVALID_TOKEN),
+        errorResponse
+      );
+    }
+
+    // Application errors (shared/infrastructure/errors)
+    if (error instanceof BaseError) {
+      const { code, message, details } = mapBaseError(error);
+      const statusCode = getStatusCodeFromErrorCode(code);
+
+      if (statusCode >= 500) {
+        log.error({ error, traceId }, error.name);
+      } else {
+        log.warn({ error: error.context, traceId }, error.name);
+      }
+
+      const errorResponse = createErrorResponse({
+        code,
+        message,
+        details,
+        traceId,
+        path,
+      });
+
+      return send(statusCode, errorResponse);
     }
 
     // Rate limit errors
@@ -107,9 +192,10 @@ export const errorHandler: FastifyPluginAsync = async fastify => {
         path,
       });
 
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.RATE_LIMIT_EXCEEDED))
-        .send(errorResponse);
+      return send(
+        getStatusCodeFromErrorCode(ErrorCode.RATE_LIMIT_EXCEEDED),
+        errorResponse
+      );
     }
 
     // Not found errors
@@ -123,40 +209,26 @@ export const errorHandler: FastifyPluginAsync = async fastify => {
         path,
       });
 
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.NOT_FOUND))
-        .send(errorResponse);
+      return send(
+        getStatusCodeFromErrorCode(ErrorCode.NOT_FOUND),
+        errorResponse
+      );
     }
 
     // Database errors (Prisma)
-    if (error.message.includes('Unique constraint')) {
-      log.warn({ error, traceId }, 'Database unique constraint violation');
+    const prismaError = isPrismaKnownRequestError(error)
+      ? mapPrismaError(error)
+      : undefined;
+    if (prismaError) {
+      log.warn({ error, traceId }, `Database error ${error.code}`);
 
       const errorResponse = createErrorResponse({
-        code: ErrorCode.CONFLICT,
-        message: 'Resource already exists',
+        ...prismaError,
         traceId,
         path,
       });
 
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.CONFLICT))
-        .send(errorResponse);
-    }
-
-    if (error.message.includes('Record to update not found')) {
-      log.warn({ error, traceId }, 'Database record not found');
-
-      const errorResponse = createErrorResponse({
-        code: ErrorCode.NOT_FOUND,
-        message: 'Resource not found',
-        traceId,
-        path,
-      });
-
-      return reply
-        .status(getStatusCodeFromErrorCode(ErrorCode.NOT_FOUND))
-        .send(errorResponse);
+      return send(getStatusCodeFromErrorCode(prismaError.code), errorResponse);
     }
 
     // Log unexpected errors
@@ -176,6 +248,11 @@ export const errorHandler: FastifyPluginAsync = async fastify => {
       path,
     });
 
-    return reply.status(statusCode).send(errorResponse);
+    return send(statusCode, errorResponse);
   });
 };
+
+// fp でカプセル化を外し、後から登録するルートにも適用する
+export const errorHandler = fp(errorHandlerPlugin, {
+  name: 'error-handler',
+});
@@ -0,0 +1,250 @@
+import { ErrorCode, ErrorDetail } from '@template/types';
+import { PrismaErrorCode, type Prisma } from '@template/database';
+
+import {
+  ApplicationError,
+  AuthenticationError,
+  AuthorizationError,
+  BaseError,
+  BusinessRuleValidationError,
+  ConfigurationError,
+  ConflictError,
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  DomainError,
+  DuplicateEntityError,
+  EntityNotFoundError,
+  ExternalServiceError,
+  FileSystemError,
+  InfrastructureError,
+  InvalidEntityStateError,
+  PreconditionFailedError,
+  QuotaExceededError,
+  RateLimitExceededError,
+  ResourceNotAvailableError,
+  UseCaseValidationError,
+} from '../shared/infrastructure/errors';
+
+/**
+ * What the client sees for an error
+ */
+export interface MappedError {
+  code: ErrorCode;
+  message: string;
+  details?: ErrorDetail[] | Record<string, unknown>;
+}
+
+interface ErrorMapping<E extends BaseError> {
+  type: abstract new (...args: never[]) => E;
+  code: ErrorCode | ((error: E) => ErrorCode);
+  /**
+   * Replaces the error message, for errors whose message may leak internals
+   * (hosts, paths, queries)
+   */
+  message?: string;
+  /**
+   * Pick what is safe to show from the error context
+   */
+  details?: (error: E) => ErrorDetail[] | Record<string, unknown> | undefined;
+}
+
+const mapping = <E extends BaseError>(m: ErrorMapping<E>) => m;
+
+/**
+ * Error code for a generic error from its HTTP status
+ */
+function codeForStatus(statusCode: number): ErrorCode {
+  switch (statusCode) {
+    case 401:
+      return ErrorCode.UNAUTHORIZED;
+    case 403:
+      return ErrorCode.FORBIDDEN;
+    case 404:
+      return ErrorCode.NOT_FOUND;
+    case 409:
+      return ErrorCode.CONFLICT;
+    case 412:
+      return ErrorCode.PRECONDITION_FAILED;
+    case 429:
+      return ErrorCode.RATE_LIMIT_EXCEEDED;
+    case 503:
+      return ErrorCode.SERVICE_UNAVAILABLE;
+  }
+  return statusCode < 500
+    ? ErrorCode.INVALID_REQUEST
+    : ErrorCode.INTERNAL_ERROR;
+}
+
+// サブクラスを基底クラスより先に並べる（先に一致したものを使う）
+const BASE_ERROR_MAPPINGS = [
+  // Domain errors
+  mapping({
+    type: BusinessRuleValidationError,
+    code: ErrorCode.BUSINESS_RULE_VIOLATION,
+    details: e => ({ rule: e.context?.rule, entity: e.context?.entity }),
+  }),
+  mapping({
+    type: EntityNotFoundError,
+    code: ErrorCode.NOT_FOUND,
+    details: e => ({ entity: e.context?.entityName }),
+  }),
+  mapping({
+    type: InvalidEntityStateError,
+    code: ErrorCode.CONFLICT,
+    details: e => ({
+      currentState: e.context?.currentState,
+      expectedState: e.context?.expectedState,
+    }),
+  }),
+  mapping({
+    type: DuplicateEntityError,
+    code: ErrorCode.CONFLICT,
+    details: e => ({ entity: e.context?.entityName }),
+  }),
+  mapping({ type: DomainError, code: ErrorCode.BUSINESS_RULE_VIOLATION }),
+
+  // Application errors
+  mapping({
+    type: UseCaseValidationError,
+    code: ErrorCode.VALIDATION_ERROR,
+    details: e =>
+      ((e.context?.validationErrors ?? []) as string[]).map(message => ({
+        message,
+      })),
+  }),
+  mapping({ type: AuthenticationError, code: ErrorCode.UNAUTHORIZED }),
+  mapping({
+    type: AuthorizationError,
+    code: ErrorCode.FORBIDDEN,
+    details: e => ({
+      action: e.context?.action,
+      resource: e.context?.resource,
+    }),
+  }),
+  mapping({
+    type: ConflictError,
+    code: ErrorCode.CONFLICT,
+    // 再試行に必要な値だけを返す（バージョン競合と再開可能アップロード）
+    details: e => ({
+      entity: e.context?.entity,
+      currentVersion: e.context?.currentVersion,
+      expectedOffset: e.context?.expectedOffset,
+    }),
+  }),
+  mapping({
+    type: PreconditionFailedError,
+    code: ErrorCode.PRECONDITION_FAILED,
+    details: e => ({ currentVersion: e.context?.currentVersion }),
+  }),
+  mapping({
+    type: ResourceNotAvailableError,
+    code: ErrorCode.RESOURCE_NOT_AVAILABLE,
+    details: e => ({
+      resource: e.context?.resource,
+      reason: e.context?.reason,
+    }),
+  }),
+  mapping({
+    type: QuotaExceededError,
+    code: ErrorCode.QUOTA_EXCEEDED,
+    details: e => ({
+      quotaBytes: e.context?.quotaBytes,
+      usedBytes: e.context?.usedBytes,
+    }),
+  }),
+  mapping({
+    type: RateLimitExceededError,
+    code: ErrorCode.RATE_LIMIT_EXCEEDED,
+    details: e => ({ limit: e.context?.limit, windowMs: e.context?.windowMs }),
+  }),
+  mapping({
+    type: ApplicationError,
+    code: e => codeForStatus(e.statusCode),
+  }),
+
+  // Infrastructure errors
+  mapping({
+    type: DatabaseConnectionError,
+    code: ErrorCode.DATABASE_ERROR,
+    message: 'A database error occurred',
+  }),
+  mapping({
+    type: DatabaseQueryError,
+    code: ErrorCode.DATABASE_ERROR,
+    message: 'A database error occurred',
+  }),
+  mapping({
+    type: ExternalServiceError,
+    code: ErrorCode.EXTERNAL_SERVICE_ERROR,
+    message: 'An external service is unavailable',
+  }),
+  mapping({
+    type: FileSystemError,
+    code: ErrorCode.INTERNAL_ERROR,
+    message: 'An internal server error occurred',
+  }),
+  mapping({
+    type: ConfigurationError,
+    code: ErrorCode.INTERNAL_ERROR,
+    message: 'An internal server error occurred',
+  }),
+  mapping({
+    type: InfrastructureError,
+    code: e => codeForStatus(e.statusCode),
+    message: 'An internal server error occurred',
+  }),
+];
+
+/**
+ * Map an error from shared/infrastructure/errors to what the client sees
+ */
+export function mapBaseError(error: BaseError): MappedError {
+  const entry = BASE_ERROR_MAPPINGS.find(m => error instanceof m.type) as
+    | ErrorMapping<BaseError>
+    | undefined;
+
+  if (!entry) {
+    return {
+      code: codeForStatus(error.statusCode),
+      message:
+        error.statusCode < 500
+          ? error.message
+          : 'An internal server error occurred',
+    };
+  }
+
+  return {
+    code: typeof entry.code === 'function' ? entry.code(error) : entry.code,
+    message: entry.message ?? error.message,
+    details: entry.details?.(error),
+  };
+}
+
+/**
+ * Map a Prisma known request error by its error code
+ *
+ * Returns undefined for codes that are not the client's fault.
+ */
+export function mapPrismaError(
+  error: Prisma.PrismaClientKnownRequestError
+): MappedError | undefined {
+  switch (error.code) {
+    case PrismaErrorCode.UNIQUE_CONSTRAINT_FAILED:
+      return {
+        code: ErrorCode.CONFLICT,
+        message: 'Resource already exists',
+        details: { fields: error.meta?.target },
+      };
+    case PrismaErrorCode.FOREIGN_KEY_CONSTRAINT_FAILED:
+      return {
+        code: ErrorCode.CONFLICT,
+        message: 'Resource is referenced by or references a missing resource',
+      };
+    case PrismaErrorCode.RECORD_NOT_FOUND:
+      return {
+        code: ErrorCode.NOT_FOUND,
+        message: 'Resource not found',
+      };
+  }
+  return undefined;
+}
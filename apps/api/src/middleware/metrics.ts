@@ -0,0 +1,33 @@
+import { FastifyPluginAsync } from 'fastify';
+import fp from 'fastify-plugin';
+import { readErrorResponse } from '@template/types';
+
+import type { ApiMetrics } from '../lib/metrics';
+
+export interface MetricsMiddlewareOptions {
+  metrics: ApiMetrics;
+}
+
+const metricsMiddlewarePlugin: FastifyPluginAsync<
+  MetricsMiddlewareOptions
+> = async (fastify, { metrics }) => {
+  fastify.decorate('metrics', metrics);
+
+  // errorHandler が返すエラーレスポンスからエラーコードを数える
+  fastify.addHook('preSerialization', async (_request, reply, payload) => {
+    const errorResponse =
+      reply.statusCode >= 400 ? readErrorResponse(payload) : undefined;
+    if (errorResponse) {
+      metrics.recordError(errorResponse.error.code);
+    }
+    return payload;
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    metrics.recordRequest(request, reply);
+  });
+};
+
+export const metricsMiddleware = fp(metricsMiddlewarePlugin, {
+  name: 'metrics-middleware',
+});
@@ -0,0 +1,75 @@
+import { FastifyPluginAsync } from 'fastify';
+import fp from 'fastify-plugin';
+import { context, trace } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+} from '@opentelemetry/semantic-conventions';
+import { readErrorResponse } from '@template/types';
+
+import { routeLabel } from '../lib/metrics';
+import { Tracing, markSpanError } from '../lib/tracing';
+
+export interface TracingMiddlewareOptions {
+  tracing: Tracing;
+}
+
+const tracingMiddlewarePlugin: FastifyPluginAsync<
+  TracingMiddlewareOptions
+> = async (fastify, { tracing }) => {
+  fastify.decorateRequest('span', null);
+
+  // リクエストごとのスパンを作り、以降のフックとハンドラで有効にする
+  fastify.addHook('onRequest', (request, _reply, done) => {
+    const route = routeLabel(request);
+    const span = tracing.startServerSpan(
+      `${request.method} ${route}`,
+      request.headers,
+      {
+        [ATTR_HTTP_REQUEST_METHOD]: request.method,
+        [ATTR_HTTP_ROUTE]: route,
+        [ATTR_URL_PATH]: request.url.split('?')[0],
+      }
+    );
+    request.span = span;
+
+    context.with(trace.setSpan(context.active(), span), done);
+  });
+
+  // ボディの読み込み後はソケットのコンテキストで再開されるので入り直す
+  fastify.addHook('preHandler', (request, _reply, done) => {
+    if (!request.span) return done();
+    context.with(trace.setSpan(context.active(), request.span), done);
+  });
+
+  fastify.addHook('onError', async (request, _reply, error) => {
+    request.span?.recordException(error);
+  });
+
+  // errorHandler が返すエラーコードをスパンに残す
+  fastify.addHook('preSerialization', async (request, reply, payload) => {
+    const errorResponse =
+      reply.statusCode >= 400 ? readErrorResponse(payload) : undefined;
+    if (request.span && errorResponse) {
+      const { code, message } = errorResponse.error;
+      markSpanError(request.span, code, message);
+    }
+    return payload;
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    request.span?.setAttribute(
+      ATTR_HTTP_RESPONSE_STATUS_CODE,
+      reply.statusCode
+    );
+    request.span?.end();
+  });
+
+  fastify.addHook('onClose', async () => tracing.shutdown());
+};
+
+export const tracingMiddleware = fp(tracingMiddlewarePlugin, {
+  name: 'tracing-middleware',
+});
@@ -1,5 +1,7 @@
 import { FastifyInstance } from 'fastify';
-import healthRoutes from '../health';
+import { HealthCheckRegistry } from '../../lib/health';
+import { HealthStatus } from '../../shared/types';
+import healthRoutes, { healthProbeRoutes } from '../health';
 
 describe('Health Routes', () => {
   let mockFastify: Partial<FastifyInstance>;
@@ -30,6 +32,7 @@ describe('Health Routes', () => {
     // Should register both /health and /today routes
     expect(mockFastify.get).toHaveBeenCalledWith(
       '/health',
+      expect.any(Object),
       expect.any(Function)
     );
     expect(mockFastify.get).toHaveBeenCalledWith(
@@ -38,6 +41,24 @@ describe('Health Routes', () => {
     );
   });
 
+  it('should answer /health like the liveness probe', async () => {
+    const reply = { header: jest.fn().mockReturnThis() };
+    await healthRoutes(mockFastify as FastifyInstance);
+    const [, , handler] = (mockFastify.get as jest.Mock).mock.calls.find(
+      ([path]) => path === '/health'
+    );
+
+    const body = await handler({}, reply);
+
+    expect(body).toEqual({
+      status: HealthStatus.HEALTHY,
+      version: expect.any(String),
+      timestamp: expect.any(String),
+      uptime: expect.any(Number),
+    });
+    expect(reply.header).toHaveBeenCalledWith('Cache-Control', 'no-store');
+  });
+
   it('should have proper health check response structure', () => {
     const healthResponse = {
       status: 'ok',
@@ -77,3 +98,73 @@ describe('Health Routes', () => {
     expect(seconds).toBe(1);
   });
 });
+
+describe('Health probe routes', () => {
+  const handlers = new Map<string, (...args: unknown[]) => Promise<unknown>>();
+  const reply = {
+    status: jest.fn().mockReturnThis(),
+    header: jest.fn().mockReturnThis(),
+    send: jest.fn(body => body),
+  };
+  let healthChecks: HealthCheckRegistry;
+
+  beforeEach(async () => {
+    handlers.clear();
+    jest.clearAllMocks();
+    healthChecks = new HealthCheckRegistry(50);
+
+    const mockFastify = {
+      get: jest.fn((path, _options, handler) => handlers.set(path, handler)),
+      healthChecks,
+      log: { warn: jest.fn() },
+    };
+    await healthProbeRoutes(mockFastify as unknown as FastifyInstance, {});
+  });
+
+  it('should register live and ready probes', () => {
+    expect([...handlers.keys()]).toEqual([
+      '/health',
+      '/health/live',
+      '/health/ready',
+    ]);
+  });
+
+  it('should report liveness without running dependency checks', async () => {
+    const check = jest.fn();
+    healthChecks.register({ name: 'database', check });
+
+    const body = await handlers.get('/health/live')!({}, reply);
+
+    expect(body).toMatchObject({ status: HealthStatus.HEALTHY });
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it('should answer 503 when a critical dependency is down', async () => {
+    healthChecks.register({
+      name: 'database',
+      check: () => Promise.reject(new Error('ECONNREFUSED')),
+    });
+
+    const body = await handlers.get('/health/ready')!({}, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(503);
+    expect(body).toMatchObject({
+      status: HealthStatus.UNHEALTHY,
+      checks: { database: { error: 'ECONNREFUSED' } },
+    });
+  });
+
+  it('should stay ready when only optional dependencies are down', async () => {
+    healthChecks.register({ name: 'database', check: async () => 1 });
+    healthChecks.register({
+      name: 'scanner',
+      check: () => Promise.reject(new Error('timeout')),
+      critical: false,
+    });
+
+    const body = await handlers.get('/health/ready')!({}, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(200);
+    expect(body).toMatchObject({ status: HealthStatus.DEGRADED });
+  });
+});
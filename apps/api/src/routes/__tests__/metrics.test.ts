@@ -0,0 +1,58 @@
+import { FastifyInstance } from 'fastify';
+
+import { ApiMetrics } from '../../lib/metrics';
+import { AuthenticationError } from '../../shared/infrastructure/errors';
+import { metricsRoutes } from '../metrics';
+
+describe('Metrics routes', () => {
+  const reply = {
+    header: jest.fn().mockReturnThis(),
+    type: jest.fn().mockReturnThis(),
+  };
+  const metrics = new ApiMetrics({ collectDefaults: false });
+
+  const register = async (token?: string) => {
+    let handler: (...args: unknown[]) => Promise<unknown> = async () => {};
+    const mockFastify = {
+      get: jest.fn((_path, _options, h) => (handler = h)),
+    };
+    await metricsRoutes(mockFastify as unknown as FastifyInstance, {
+      metrics,
+      token,
+    });
+
+    expect(mockFastify.get).toHaveBeenCalledWith(
+      '/metrics',
+      { config: { rateLimit: false } },
+      expect.any(Function)
+    );
+    return handler;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should expose the registry in the Prometheus format', async () => {
+    const handler = await register();
+
+    const body = await handler({ headers: {} }, reply);
+
+    expect(body).toContain('http_requests_total');
+    expect(reply.type).toHaveBeenCalledWith(metrics.registry.contentType);
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    const handler = await register('scrape-token');
+
+    await expect(
+      handler({ headers: { authorization: 'Bearer wrong' } }, reply)
+    ).rejects.toThrow(AuthenticationError);
+    await expect(handler({ headers: {} }, reply)).rejects.toThrow(
+      AuthenticationError
+    );
+    await expect(
+      handler({ headers: { authorization: 'Bearer scrape-token' } }, reply)
+    ).resolves.toContain('api_errors_total');
+  });
+});
@@ -0,0 +1,29 @@
+import { FastifyPluginAsync } from 'fastify';
+import { createSuccessResponse, UserRole } from '@template/types';
+import { auditLogQuerySchema } from '@template/utils';
+
+import { auditLogRepository } from '../lib/database';
+import { AuditService } from '../services/audit.service';
+
+export const adminRoutes: FastifyPluginAsync = async fastify => {
+  const auditService = new AuditService({ auditLogRepository });
+
+  // List audit log entries
+  fastify.get(
+    '/audit',
+    {
+      preHandler: fastify.authorize([UserRole.ADMIN]),
+    },
+    async request => {
+      const { page, limit, from, to, ...filter } = auditLogQuerySchema.parse(
+        request.query
+      );
+      const result = await auditService.list(
+        { ...filter, createdAt: from || to ? { from, to } : undefined },
+        { page, limit }
+      );
+
+      return createSuccessResponse(result.data, { meta: result.meta });
+    }
+  );
+};
@@ -1,37 +1,63 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { createSuccessResponse } from '@template/types';
+import { loginSchema, refreshTokenSchema } from '@template/utils';
+
+import {
+  refreshTokenRepository,
+  sessionRepository,
+  userRepository,
+} from '../lib/database';
+import { AuthService, ClientContext } from '../services/auth.service';
+import { SessionService } from '../services/session.service';
+import { getAppConfig } from '../shared/infrastructure/config';
+
+const getClientContext = (request: FastifyRequest): ClientContext => ({
+  ipAddress: request.ip,
+  userAgent: request.headers['user-agent'],
+});
 
 export const authRoutes: FastifyPluginAsync = async fastify => {
+  const { auth } = getAppConfig();
+
+  const authService = new AuthService({
+    userRepository,
+    refreshTokenRepository,
+    sessionRepository,
+    signAccessToken: (payload, options) => fastify.jwt.sign(payload, options),
+    accessTokenExpiresIn: auth.jwtExpiresIn,
+    refreshTokenExpiresIn: auth.refreshTokenExpiresIn,
+  });
+  const sessionService = new SessionService({ sessionRepository });
+
   // Login endpoint
-  fastify.post('/login', async (request, reply) => {
-    return {
-      success: true,
-      data: {
-        message: 'Hello from Auth Login!',
-        timestamp: new Date().toISOString(),
-      },
-    };
+  fastify.post('/login', async request => {
+    const { email, password } = loginSchema.parse(request.body);
+    const { user, tokens } = await authService.login(
+      email,
+      password,
+      getClientContext(request)
+    );
+
+    return createSuccessResponse({ user, ...tokens });
   });
 
   // Logout endpoint
-  fastify.post('/logout', async (request, reply) => {
-    return {
-      success: true,
-      data: {
-        message: 'Hello from Auth Logout!',
-        timestamp: new Date().toISOString(),
-      },
-    };
+  fastify.post('/logout', async request => {
+    const { refreshToken } = refreshTokenSchema.parse(request.body);
+    await authService.logout(refreshToken);
+
+    return createSuccessResponse(null, { message: 'Logged out' });
   });
 
   // Token refresh endpoint
-  fastify.post('/refresh', async (request, reply) => {
-    return {
-      success: true,
-      data: {
-        message: 'Hello from Auth Refresh!',
-        timestamp: new Date().toISOString(),
-      },
-    };
+  fastify.post('/refresh', async request => {
+    const { refreshToken } = refreshTokenSchema.parse(request.body);
+    const tokens = await authService.refresh(
+      refreshToken,
+      getClientContext(request)
+    );
+
+    return createSuccessResponse(tokens);
   });
 
   // Current user endpoint
@@ -51,4 +77,46 @@ export const authRoutes: FastifyPluginAsync = async fastify => {
       };
     }
   );
+
+  // List active sessions (signed-in devices)
+  fastify.get(
+    '/sessions',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async request => {
+      const { id, sid } = request.user;
+      const sessions = await sessionService.listActive(id, sid);
+
+      return createSuccessResponse(sessions);
+    }
+  );
+
+  // Revoke every session except the current one
+  fastify.delete(
+    '/sessions',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async request => {
+      const { id, sid } = request.user;
+      const revoked = await sessionService.revokeOthers(id, sid);
+
+      return createSuccessResponse({ revoked });
+    }
+  );
+
+  // Revoke a single session
+  fastify.delete(
+    '/sessions/:id',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async request => {
+      const { id } = request.params as { id: string };
+      await sessionService.revoke(request.user.id, id);
+
+      return createSuccessResponse(null, { message: 'Session revoked' });
+    }
+  );
 };
@@ -1,20 +1,189 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { createSuccessResponse } from '@template/types';
+import {
+  completeUploadSessionSchema,
+  createUploadSessionSchema,
+  finalizeSignedUploadSchema,
+  signedUploadSchema,
+} from '@template/utils';
+
+import {
+  auditLogRepository,
+  consumedUploadTokenRepository,
+  fileRepository,
+  uploadSessionRepository,
+} from '../lib/database';
+import { scheduleJob } from '../lib/jobs';
+import { createFileScanner } from '../lib/scanner';
+import { createStorageDriver } from '../lib/storage';
+import { UploadTokenSigner } from '../lib/upload-token';
+import { FileScanService } from '../services/file-scan.service';
+import {
+  FileService,
+  UPLOAD_TOKEN_HEADER,
+  contentDisposition,
+} from '../services/file.service';
+import {
+  UploadSessionService,
+  type UploadSessionView,
+} from '../services/upload-session.service';
+import { getAppConfig } from '../shared/infrastructure/config';
+import { UseCaseValidationError } from '../shared/infrastructure/errors';
+
+type FileParams = { id: string };
+type VariantParams = { id: string; name: string };
+
+const uploadTokenOf = (request: FastifyRequest): string | undefined => {
+  const token = request.headers[UPLOAD_TOKEN_HEADER.toLowerCase()];
+  return typeof token === 'string' && token ? token : undefined;
+};
+
+// 期限切れの再開可能アップロードと使用済みトークンを掃除する間隔
+const UPLOAD_SESSION_SWEEP_INTERVAL = 15 * 60 * 1000;
+
+// アップロード直後のスキャンに失敗したファイルを再スキャンする間隔
+const PENDING_SCAN_RETRY_INTERVAL = 60 * 1000;
+
+/**
+ * Headers describing the state of a resumable upload
+ */
+const uploadSessionHeaders = (session: UploadSessionView) => ({
+  'Upload-Offset': session.offset,
+  'Upload-Length': session.size,
+  'Upload-Expires': session.expiresAt.toUTCString(),
+  'Cache-Control': 'no-store',
+});
 
 export const fileRoutes: FastifyPluginAsync = async fastify => {
-  // Upload file
+  const { upload } = getAppConfig();
+  const storage = createStorageDriver(upload);
+  const fileService = new FileService({
+    fileRepository,
+    storage,
+    limits: upload,
+    quotaBytes: upload.quotaBytes,
+    uploadTokens: new UploadTokenSigner(upload.tokenSecrets),
+    consumedUploadTokens: consumedUploadTokenRepository,
+    uploadEndpoint: `${fastify.prefix}/upload`,
+    finalizeEndpoint: `${fastify.prefix}/signed-url/finalize`,
+    downloadEndpoint: id => `${fastify.prefix}/${id}/download`,
+    signedUrlExpiresIn: upload.signedUrlExpiresIn,
+  });
+
+  const uploadSessionService = new UploadSessionService({
+    uploadSessionRepository,
+    storage,
+    files: fileService,
+    limits: { ...upload.resumable, allowedMimeTypes: upload.allowedMimeTypes },
+  });
+
+  const scanner = createFileScanner(upload.scanner);
+  const fileScanService = new FileScanService({
+    fileRepository,
+    storage,
+    scanner,
+    maxScanAttempts: upload.scanner.maxAttempts,
+    auditLogRepository,
+  });
+
+  // 応答を待たせないよう、スキャンはバックグラウンドで行う
+  const scanInBackground = (request: FastifyRequest, fileId: string) => {
+    fileScanService
+      .scan(fileId)
+      .catch(error =>
+        request.log.error({ error, fileId }, 'File scan failed; will retry')
+      );
+  };
+
+  fastify.healthChecks.register({
+    name: 'storage',
+    check: () => storage.ping(),
+  });
+  // スキャナー停止中もアップロードは受け付け、復旧後にスキャンする
+  fastify.healthChecks.register({
+    name: 'scanner',
+    check: () => scanner.ping(),
+    critical: false,
+  });
+
+  const loadFile = (request: FastifyRequest) =>
+    fileService.find((request.params as FileParams).id);
+
+  const loadUploadSession = (request: FastifyRequest) =>
+    uploadSessionService.find((request.params as FileParams).id);
+
+  // 再開可能アップロードのチャンクはバイナリのまま受け取る
+  fastify.addContentTypeParser(
+    'application/offset+octet-stream',
+    { parseAs: 'buffer', bodyLimit: upload.resumable.maxChunkSize },
+    (_request, body, done) => done(null, body)
+  );
+
+  scheduleJob(
+    fastify,
+    'expire-upload-sessions',
+    UPLOAD_SESSION_SWEEP_INTERVAL,
+    () => uploadSessionService.expireSessions()
+  );
+
+  scheduleJob(
+    fastify,
+    'forget-expired-upload-tokens',
+    UPLOAD_SESSION_SWEEP_INTERVAL,
+    () => consumedUploadTokenRepository.deleteExpired(new Date())
+  );
+
+  // 1件の失敗で残りのスキャンを止めない
+  scheduleJob(fastify, 'scan-pending-files', PENDING_SCAN_RETRY_INTERVAL, () =>
+    fileScanService.scanPending(undefined, (fileId, error) =>
+      fastify.log.error({ error, fileId }, 'File scan failed; will retry')
+    )
+  );
+
+  // Upload file (logged in, or with a token from /signed-url)
   fastify.post(
     '/upload',
     {
-      preHandler: fastify.authenticate,
+      preHandler: async (request, reply) => {
+        // トークン付きの場合はハンドラー内でトークンを検証する
+        if (!uploadTokenOf(request)) {
+          await fastify.authenticate(request, reply);
+        }
+      },
     },
     async (request, reply) => {
-      return {
-        success: true,
-        data: {
-          message: 'Hello from File Upload!',
-          timestamp: new Date().toISOString(),
-        },
-      };
+      const token = uploadTokenOf(request);
+      // サイズ超過は UploadInspector で検出するため、multipart 側の上限は1バイト余裕を持たせる
+      const data = await request.file({
+        limits: { files: 1, fileSize: upload.maxFileSize + 1 },
+      });
+
+      if (!data) {
+        throw new UseCaseValidationError('FileUpload', [
+          'No file was uploaded',
+        ]);
+      }
+
+      const content = { filename: data.filename, content: data.file };
+      const file = token
+        ? await fileService.uploadWithToken(token, content)
+        : await fileService.upload(request.user, content);
+      scanInBackground(request, file.id);
+
+      return reply.status(201).send(createSuccessResponse(file));
+    }
+  );
+
+  // Storage used by the current user, for a usage bar
+  fastify.get(
+    '/usage',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async request => {
+      const usage = await fileService.usage(request.user);
+
+      return createSuccessResponse(usage);
     }
   );
 
@@ -22,57 +191,208 @@ export const fileRoutes: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/:id',
     {
-      preHandler: fastify.authenticate,
+      preHandler: fastify.can('read', 'File', loadFile),
+    },
+    async request => {
+      const { id } = request.params as FileParams;
+      const file = await fileService.get(id);
+
+      return createSuccessResponse(file);
+    }
+  );
+
+  // Download file content (only once the malware scan found it clean)
+  fastify.get(
+    '/:id/download',
+    {
+      preHandler: fastify.can('read', 'File', loadFile),
+    },
+    async (request, reply) => {
+      const { id } = request.params as FileParams;
+      const { file, content } = await fileService.download(id);
+
+      return reply
+        .header('Content-Type', file.mimeType)
+        .header('Content-Length', file.size)
+        .header('Content-Disposition', contentDisposition(file.originalName))
+        .header('X-Content-Type-Options', 'nosniff')
+        .header('Cache-Control', 'private, no-cache')
+        .header('ETag', `"${file.checksum}"`)
+        .send(content);
+    }
+  );
+
+  // Get a URL for downloading file content directly from storage
+  fastify.get(
+    '/:id/signed-url',
+    {
+      preHandler: fastify.can('read', 'File', loadFile),
+    },
+    async request => {
+      const { id } = request.params as FileParams;
+      const signed = await fileService.createSignedDownload(id);
+
+      return createSuccessResponse(signed);
+    }
+  );
+
+  // Download an image variant (public files need no login)
+  fastify.get(
+    '/:id/variants/:name',
+    {
+      preHandler: fastify.optionalAuth,
     },
     async (request, reply) => {
-      const { id } = request.params as { id: string };
-
-      return {
-        success: true,
-        data: {
-          message: `Hello from File ${id}!`,
-          fileId: id,
-          timestamp: new Date().toISOString(),
-        },
-      };
+      const { id, name } = request.params as VariantParams;
+      const { variant, content } = await fileService.downloadVariant(
+        request.user,
+        id,
+        name
+      );
+
+      return reply
+        .header('Content-Type', variant.mimeType)
+        .header('Content-Length', variant.size)
+        .header('X-Content-Type-Options', 'nosniff')
+        .header('Cache-Control', 'private, max-age=3600')
+        .header('ETag', `"${variant.checksum}"`)
+        .send(content);
     }
   );
 
   // Delete file
   fastify.delete(
     '/:id',
+    {
+      preHandler: fastify.can('delete', 'File', loadFile),
+    },
+    async request => {
+      const { id } = request.params as FileParams;
+      await fileService.delete(id);
+
+      return createSuccessResponse(null, { message: 'File deleted' });
+    }
+  );
+
+  // Get an upload token and URLs for direct upload
+  fastify.post(
+    '/signed-url',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async request => {
+      const input = signedUploadSchema.parse(request.body);
+      const signed = await fileService.createSignedUpload(request.user, input);
+
+      return createSuccessResponse(signed);
+    }
+  );
+
+  // Turn content uploaded with a presigned PUT into a file
+  fastify.post(
+    '/signed-url/finalize',
     {
       preHandler: fastify.authenticate,
     },
     async (request, reply) => {
-      const { id } = request.params as { id: string };
-
-      return {
-        success: true,
-        data: {
-          message: `Hello from Delete File ${id}!`,
-          fileId: id,
-          timestamp: new Date().toISOString(),
-        },
-      };
+      const input = finalizeSignedUploadSchema.parse(request.body);
+      const file = await fileService.finalizeSignedUpload(request.user, input);
+      scanInBackground(request, file.id);
+
+      return reply.status(201).send(createSuccessResponse(file));
     }
   );
 
-  // Get signed URL for direct upload
+  // Start a resumable upload
   fastify.post(
-    '/signed-url',
+    '/uploads',
     {
       preHandler: fastify.authenticate,
     },
     async (request, reply) => {
-      return {
-        success: true,
-        data: {
-          message: 'Hello from Signed URL!',
-          signedUrl: 'https://example.com/signed-url',
-          timestamp: new Date().toISOString(),
-        },
-      };
+      const input = createUploadSessionSchema.parse(request.body);
+      const session = await uploadSessionService.create(request.user, input);
+
+      return reply
+        .status(201)
+        .header('Location', `${fastify.prefix}/uploads/${session.id}`)
+        .headers(uploadSessionHeaders(session))
+        .send(createSuccessResponse(session));
+    }
+  );
+
+  // Get the offset to resume a resumable upload from
+  fastify.head(
+    '/uploads/:id',
+    {
+      preHandler: fastify.can('read', 'UploadSession', loadUploadSession),
+    },
+    async (request, reply) => {
+      const { id } = request.params as FileParams;
+      const session = await uploadSessionService.get(id);
+
+      return reply.headers(uploadSessionHeaders(session)).send();
+    }
+  );
+
+  // Append a chunk at the offset given in the Upload-Offset header
+  fastify.patch(
+    '/uploads/:id',
+    {
+      preHandler: fastify.can('update', 'UploadSession', loadUploadSession),
+    },
+    async (request, reply) => {
+      const { id } = request.params as FileParams;
+      const offset = Number(request.headers['upload-offset']);
+
+      if (!Buffer.isBuffer(request.body)) {
+        throw new UseCaseValidationError('ResumableUpload', [
+          'Chunks must be sent as application/offset+octet-stream',
+        ]);
+      }
+      if (!Number.isSafeInteger(offset) || offset < 0) {
+        throw new UseCaseValidationError('ResumableUpload', [
+          'Upload-Offset header must be a non-negative integer',
+        ]);
+      }
+
+      const session = await uploadSessionService.appendChunk(
+        id,
+        offset,
+        request.body
+      );
+
+      return reply.status(204).headers(uploadSessionHeaders(session)).send();
+    }
+  );
+
+  // Verify the checksum and turn the uploaded chunks into a file
+  fastify.post(
+    '/uploads/:id/complete',
+    {
+      preHandler: fastify.can('update', 'UploadSession', loadUploadSession),
+    },
+    async (request, reply) => {
+      const { id } = request.params as FileParams;
+      const { checksum } = completeUploadSessionSchema.parse(request.body);
+      const file = await uploadSessionService.complete(id, checksum);
+      scanInBackground(request, file.id);
+
+      return reply.status(201).send(createSuccessResponse(file));
+    }
+  );
+
+  // Abort a resumable upload
+  fastify.delete(
+    '/uploads/:id',
+    {
+      preHandler: fastify.can('delete', 'UploadSession', loadUploadSession),
+    },
+    async request => {
+      const { id } = request.params as FileParams;
+      await uploadSessionService.abort(id);
+
+      return createSuccessResponse(null, { message: 'Upload aborted' });
     }
   );
 };
@@ -1,16 +1,16 @@
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  FastifyInstance,
+  FastifyPluginAsync,
+  FastifyRequest,
+  FastifyReply,
+} from 'fastify';
 import { format } from 'date-fns';
 import { ja } from 'date-fns/locale';
 
-// テンプレート用の型定義
-type HealthResponse = {
-  status: string;
-  today: string;
-  timestamp: string;
-  server: string;
-  version?: string;
-};
+import { HealthReport, packageVersion } from '../lib/health';
+import { HealthStatus } from '../shared/types';
 
+// テンプレート用の型定義
 type TodayResponse = {
   date: string;
   dayOfWeek: string;
@@ -18,48 +18,44 @@ type TodayResponse = {
   formatted: string;
 };
 
+type ProbeResponse = {
+  status: HealthStatus;
+  version: string;
+  timestamp: string;
+  uptime: number; // seconds
+  checks?: HealthReport['checks'];
+};
+
 type ErrorResponse = {
   error: string;
   message: string;
   timestamp: string;
 };
 
-export default async function healthRoutes(fastify: FastifyInstance) {
-  // ヘルスチェックエンドポイント
-  fastify.get<{
-    Reply: HealthResponse | ErrorResponse;
-  }>(
-    '/health',
-    async (
-      request: FastifyRequest,
-      reply: FastifyReply
-    ): Promise<HealthResponse | ErrorResponse> => {
-      try {
-        const now = new Date();
-
-        const response: HealthResponse = {
-          status: 'ok',
-          today: format(now, 'yyyy-MM-dd'),
-          timestamp: now.toISOString(),
-          server: 'template-api',
-          version: '1.0.0',
-        };
+const probe = (
+  status: HealthStatus,
+  checks?: HealthReport['checks']
+): ProbeResponse => ({
+  status,
+  version: packageVersion,
+  timestamp: new Date().toISOString(),
+  uptime: Math.round(process.uptime()),
+  checks,
+});
 
-        return response;
-      } catch (error) {
-        fastify.log.error('Health check failed:', error);
+// プローブはレート制限の対象外にする
+const probeOptions = { config: { rateLimit: false } };
 
-        const errorResponse: ErrorResponse = {
-          error: 'INTERNAL_SERVER_ERROR',
-          message: 'Health check failed',
-          timestamp: new Date().toISOString(),
-        };
+// 依存先を確認しない生存確認（/health/live とその別名）
+const routeLiveness = (fastify: FastifyInstance, url: string) =>
+  fastify.get(url, probeOptions, async (_request, reply) => {
+    reply.header('Cache-Control', 'no-store');
+    return probe(HealthStatus.HEALTHY);
+  });
 
-        reply.status(500);
-        return errorResponse;
-      }
-    }
-  );
+export default async function healthRoutes(fastify: FastifyInstance) {
+  // /health/live の別名（依存先の状態は /health/ready で確認する）
+  routeLiveness(fastify, '/health');
 
   // 今日の日付取得エンドポイント
   fastify.get<{
@@ -96,3 +92,30 @@ export default async function healthRoutes(fastify: FastifyInstance) {
     }
   );
 }
+
+/**
+ * Probes for the orchestrator, registered without a prefix
+ *
+ * - `/health/live`: the process is up; never checks dependencies, so a
+ *   database outage does not get the container restarted
+ * - `/health/ready`: all registered dependency checks; 503 when unhealthy
+ *   so traffic is routed elsewhere
+ */
+export const healthProbeRoutes: FastifyPluginAsync = async fastify => {
+  // Kept for existing monitors; same as /health/live
+  routeLiveness(fastify, '/health');
+  routeLiveness(fastify, '/health/live');
+
+  fastify.get('/health/ready', probeOptions, async (_request, reply) => {
+    const report = await fastify.healthChecks.run();
+
+    if (report.status === HealthStatus.UNHEALTHY) {
+      fastify.log.warn({ checks: report.checks }, 'Readiness check failed');
+    }
+
+    return reply
+      .status(report.status === HealthStatus.UNHEALTHY ? 503 : 200)
+      .header('Cache-Control', 'no-store')
+      .send(probe(report.status, report.checks));
+  });
+};
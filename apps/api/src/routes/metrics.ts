@@ -0,0 +1,63 @@
+import { timingSafeEqual } from 'crypto';
+import Fastify, {
+  FastifyInstance,
+  FastifyPluginAsync,
+  FastifyRequest,
+} from 'fastify';
+
+import type { ApiMetrics } from '../lib/metrics';
+import { errorHandler } from '../middleware/error-handler';
+import { AuthenticationError } from '../shared/infrastructure/errors';
+
+export interface MetricsRoutesOptions {
+  metrics: ApiMetrics;
+  /**
+   * Bearer token scrapers must present; without one the endpoint is open and
+   * should only be reachable on an internal address
+   */
+  token?: string;
+}
+
+const hasToken = (request: FastifyRequest, expected: string): boolean => {
+  const [scheme, token] = (request.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) return false;
+
+  const actual = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return actual.length === wanted.length && timingSafeEqual(actual, wanted);
+};
+
+export const metricsRoutes: FastifyPluginAsync<MetricsRoutesOptions> = async (
+  fastify,
+  { metrics, token }
+) => {
+  fastify.get(
+    '/metrics',
+    { config: { rateLimit: false } },
+    async (request, reply) => {
+      if (token && !hasToken(request, token)) {
+        throw new AuthenticationError('Invalid metrics token');
+      }
+
+      reply
+        .header('Cache-Control', 'no-store')
+        .type(metrics.registry.contentType);
+
+      return metrics.registry.metrics();
+    }
+  );
+};
+
+/**
+ * Server that serves only /metrics, for a separate (e.g. internal) listener
+ *
+ * Errors such as a wrong token get the same responses as on the API.
+ */
+export async function buildMetricsServer(
+  options: MetricsRoutesOptions
+): Promise<FastifyInstance> {
+  const server = Fastify({ logger: false });
+  await server.register(errorHandler);
+  await server.register(metricsRoutes, options);
+  return server;
+}
@@ -0,0 +1,216 @@
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { parseSort } from '@template/database';
+import { createSuccessResponse } from '@template/types';
+import {
+  createCommentSchema,
+  createPostSchema,
+  paginationQuerySchema,
+  postListQuerySchema,
+  updateCommentSchema,
+  updatePostSchema,
+} from '@template/utils';
+
+import { commentRepository, postRepository } from '../lib/database';
+import { etagOf, ifMatchVersions, withPrecondition } from '../lib/etag';
+import type { AuthenticatedUser } from '../services/auth.service';
+import { CommentService } from '../services/comment.service';
+import { PostService } from '../services/post.service';
+
+type PostParams = { id: string };
+type CommentParams = { id: string; commentId: string };
+
+// optionalAuth のルートでは未ログインの場合 request.user が未設定
+const getViewer = (request: FastifyRequest): AuthenticatedUser | undefined =>
+  request.user;
+
+export const postRoutes: FastifyPluginAsync = async fastify => {
+  const postService = new PostService({ postRepository });
+  const commentService = new CommentService({
+    postRepository,
+    commentRepository,
+  });
+
+  const loadPost = (request: FastifyRequest) =>
+    postService.find((request.params as PostParams).id);
+
+  const loadComment = (request: FastifyRequest) => {
+    const { id, commentId } = request.params as CommentParams;
+    return commentService.find(id, commentId);
+  };
+
+  // List posts
+  fastify.get(
+    '/',
+    {
+      preHandler: fastify.optionalAuth,
+    },
+    async request => {
+      const { page, limit, sortBy, sortOrder, ...filter } =
+        postListQuerySchema.parse(request.query);
+      const result = await postService.list(
+        getViewer(request),
+        filter,
+        { page, limit },
+        parseSort(sortBy, sortOrder)
+      );
+
+      return createSuccessResponse(result.data, { meta: result.meta });
+    }
+  );
+
+  // Get post by ID
+  fastify.get(
+    '/:id',
+    {
+      preHandler: fastify.optionalAuth,
+    },
+    async (request, reply) => {
+      const { id } = request.params as PostParams;
+      const post = await postService.get(getViewer(request), id);
+
+      reply.header('ETag', etagOf(post.version));
+      return createSuccessResponse(post);
+    }
+  );
+
+  // Create post
+  fastify.post(
+    '/',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async (request, reply) => {
+      const input = createPostSchema.parse(request.body);
+      const post = await postService.create(request.user, input);
+
+      return reply.status(201).send(createSuccessResponse(post));
+    }
+  );
+
+  // Update post
+  fastify.put(
+    '/:id',
+    {
+      preHandler: fastify.can('update', 'Post', loadPost),
+    },
+    async (request, reply) => {
+      const { id } = request.params as PostParams;
+      const input = updatePostSchema.parse(request.body);
+      const expectedVersions = ifMatchVersions(request.headers['if-match']);
+      const post = await withPrecondition(expectedVersions, () =>
+        postService.update(id, input, expectedVersions)
+      );
+
+      reply.header('ETag', etagOf(post.version));
+      return createSuccessResponse(post);
+    }
+  );
+
+  // Publish a draft
+  fastify.post(
+    '/:id/publish',
+    {
+      preHandler: fastify.can('update', 'Post', loadPost),
+    },
+    async request => {
+      const { id } = request.params as PostParams;
+      const post = await postService.publish(id);
+
+      return createSuccessResponse(post);
+    }
+  );
+
+  // Move a published post back to draft
+  fastify.post(
+    '/:id/unpublish',
+    {
+      preHandler: fastify.can('update', 'Post', loadPost),
+    },
+    async request => {
+      const { id } = request.params as PostParams;
+      const post = await postService.unpublish(id);
+
+      return createSuccessResponse(post);
+    }
+  );
+
+  // Delete post
+  fastify.delete(
+    '/:id',
+    {
+      preHandler: fastify.can('delete', 'Post', loadPost),
+    },
+    async request => {
+      const { id } = request.params as PostParams;
+      await postService.delete(id);
+
+      return createSuccessResponse(null, { message: 'Post deleted' });
+    }
+  );
+
+  // List comments on a post
+  fastify.get(
+    '/:id/comments',
+    {
+      preHandler: fastify.optionalAuth,
+    },
+    async request => {
+      const { id } = request.params as PostParams;
+      const pagination = paginationQuerySchema.parse(request.query);
+      const result = await commentService.list(
+        getViewer(request),
+        id,
+        pagination
+      );
+
+      return createSuccessResponse(result.data, { meta: result.meta });
+    }
+  );
+
+  // Comment on a post
+  fastify.post(
+    '/:id/comments',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async (request, reply) => {
+      const { id } = request.params as PostParams;
+      const { content } = createCommentSchema.parse({
+        ...(request.body as object),
+        postId: id,
+      });
+      const comment = await commentService.create(request.user, id, content);
+
+      return reply.status(201).send(createSuccessResponse(comment));
+    }
+  );
+
+  // Update comment
+  fastify.put(
+    '/:id/comments/:commentId',
+    {
+      preHandler: fastify.can('update', 'Comment', loadComment),
+    },
+    async request => {
+      const { commentId } = request.params as CommentParams;
+      const { content } = updateCommentSchema.parse(request.body);
+      const comment = await commentService.update(commentId, content);
+
+      return createSuccessResponse(comment);
+    }
+  );
+
+  // Delete comment
+  fastify.delete(
+    '/:id/comments/:commentId',
+    {
+      preHandler: fastify.can('delete', 'Comment', loadComment),
+    },
+    async request => {
+      const { commentId } = request.params as CommentParams;
+      await commentService.delete(commentId);
+
+      return createSuccessResponse(null, { message: 'Comment deleted' });
+    }
+  );
+};
@@ -1,21 +1,36 @@
 import { FastifyPluginAsync } from 'fastify';
+import { parseSort } from '@template/database';
+import { createSuccessResponse, UserRole } from '@template/types';
+import {
+  createUserSchema,
+  setAvatarSchema,
+  updateUserSchema,
+  userListQuerySchema,
+} from '@template/utils';
+
+import { fileRepository, userRepository } from '../lib/database';
+import { etagOf, ifMatchVersions, withPrecondition } from '../lib/etag';
+import { UserService } from '../services/user.service';
 
 export const userRoutes: FastifyPluginAsync = async fastify => {
+  const userService = new UserService({ userRepository, fileRepository });
+
   // Get all users
   fastify.get(
     '/',
     {
-      preHandler: fastify.authorize(['agent', 'admin']),
+      preHandler: fastify.authorize([UserRole.ADMIN]),
     },
-    async (request, reply) => {
-      return {
-        success: true,
-        data: {
-          message: 'Hello from Users List!',
-          users: [],
-          timestamp: new Date().toISOString(),
-        },
-      };
+    async request => {
+      const { page, limit, sortBy, sortOrder, ...filter } =
+        userListQuerySchema.parse(request.query);
+      const result = await userService.list(
+        filter,
+        { page, limit },
+        parseSort(sortBy, sortOrder)
+      );
+
+      return createSuccessResponse(result.data, { meta: result.meta });
     }
   );
 
@@ -23,50 +38,66 @@ export const userRoutes: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/:id',
     {
-      preHandler: fastify.optionalAuth,
+      preHandler: fastify.authenticate,
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
+      const user = await userService.get(id);
 
-      return {
-        success: true,
-        data: {
-          message: `Hello from User ${id}!`,
-          userId: id,
-          timestamp: new Date().toISOString(),
-        },
-      };
+      reply.header('ETag', etagOf(user.version));
+      return createSuccessResponse(user);
     }
   );
 
   // Create user
-  fastify.post('/', async (request, reply) => {
-    return {
-      success: true,
-      data: {
-        message: 'Hello from Create User!',
-        timestamp: new Date().toISOString(),
-      },
-    };
-  });
+  fastify.post(
+    '/',
+    {
+      preHandler: fastify.authorize([UserRole.ADMIN]),
+    },
+    async (request, reply) => {
+      const input = createUserSchema.parse(request.body);
+      const user = await userService.create(input);
+
+      return reply.status(201).send(createSuccessResponse(user));
+    }
+  );
 
   // Update user
   fastify.put(
     '/:id',
     {
-      preHandler: fastify.authenticate,
+      preHandler: fastify.can('update', 'User', request =>
+        userRepository.findById((request.params as { id: string }).id)
+      ),
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
+      const input = updateUserSchema.parse(request.body);
+      const expectedVersions = ifMatchVersions(request.headers['if-match']);
+      const user = await withPrecondition(expectedVersions, () =>
+        userService.update(request.user, id, input, expectedVersions)
+      );
 
-      return {
-        success: true,
-        data: {
-          message: `Hello from Update User ${id}!`,
-          userId: id,
-          timestamp: new Date().toISOString(),
-        },
-      };
+      reply.header('ETag', etagOf(user.version));
+      return createSuccessResponse(user);
+    }
+  );
+
+  // Set avatar from an uploaded image
+  fastify.put(
+    '/:id/avatar',
+    {
+      preHandler: fastify.can('update', 'User', request =>
+        userRepository.findById((request.params as { id: string }).id)
+      ),
+    },
+    async request => {
+      const { id } = request.params as { id: string };
+      const { fileId } = setAvatarSchema.parse(request.body);
+      const user = await userService.setAvatar(id, fileId);
+
+      return createSuccessResponse(user);
     }
   );
 
@@ -74,19 +105,13 @@ export const userRoutes: FastifyPluginAsync = async fastify => {
   fastify.delete(
     '/:id',
     {
-      preHandler: fastify.authorize(['admin']),
+      preHandler: fastify.authorize([UserRole.ADMIN]),
     },
-    async (request, reply) => {
+    async request => {
       const { id } = request.params as { id: string };
+      await userService.delete(id);
 
-      return {
-        success: true,
-        data: {
-          message: `Hello from Delete User ${id}!`,
-          userId: id,
-          timestamp: new Date().toISOString(),
-        },
-      };
+      return createSuccessResponse(null, { message: 'User deleted' });
     }
   );
 };
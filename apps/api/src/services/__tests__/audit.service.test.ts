@@ -0,0 +1,36 @@
+import { AuditService, AuditServiceDependencies } from '../audit.service';
+
+describe('AuditService', () => {
+  let auditLogRepository: Record<string, jest.Mock>;
+  let auditService: AuditService;
+
+  beforeEach(() => {
+    auditLogRepository = {
+      findMany: jest.fn().mockResolvedValue({
+        data: [{ id: 'audit-1', action: 'update', resource: 'Post' }],
+        page: 1,
+        limit: 20,
+        total: 1,
+      }),
+    };
+    auditService = new AuditService({
+      auditLogRepository,
+    } as unknown as AuditServiceDependencies);
+  });
+
+  it('should list entries with the given filters', async () => {
+    const createdAt = { from: new Date('2024-01-01') };
+
+    const result = await auditService.list(
+      { actorId: 'user-1', resource: 'Post', createdAt },
+      { page: 1 }
+    );
+
+    expect(auditLogRepository.findMany).toHaveBeenCalledWith(
+      { actorId: 'user-1', resource: 'Post', createdAt },
+      { page: 1 }
+    );
+    expect(result.data).toHaveLength(1);
+    expect(result.meta.total).toBe(1);
+  });
+});
@@ -0,0 +1,262 @@
+import { AuthService, AuthServiceDependencies } from '../auth.service';
+import { AuthenticationError } from '../../shared/infrastructure/errors';
+import { CryptoUtils } from '../../shared/utils';
+
+describe('AuthService', () => {
+  let deps: {
+    userRepository: Record<string, jest.Mock>;
+    refreshTokenRepository: Record<string, jest.Mock>;
+    sessionRepository: Record<string, jest.Mock>;
+    signAccessToken: jest.Mock;
+    accessTokenExpiresIn: string;
+    refreshTokenExpiresIn: string;
+  };
+  let authService: AuthService;
+  let passwordHash: string;
+
+  const createUser = (overrides = {}) => ({
+    id: 'user-1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'USER',
+    isActive: true,
+    passwordHash,
+    ...overrides,
+  });
+
+  const createTokenRecord = (overrides = {}) => ({
+    id: 'token-1',
+    userId: 'user-1',
+    familyId: 'family-1',
+    tokenHash: CryptoUtils.sha256('refresh-token'),
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    passwordHash = await CryptoUtils.hashPassword('Password123');
+  });
+
+  beforeEach(() => {
+    deps = {
+      userRepository: {
+        findByEmail: jest.fn(),
+        findById: jest.fn(),
+        updateLastLogin: jest.fn(),
+      },
+      refreshTokenRepository: {
+        create: jest.fn(),
+        findByTokenHash: jest.fn(),
+        revokeIfActive: jest.fn().mockResolvedValue(true),
+      },
+      sessionRepository: {
+        create: jest.fn().mockResolvedValue({ id: 'session-1' }),
+        touch: jest.fn(),
+        revoke: jest.fn(),
+      },
+      signAccessToken: jest.fn().mockReturnValue('access-token'),
+      accessTokenExpiresIn: '15m',
+      refreshTokenExpiresIn: '7d',
+    };
+    authService = new AuthService(deps as unknown as AuthServiceDependencies);
+  });
+
+  describe('login', () => {
+    it('should issue tokens for valid credentials', async () => {
+      deps.userRepository.findByEmail.mockResolvedValue(createUser());
+
+      const result = await authService.login('test@example.com', 'Password123');
+
+      expect(deps.signAccessToken).toHaveBeenCalledWith(
+        {
+          id: 'user-1',
+          email: 'test@example.com',
+          role: 'USER',
+          sid: 'session-1',
+        },
+        { expiresIn: '15m' }
+      );
+      expect(deps.userRepository.updateLastLogin).toHaveBeenCalledWith(
+        'user-1'
+      );
+      expect(result.tokens).toEqual({
+        accessToken: 'access-token',
+        refreshToken: expect.any(String),
+        tokenType: 'Bearer',
+        expiresIn: 900,
+      });
+      expect(result.user).not.toHaveProperty('passwordHash');
+    });
+
+    it('should store only the hash of the refresh token', async () => {
+      deps.userRepository.findByEmail.mockResolvedValue(createUser());
+
+      const { tokens } = await authService.login(
+        'test@example.com',
+        'Password123'
+      );
+
+      expect(deps.refreshTokenRepository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        familyId: 'session-1',
+        tokenHash: CryptoUtils.sha256(tokens.refreshToken),
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it('should record the client in a new session', async () => {
+      deps.userRepository.findByEmail.mockResolvedValue(createUser());
+
+      await authService.login('test@example.com', 'Password123', {
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest',
+      });
+
+      expect(deps.sessionRepository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest',
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it('should reject a wrong password', async () => {
+      deps.userRepository.findByEmail.mockResolvedValue(createUser());
+
+      await expect(
+        authService.login('test@example.com', 'wrong')
+      ).rejects.toBeInstanceOf(AuthenticationError);
+      expect(deps.refreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown users', async () => {
+      deps.userRepository.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        authService.login('nobody@example.com', 'Password123')
+      ).rejects.toThrow('Invalid email or password');
+    });
+
+    it('should reject users without a password', async () => {
+      deps.userRepository.findByEmail.mockResolvedValue(
+        createUser({ passwordHash: null })
+      );
+
+      await expect(
+        authService.login('test@example.com', 'Password123')
+      ).rejects.toThrow('Invalid email or password');
+    });
+
+    it('should reject deactivated users', async () => {
+      deps.userRepository.findByEmail.mockResolvedValue(
+        createUser({ isActive: false })
+      );
+
+      await expect(
+        authService.login('test@example.com', 'Password123')
+      ).rejects.toThrow('Account is disabled');
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token within the same family', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(
+        createTokenRecord()
+      );
+      deps.userRepository.findById.mockResolvedValue(createUser());
+
+      const tokens = await authService.refresh('refresh-token', {
+        ipAddress: '10.0.0.1',
+      });
+
+      expect(deps.refreshTokenRepository.revokeIfActive).toHaveBeenCalledWith(
+        'token-1'
+      );
+      expect(deps.sessionRepository.touch).toHaveBeenCalledWith('family-1', {
+        ipAddress: '10.0.0.1',
+        userAgent: undefined,
+        expiresAt: expect.any(Date),
+      });
+      expect(deps.refreshTokenRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ familyId: 'family-1', userId: 'user-1' })
+      );
+      expect(tokens.refreshToken).not.toBe('refresh-token');
+    });
+
+    it('should revoke the session when a revoked token is reused', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(
+        createTokenRecord({ revokedAt: new Date() })
+      );
+
+      await expect(authService.refresh('refresh-token')).rejects.toThrow(
+        'Refresh token reuse detected'
+      );
+      expect(deps.sessionRepository.revoke).toHaveBeenCalledWith('family-1');
+      expect(deps.refreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a concurrent refresh won', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(
+        createTokenRecord()
+      );
+      deps.refreshTokenRepository.revokeIfActive.mockResolvedValue(false);
+
+      await expect(authService.refresh('refresh-token')).rejects.toThrow(
+        'Refresh token reuse detected'
+      );
+      expect(deps.sessionRepository.revoke).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should reject expired tokens', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(
+        createTokenRecord({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(authService.refresh('refresh-token')).rejects.toThrow(
+        'Refresh token has expired'
+      );
+    });
+
+    it('should reject unknown tokens', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(null);
+
+      await expect(authService.refresh('unknown')).rejects.toThrow(
+        'Invalid refresh token'
+      );
+    });
+
+    it('should revoke the session of deactivated users', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(
+        createTokenRecord()
+      );
+      deps.userRepository.findById.mockResolvedValue(
+        createUser({ isActive: false })
+      );
+
+      await expect(authService.refresh('refresh-token')).rejects.toThrow(
+        'Account is disabled'
+      );
+      expect(deps.sessionRepository.revoke).toHaveBeenCalledWith('family-1');
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the session', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(
+        createTokenRecord()
+      );
+
+      await authService.logout('refresh-token');
+
+      expect(deps.sessionRepository.revoke).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should succeed silently for unknown tokens', async () => {
+      deps.refreshTokenRepository.findByTokenHash.mockResolvedValue(null);
+
+      await expect(authService.logout('unknown')).resolves.toBeUndefined();
+      expect(deps.sessionRepository.revoke).not.toHaveBeenCalled();
+    });
+  });
+});
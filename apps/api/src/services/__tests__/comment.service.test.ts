@@ -0,0 +1,96 @@
+import { UserRole } from '@template/types';
+
+import { CommentService, CommentServiceDependencies } from '../comment.service';
+import {
+  EntityNotFoundError,
+  InvalidEntityStateError,
+} from '../../shared/infrastructure/errors';
+
+describe('CommentService', () => {
+  let postRepository: Record<string, jest.Mock>;
+  let commentRepository: Record<string, jest.Mock>;
+  let commentService: CommentService;
+
+  const user = { id: 'user-2', email: 'b@example.com', role: UserRole.USER };
+
+  beforeEach(() => {
+    postRepository = { findById: jest.fn() };
+    commentRepository = {
+      findOnPost: jest.fn(),
+      findMany: jest.fn().mockResolvedValue({
+        data: [],
+        page: 1,
+        limit: 10,
+        total: 0,
+      }),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    commentService = new CommentService({
+      postRepository,
+      commentRepository,
+    } as unknown as CommentServiceDependencies);
+  });
+
+  it('should scope lookups to the post', async () => {
+    await commentService.find('post-1', 'comment-1');
+
+    expect(commentRepository.findOnPost).toHaveBeenCalledWith(
+      'post-1',
+      'comment-1'
+    );
+  });
+
+  it('should list comments of a readable post', async () => {
+    postRepository.findById.mockResolvedValue({
+      authorId: 'user-1',
+      published: true,
+    });
+
+    await commentService.list(undefined, 'post-1', { page: 1, limit: 10 });
+
+    expect(commentRepository.findMany).toHaveBeenCalledWith(
+      { postId: 'post-1' },
+      { page: 1, limit: 10 }
+    );
+  });
+
+  it('should hide comments of drafts from other users', async () => {
+    postRepository.findById.mockResolvedValue({
+      authorId: 'user-1',
+      published: false,
+    });
+
+    await expect(
+      commentService.list(user, 'post-1', {})
+    ).rejects.toBeInstanceOf(EntityNotFoundError);
+  });
+
+  it('should create a comment on a published post', async () => {
+    postRepository.findById.mockResolvedValue({
+      authorId: 'user-1',
+      published: true,
+    });
+
+    await commentService.create(user, 'post-1', 'Nice post');
+
+    expect(commentRepository.create).toHaveBeenCalledWith({
+      content: 'Nice post',
+      postId: 'post-1',
+      authorId: 'user-2',
+    });
+  });
+
+  it('should not accept comments on drafts', async () => {
+    postRepository.findById.mockResolvedValue({
+      authorId: 'user-2',
+      published: false,
+    });
+
+    await expect(
+      commentService.create(user, 'post-1', 'Nice post')
+    ).rejects.toBeInstanceOf(InvalidEntityStateError);
+    expect(commentRepository.create).not.toHaveBeenCalled();
+  });
+});
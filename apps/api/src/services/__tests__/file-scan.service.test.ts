@@ -0,0 +1,253 @@
+import { Readable } from 'stream';
+
+import { FileStatus } from '@template/types';
+import sharp from 'sharp';
+
+import type { FileScanner } from '../../lib/scanner';
+import {
+  FileScanService,
+  FileScanServiceDependencies,
+} from '../file-scan.service';
+
+describe('FileScanService', () => {
+  let fileRepository: Record<string, jest.Mock>;
+  let storage: Record<string, jest.Mock>;
+  let scanner: { scan: jest.MockedFunction<FileScanner['scan']> };
+  let auditLogRepository: Record<string, jest.Mock>;
+  let service: FileScanService;
+
+  const file = (overrides: Record<string, unknown> = {}) => ({
+    id: 'file-1',
+    ownerId: 'user-1',
+    originalName: 'photo.jpg',
+    mimeType: 'image/webp',
+    size: 4,
+    checksum: 'abc',
+    storageKey: 'user-1/abc-original.webp',
+    status: FileStatus.PENDING_SCAN,
+    variants: [
+      { storageKey: 'user-1/abc-original.webp' },
+      { storageKey: 'user-1/abc-thumbnail.webp' },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    fileRepository = {
+      findById: jest.fn().mockResolvedValue(file()),
+      findPendingScan: jest.fn().mockResolvedValue([]),
+      completeScan: jest.fn().mockResolvedValue(true),
+      recordScanFailure: jest.fn().mockResolvedValue(false),
+      delete: jest.fn(),
+    };
+    storage = {
+      get: jest.fn().mockImplementation(async () => Readable.from(['data'])),
+      put: jest.fn(),
+      delete: jest.fn(),
+    };
+    scanner = { scan: jest.fn().mockResolvedValue({ clean: true }) };
+    auditLogRepository = { record: jest.fn() };
+    service = new FileScanService({
+      fileRepository,
+      storage,
+      scanner,
+      maxScanAttempts: 5,
+      auditLogRepository,
+    } as unknown as FileScanServiceDependencies);
+  });
+
+  it('should mark clean files as downloadable', async () => {
+    expect(await service.scan('file-1')).toBe(FileStatus.CLEAN);
+
+    expect(storage.get).toHaveBeenCalledWith('user-1/abc-original.webp');
+    expect(fileRepository.completeScan).toHaveBeenCalledWith('file-1', {
+      status: FileStatus.CLEAN,
+    });
+    expect(auditLogRepository.record).not.toHaveBeenCalled();
+  });
+
+  it('should quarantine infected files and record an audit entry', async () => {
+    scanner.scan.mockResolvedValue({
+      clean: false,
+      threat: 'Eicar-Test-Signature',
+    });
+
+    expect(await service.scan('file-1')).toBe(FileStatus.QUARANTINED);
+
+    expect(storage.put).toHaveBeenCalledWith(
+      'quarantine/user-1/abc-original.webp',
+      expect.any(Readable)
+    );
+    expect(fileRepository.completeScan).toHaveBeenCalledWith('file-1', {
+      status: FileStatus.QUARANTINED,
+      threat: 'Eicar-Test-Signature',
+      storageKey: 'quarantine/user-1/abc-original.webp',
+    });
+    expect(storage.delete).toHaveBeenCalledWith('user-1/abc-original.webp');
+    expect(storage.delete).toHaveBeenCalledWith('user-1/abc-thumbnail.webp');
+    expect(auditLogRepository.record).toHaveBeenCalledWith({
+      action: 'file.quarantined',
+      resource: 'File',
+      resourceId: 'file-1',
+      metadata: expect.objectContaining({
+        ownerId: 'user-1',
+        threat: 'Eicar-Test-Signature',
+      }),
+    });
+  });
+
+  it('should leave files that were already scanned alone', async () => {
+    fileRepository.findById.mockResolvedValue(
+      file({ status: FileStatus.CLEAN })
+    );
+
+    expect(await service.scan('file-1')).toBe(FileStatus.CLEAN);
+    expect(scanner.scan).not.toHaveBeenCalled();
+  });
+
+  it('should only count the attempt when the scanner fails', async () => {
+    scanner.scan.mockRejectedValue(new Error('clamd unavailable'));
+
+    await expect(service.scan('file-1')).rejects.toThrow('clamd unavailable');
+    expect(fileRepository.completeScan).not.toHaveBeenCalled();
+    expect(fileRepository.recordScanFailure).toHaveBeenCalledWith('file-1', 5);
+    expect(auditLogRepository.record).not.toHaveBeenCalled();
+  });
+
+  it('should record an audit entry when giving up on a file', async () => {
+    scanner.scan.mockRejectedValue(new Error('INSTREAM size limit exceeded'));
+    fileRepository.recordScanFailure.mockResolvedValue(true);
+
+    await expect(service.scan('file-1')).rejects.toThrow('size limit');
+    expect(auditLogRepository.record).toHaveBeenCalledWith({
+      action: 'file.scan_failed',
+      resource: 'File',
+      resourceId: 'file-1',
+      metadata: expect.objectContaining({
+        attempts: 5,
+        error: 'INSTREAM size limit exceeded',
+      }),
+    });
+  });
+
+  it('should scan files that are still pending', async () => {
+    fileRepository.findPendingScan.mockResolvedValue([
+      file({ id: 'file-1' }),
+      file({ id: 'file-2' }),
+    ]);
+
+    expect(await service.scanPending()).toBe(2);
+    expect(scanner.scan).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep scanning pending files after one fails', async () => {
+    fileRepository.findPendingScan.mockResolvedValue([
+      file({ id: 'file-1' }),
+      file({ id: 'file-2' }),
+    ]);
+    const error = new Error('clamd unavailable');
+    scanner.scan.mockRejectedValueOnce(error);
+    const onError = jest.fn();
+
+    expect(await service.scanPending(undefined, onError)).toBe(1);
+
+    expect(onError).toHaveBeenCalledWith('file-1', error);
+    expect(fileRepository.recordScanFailure).toHaveBeenCalledWith('file-1', 5);
+    expect(fileRepository.completeScan).toHaveBeenCalledTimes(1);
+    expect(fileRepository.completeScan).toHaveBeenCalledWith('file-2', {
+      status: FileStatus.CLEAN,
+    });
+  });
+
+  describe('images', () => {
+    const objects = new Map<string, Buffer>();
+    const upload = (content: Buffer) =>
+      file({
+        mimeType: 'image/jpeg',
+        size: content.length,
+        storageKey: 'user-1/abc',
+        variants: [],
+      });
+
+    beforeEach(() => {
+      objects.clear();
+      storage.get.mockImplementation(async (key: string) =>
+        Readable.from([objects.get(key)!])
+      );
+      storage.put.mockImplementation(async (key: string, body: Readable) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of body) chunks.push(chunk as Buffer);
+        objects.set(key, Buffer.concat(chunks));
+      });
+      storage.delete.mockImplementation(async (key: string) => {
+        objects.delete(key);
+      });
+    });
+
+    it('should replace clean images with metadata-free WebP variants', async () => {
+      const jpeg = await sharp({
+        create: { width: 1200, height: 600, channels: 3, background: '#369' },
+      })
+        .jpeg()
+        .withExif({ IFD0: { Copyright: 'secret' } })
+        .toBuffer();
+      objects.set('user-1/abc', jpeg);
+      fileRepository.findById.mockResolvedValue(upload(jpeg));
+
+      expect(await service.scan('file-1')).toBe(FileStatus.CLEAN);
+
+      const { processed } = fileRepository.completeScan.mock.calls[0][1];
+      expect(processed.variants.map((v: { name: string }) => v.name)).toEqual([
+        'thumbnail',
+        'medium',
+        'original',
+      ]);
+      expect(processed.variants[0]).toMatchObject({
+        mimeType: 'image/webp',
+        width: 200,
+        height: 100,
+      });
+      expect(processed).toMatchObject({
+        mimeType: 'image/webp',
+        storageKey: 'user-1/abc-original.webp',
+        size: objects.get('user-1/abc-original.webp')!.length,
+      });
+
+      // 元のアップロード（EXIF付き）は残さない
+      expect([...objects.keys()].sort()).toEqual(
+        processed.variants
+          .map((v: { storageKey: string }) => v.storageKey)
+          .sort()
+      );
+      for (const content of objects.values()) {
+        const metadata = await sharp(content).metadata();
+        expect(metadata.format).toBe('webp');
+        expect(metadata.exif).toBeUndefined();
+      }
+    });
+
+    it('should not decode images that are not clean', async () => {
+      const broken = Buffer.from('ffd8ffe0deadbeef', 'hex');
+      objects.set('user-1/abc', broken);
+      fileRepository.findById.mockResolvedValue(upload(broken));
+      scanner.scan.mockResolvedValue({ clean: false, threat: 'Exploit' });
+
+      expect(await service.scan('file-1')).toBe(FileStatus.QUARANTINED);
+      expect(fileRepository.completeScan).toHaveBeenCalledWith(
+        'file-1',
+        expect.not.objectContaining({ processed: expect.anything() })
+      );
+    });
+
+    it('should remove clean images that cannot be decoded', async () => {
+      const broken = Buffer.from('ffd8ffe0deadbeef', 'hex');
+      objects.set('user-1/abc', broken);
+      fileRepository.findById.mockResolvedValue(upload(broken));
+
+      expect(await service.scan('file-1')).toBeNull();
+      expect(fileRepository.completeScan).not.toHaveBeenCalled();
+      expect(fileRepository.delete).toHaveBeenCalledWith('file-1');
+      expect(objects.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,656 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+
+import { FileStatus, FileType, UserRole } from '@template/types';
+
+import type { StorageDriver } from '../../lib/storage';
+import { UploadTokenSigner } from '../../lib/upload-token';
+import { FileService, FileServiceDependencies } from '../file.service';
+import {
+  AuthorizationError,
+  AuthenticationError,
+  EntityNotFoundError,
+  FileSystemError,
+  QuotaExceededError,
+  ResourceNotAvailableError,
+  UseCaseValidationError,
+} from '../../shared/infrastructure/errors';
+
+/**
+ * In-memory storage driver that consumes streams like a real driver would
+ */
+class MemoryStorage implements Pick<StorageDriver, 'put' | 'get' | 'delete'> {
+  objects = new Map<string, Buffer>();
+
+  async put(key: string, body: Readable): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(chunk as Buffer);
+    }
+    this.objects.set(key, Buffer.concat(chunks));
+  }
+
+  async get(key: string): Promise<Readable> {
+    const object = this.objects.get(key);
+    if (!object) {
+      throw new FileSystemError('read', key);
+    }
+    return Readable.from([object]);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+}
+
+describe('FileService', () => {
+  let fileRepository: Record<string, jest.Mock>;
+  let consumedUploadTokens: { consume: jest.Mock };
+  let storage: MemoryStorage;
+  let fileService: FileService;
+
+  const uploadTokens = new UploadTokenSigner([
+    'upload-token-secret-for-tests-32-chars',
+  ]);
+
+  const user = { id: 'user-1', email: 'a@example.com', role: UserRole.USER };
+  const quotaBytes = 100_000;
+  const pdf = Buffer.concat([Buffer.from('%PDF-1.7\n'), Buffer.alloc(5000, 1)]);
+
+  beforeEach(() => {
+    fileRepository = {
+      findById: jest.fn(),
+      createWithinQuota: jest.fn().mockImplementation(async data => ({
+        id: 'file-1',
+        ...data,
+        variants: [],
+      })),
+      delete: jest.fn(),
+      getUsage: jest.fn().mockResolvedValue([]),
+    };
+    storage = new MemoryStorage();
+    consumedUploadTokens = { consume: jest.fn().mockResolvedValue(true) };
+    fileService = new FileService({
+      fileRepository,
+      storage,
+      limits: {
+        maxFileSize: 6000,
+        allowedMimeTypes: ['application/pdf', 'image/jpeg'],
+      },
+      quotaBytes,
+      uploadTokens,
+      consumedUploadTokens,
+      uploadEndpoint: '/api/v1/files/upload',
+      finalizeEndpoint: '/api/v1/files/signed-url/finalize',
+      downloadEndpoint: (id: string) => `/api/v1/files/${id}/download`,
+      signedUrlExpiresIn: 900,
+    } as unknown as FileServiceDependencies);
+  });
+
+  describe('upload', () => {
+    it('should store the content and record detected metadata', async () => {
+      const file = await fileService.upload(user, {
+        filename: 'C:\\Users\\me\\report.pdf',
+        content: Readable.from([pdf.subarray(0, 10), pdf.subarray(10)]),
+      });
+
+      const [storageKey] = [...storage.objects.keys()];
+      expect(storageKey).toMatch(/^user-1\//);
+      expect(storage.objects.get(storageKey)).toEqual(pdf);
+      expect(fileRepository.createWithinQuota).toHaveBeenCalledWith(
+        {
+          ownerId: 'user-1',
+          originalName: 'report.pdf',
+          mimeType: 'application/pdf',
+          size: pdf.length,
+          checksum: createHash('sha256').update(pdf).digest('hex'),
+          type: FileType.DOCUMENT,
+          storageKey,
+        },
+        quotaBytes
+      );
+      expect(file).not.toHaveProperty('storageKey');
+    });
+
+    it('should not decode images before they are scanned', async () => {
+      const broken = Buffer.from('ffd8ffe0deadbeef', 'hex');
+
+      const file = await fileService.upload(user, {
+        filename: 'broken.jpg',
+        content: Readable.from([broken]),
+      });
+
+      const [storageKey] = [...storage.objects.keys()];
+      expect(storage.objects.get(storageKey)).toEqual(broken);
+      expect(fileRepository.createWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mimeType: 'image/jpeg',
+          type: FileType.IMAGE,
+          storageKey,
+        }),
+        quotaBytes
+      );
+      expect(file.variants).toEqual([]);
+    });
+
+    it('should reject content whose type is not allowed', async () => {
+      await expect(
+        fileService.upload(user, {
+          filename: 'report.pdf',
+          content: Readable.from([Buffer.from('GIF89a pretending')]),
+        })
+      ).rejects.toThrow(UseCaseValidationError);
+
+      expect(storage.objects.size).toBe(0);
+      expect(fileRepository.createWithinQuota).not.toHaveBeenCalled();
+    });
+
+    it('should reject files over the size limit', async () => {
+      await expect(
+        fileService.upload(user, {
+          filename: 'big.pdf',
+          content: Readable.from([pdf, pdf]),
+        })
+      ).rejects.toThrow('maximum size');
+
+      expect(storage.objects.size).toBe(0);
+    });
+
+    it('should remove stored content when recording metadata fails', async () => {
+      fileRepository.createWithinQuota.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        fileService.upload(user, {
+          filename: 'report.pdf',
+          content: Readable.from([pdf]),
+        })
+      ).rejects.toThrow('db down');
+
+      expect(storage.objects.size).toBe(0);
+    });
+  });
+
+  describe('quota', () => {
+    it('should refuse uploads once the quota is used up', async () => {
+      fileRepository.getUsage.mockResolvedValue([
+        { type: FileType.DOCUMENT, bytes: quotaBytes, fileCount: 3 },
+      ]);
+
+      await expect(
+        fileService.upload(user, {
+          filename: 'report.pdf',
+          content: Readable.from([pdf]),
+        })
+      ).rejects.toThrow(QuotaExceededError);
+      expect(storage.objects.size).toBe(0);
+    });
+
+    it('should remove stored content when the file does not fit', async () => {
+      fileRepository.createWithinQuota.mockResolvedValue(null);
+
+      await expect(
+        fileService.upload(user, {
+          filename: 'report.pdf',
+          content: Readable.from([pdf]),
+        })
+      ).rejects.toThrow(QuotaExceededError);
+      expect(storage.objects.size).toBe(0);
+    });
+
+    it('should refuse signed uploads larger than the remaining space', async () => {
+      fileRepository.getUsage.mockResolvedValue([
+        { type: FileType.IMAGE, bytes: quotaBytes - 1000, fileCount: 1 },
+      ]);
+
+      await expect(
+        fileService.createSignedUpload(user, {
+          filename: 'report.pdf',
+          mimeType: 'application/pdf',
+          size: 1001,
+        })
+      ).rejects.toThrow(QuotaExceededError);
+    });
+  });
+
+  describe('usage', () => {
+    it('should report totals and every file type', async () => {
+      fileRepository.getUsage.mockResolvedValue([
+        { type: FileType.IMAGE, bytes: 300, fileCount: 2 },
+        { type: FileType.DOCUMENT, bytes: 700, fileCount: 1 },
+      ]);
+
+      const usage = await fileService.usage(user);
+
+      expect(fileRepository.getUsage).toHaveBeenCalledWith('user-1');
+      expect(usage).toEqual({
+        usedBytes: 1000,
+        quotaBytes,
+        fileCount: 3,
+        byType: {
+          [FileType.IMAGE]: { bytes: 300, fileCount: 2 },
+          [FileType.DOCUMENT]: { bytes: 700, fileCount: 1 },
+          [FileType.VIDEO]: { bytes: 0, fileCount: 0 },
+          [FileType.AUDIO]: { bytes: 0, fileCount: 0 },
+          [FileType.OTHER]: { bytes: 0, fileCount: 0 },
+        },
+      });
+    });
+  });
+
+  describe('uploadWithToken', () => {
+    const issue = (overrides: object = {}) =>
+      uploadTokens.issue({
+        userId: 'user-2',
+        fileName: 'report.pdf',
+        maxSize: pdf.length,
+        mimeType: 'application/pdf',
+        expiresAt: new Date(Date.now() + 60_000),
+        ...overrides,
+      });
+
+    it('should store the file for the user the token was issued to', async () => {
+      await fileService.uploadWithToken(issue(), {
+        filename: 'report.pdf',
+        content: Readable.from([pdf]),
+      });
+
+      expect(fileRepository.createWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ownerId: 'user-2',
+          mimeType: 'application/pdf',
+        }),
+        quotaBytes
+      );
+    });
+
+    it('should use up the token', async () => {
+      const token = issue();
+
+      await fileService.uploadWithToken(token, {
+        filename: 'report.pdf',
+        content: Readable.from([pdf]),
+      });
+
+      const { tokenId, expiresAt } = uploadTokens.verify(token);
+      expect(consumedUploadTokens.consume).toHaveBeenCalledWith(
+        tokenId,
+        expiresAt
+      );
+    });
+
+    it('should refuse a token that was already used', async () => {
+      consumedUploadTokens.consume.mockResolvedValue(false);
+
+      await expect(
+        fileService.uploadWithToken(issue(), {
+          filename: 'report.pdf',
+          content: Readable.from([pdf]),
+        })
+      ).rejects.toThrow(AuthenticationError);
+      expect(storage.objects.size).toBe(0);
+      expect(fileRepository.createWithinQuota).not.toHaveBeenCalled();
+    });
+
+    it('should reject a different file name', async () => {
+      await expect(
+        fileService.uploadWithToken(issue(), {
+          filename: 'other.pdf',
+          content: Readable.from([pdf]),
+        })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should enforce the size and type bound into the token', async () => {
+      await expect(
+        fileService.uploadWithToken(issue({ maxSize: 100 }), {
+          filename: 'report.pdf',
+          content: Readable.from([pdf]),
+        })
+      ).rejects.toThrow('maximum size of 100 bytes');
+
+      await expect(
+        fileService.uploadWithToken(issue({ mimeType: 'image/gif' }), {
+          filename: 'report.pdf',
+          content: Readable.from([pdf]),
+        })
+      ).rejects.toThrow(UseCaseValidationError);
+
+      expect(storage.objects.size).toBe(0);
+    });
+  });
+
+  describe('storeAssembled', () => {
+    const expected = {
+      mimeType: 'application/pdf',
+      size: pdf.length,
+      checksum: createHash('sha256').update(pdf).digest('hex'),
+    };
+
+    it('should store content that matches the declared checksum', async () => {
+      await fileService.storeAssembled(
+        'user-1',
+        { filename: 'report.pdf', content: Readable.from([pdf]) },
+        { ...expected, checksum: expected.checksum.toUpperCase() }
+      );
+
+      expect(fileRepository.createWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({ checksum: expected.checksum }),
+        quotaBytes
+      );
+    });
+
+    it('should reject content whose checksum differs', async () => {
+      await expect(
+        fileService.storeAssembled(
+          'user-1',
+          { filename: 'report.pdf', content: Readable.from([pdf]) },
+          { ...expected, checksum: 'f'.repeat(64) }
+        )
+      ).rejects.toThrow('Checksum does not match');
+
+      expect(fileRepository.createWithinQuota).not.toHaveBeenCalled();
+      expect(storage.objects.size).toBe(0);
+    });
+  });
+
+  describe('createSignedUpload', () => {
+    const input = {
+      filename: 'report.pdf',
+      mimeType: 'application/pdf',
+      size: 1024,
+    };
+
+    it('should point at the upload endpoint when the driver cannot presign', async () => {
+      const signed = await fileService.createSignedUpload(user, input);
+
+      expect(signed.uploadMethod).toBe('POST');
+      expect(signed.uploadUrl).toBe('/api/v1/files/upload');
+      expect(signed.uploadHeaders).toEqual({
+        'Upload-Token': signed.uploadToken,
+      });
+      expect(uploadTokens.verify(signed.uploadToken!)).toEqual({
+        tokenId: expect.any(String),
+        userId: 'user-1',
+        fileName: 'report.pdf',
+        maxSize: 1024,
+        mimeType: 'application/pdf',
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it('should presign a PUT to a staging key when the driver supports it', async () => {
+      const getSignedUrl = jest
+        .fn()
+        .mockImplementation(
+          async (key, method) => `https://s3/${key}?${method}`
+        );
+      Object.assign(storage, { getSignedUrl });
+
+      const signed = await fileService.createSignedUpload(user, input);
+
+      expect(signed.storageKey).toMatch(/^direct\/user-1\//);
+      expect(getSignedUrl).toHaveBeenCalledWith(signed.storageKey, 'PUT', {
+        expiresIn: 900,
+        contentType: 'application/pdf',
+        contentLength: 1024,
+      });
+      expect(signed.uploadMethod).toBe('PUT');
+      expect(signed.uploadUrl).toBe(`https://s3/${signed.storageKey}?PUT`);
+      expect(getSignedUrl).not.toHaveBeenCalledWith(
+        expect.anything(),
+        'GET',
+        expect.anything()
+      );
+      expect(signed.finalizeUrl).toBe('/api/v1/files/signed-url/finalize');
+      expect(signed.uploadToken).toBeUndefined();
+      expect(signed.uploadHeaders).toEqual({
+        'Content-Type': 'application/pdf',
+        'Content-Length': '1024',
+      });
+    });
+
+    it('should reject declared types and sizes outside the limits', async () => {
+      await expect(
+        fileService.createSignedUpload(user, {
+          filename: 'doc.pdf',
+          mimeType: 'application/pdf',
+          size: 10_000,
+        })
+      ).rejects.toThrow(UseCaseValidationError);
+    });
+  });
+
+  describe('finalizeSignedUpload', () => {
+    const storageKey = 'direct/user-1/3f2b8c1e-4d5a-4b6c-9e7f-0a1b2c3d4e5f';
+
+    it('should store the staged content as a file pending its scan', async () => {
+      storage.objects.set(storageKey, pdf);
+
+      await fileService.finalizeSignedUpload(user, {
+        storageKey,
+        filename: 'report.pdf',
+      });
+
+      expect(fileRepository.createWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ownerId: 'user-1',
+          mimeType: 'application/pdf',
+          size: pdf.length,
+          storageKey: expect.not.stringMatching(/^direct\//),
+        }),
+        quotaBytes
+      );
+      expect(storage.objects.has(storageKey)).toBe(false);
+    });
+
+    it('should reject and remove content that fails inspection', async () => {
+      storage.objects.set(storageKey, Buffer.from('#!/bin/sh\necho hi\n'));
+
+      await expect(
+        fileService.finalizeSignedUpload(user, {
+          storageKey,
+          filename: 'report.pdf',
+        })
+      ).rejects.toThrow(UseCaseValidationError);
+      expect(fileRepository.createWithinQuota).not.toHaveBeenCalled();
+      expect(storage.objects.size).toBe(0);
+    });
+
+    it.each([
+      'direct/user-2/3f2b8c1e-4d5a-4b6c-9e7f-0a1b2c3d4e5f',
+      'user-1/direct/3f2b8c1e-4d5a-4b6c-9e7f-0a1b2c3d4e5f',
+      'user-1/3f2b8c1e-4d5a-4b6c-9e7f-0a1b2c3d4e5f',
+    ])('should refuse to finalize %s', async key => {
+      storage.objects.set(key, pdf);
+
+      await expect(
+        fileService.finalizeSignedUpload(user, {
+          storageKey: key,
+          filename: 'report.pdf',
+        })
+      ).rejects.toThrow(AuthorizationError);
+      expect(storage.objects.has(key)).toBe(true);
+    });
+
+    it('should report keys nothing was uploaded to as not found', async () => {
+      await expect(
+        fileService.finalizeSignedUpload(user, {
+          storageKey,
+          filename: 'report.pdf',
+        })
+      ).rejects.toThrow(EntityNotFoundError);
+    });
+  });
+
+  describe('download', () => {
+    const file = (status: FileStatus) => ({
+      id: 'file-1',
+      ownerId: 'user-1',
+      storageKey: 'user-1/abc',
+      status,
+      variants: [],
+    });
+
+    beforeEach(() => {
+      storage.objects.set('user-1/abc', pdf);
+    });
+
+    it('should serve files that were scanned clean', async () => {
+      fileRepository.findById.mockResolvedValue(file(FileStatus.CLEAN));
+
+      const { file: view } = await fileService.download('file-1');
+
+      expect(view).not.toHaveProperty('storageKey');
+    });
+
+    it('should refuse files that are not scanned clean', async () => {
+      fileRepository.findById.mockResolvedValue(file(FileStatus.PENDING_SCAN));
+      await expect(fileService.download('file-1')).rejects.toThrow(
+        ResourceNotAvailableError
+      );
+
+      fileRepository.findById.mockResolvedValue(file(FileStatus.QUARANTINED));
+      await expect(fileService.download('file-1')).rejects.toThrow(
+        'quarantined'
+      );
+
+      fileRepository.findById.mockResolvedValue(file(FileStatus.SCAN_FAILED));
+      await expect(fileService.download('file-1')).rejects.toThrow(
+        'could not be scanned'
+      );
+    });
+  });
+
+  describe('createSignedDownload', () => {
+    const file = (status = FileStatus.CLEAN) => ({
+      id: 'file-1',
+      ownerId: 'user-1',
+      originalName: 'report.pdf',
+      mimeType: 'application/pdf',
+      storageKey: 'user-1/abc',
+      status,
+      variants: [],
+    });
+
+    it('should presign a GET that sends the type and file name', async () => {
+      fileRepository.findById.mockResolvedValue(file());
+      const getSignedUrl = jest
+        .fn()
+        .mockImplementation(
+          async (key, method) => `https://s3/${key}?${method}`
+        );
+      Object.assign(storage, { getSignedUrl });
+
+      const signed = await fileService.createSignedDownload('file-1');
+
+      expect(getSignedUrl).toHaveBeenCalledWith('user-1/abc', 'GET', {
+        expiresIn: 900,
+        contentType: 'application/pdf',
+        contentDisposition: expect.stringContaining('filename="report.pdf"'),
+      });
+      expect(signed).toEqual({
+        downloadUrl: 'https://s3/user-1/abc?GET',
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it('should point at the download endpoint when the driver cannot presign', async () => {
+      fileRepository.findById.mockResolvedValue(file());
+
+      const signed = await fileService.createSignedDownload('file-1');
+
+      expect(signed.downloadUrl).toBe('/api/v1/files/file-1/download');
+    });
+
+    it('should refuse files that are not scanned clean', async () => {
+      fileRepository.findById.mockResolvedValue(file(FileStatus.PENDING_SCAN));
+
+      await expect(fileService.createSignedDownload('file-1')).rejects.toThrow(
+        ResourceNotAvailableError
+      );
+    });
+  });
+
+  describe('downloadVariant', () => {
+    const file = (isPublic: boolean, status = FileStatus.CLEAN) => ({
+      id: 'file-1',
+      ownerId: 'user-2',
+      isPublic,
+      status,
+      variants: [{ name: 'medium', storageKey: 'user-2/abc-medium.webp' }],
+    });
+
+    beforeEach(() => {
+      storage.objects.set('user-2/abc-medium.webp', pdf);
+    });
+
+    it('should serve variants of public files without login', async () => {
+      fileRepository.findById.mockResolvedValue(file(true));
+
+      const { variant } = await fileService.downloadVariant(
+        undefined,
+        'file-1',
+        'medium'
+      );
+
+      expect(variant.name).toBe('medium');
+    });
+
+    it('should hide private files from other users', async () => {
+      fileRepository.findById.mockResolvedValue(file(false));
+
+      await expect(
+        fileService.downloadVariant(user, 'file-1', 'medium')
+      ).rejects.toThrow(EntityNotFoundError);
+      await expect(
+        fileService.downloadVariant(undefined, 'file-1', 'medium')
+      ).rejects.toThrow(EntityNotFoundError);
+    });
+
+    it('should refuse variants of unscanned files', async () => {
+      fileRepository.findById.mockResolvedValue(
+        file(true, FileStatus.PENDING_SCAN)
+      );
+
+      await expect(
+        fileService.downloadVariant(undefined, 'file-1', 'medium')
+      ).rejects.toThrow(ResourceNotAvailableError);
+    });
+
+    it('should throw for unknown variants', async () => {
+      fileRepository.findById.mockResolvedValue(file(true));
+
+      await expect(
+        fileService.downloadVariant(undefined, 'file-1', 'huge')
+      ).rejects.toThrow(EntityNotFoundError);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete metadata and content', async () => {
+      storage.objects.set('user-1/abc-original.webp', pdf);
+      storage.objects.set('user-1/abc-thumbnail.webp', pdf);
+      fileRepository.findById.mockResolvedValue({
+        id: 'file-1',
+        storageKey: 'user-1/abc-original.webp',
+        variants: [
+          { storageKey: 'user-1/abc-original.webp' },
+          { storageKey: 'user-1/abc-thumbnail.webp' },
+        ],
+      });
+
+      await fileService.delete('file-1');
+
+      expect(fileRepository.delete).toHaveBeenCalledWith('file-1');
+      expect(storage.objects.size).toBe(0);
+    });
+
+    it('should throw when the file does not exist', async () => {
+      fileRepository.findById.mockResolvedValue(null);
+
+      await expect(fileService.delete('missing')).rejects.toThrow(
+        EntityNotFoundError
+      );
+    });
+  });
+});
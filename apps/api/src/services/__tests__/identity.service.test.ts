@@ -0,0 +1,116 @@
+import {
+  IdentityService,
+  IdentityServiceDependencies,
+} from '../identity.service';
+import { AuthenticationError } from '../../shared/infrastructure/errors';
+
+describe('IdentityService', () => {
+  let userRepository: Record<string, jest.Mock>;
+  let createUserWithProfile: jest.Mock;
+  let identityService: IdentityService;
+
+  const identity = {
+    uid: 'firebase-uid',
+    email: 'test@example.com',
+    emailVerified: true,
+    name: 'Test User',
+  };
+
+  const createUser = (overrides = {}) => ({
+    id: 'user-1',
+    email: 'test@example.com',
+    role: 'USER',
+    isActive: true,
+    firebaseUid: 'firebase-uid',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    userRepository = {
+      findByFirebaseUid: jest.fn().mockResolvedValue(null),
+      findByEmail: jest.fn().mockResolvedValue(null),
+      update: jest.fn(),
+    };
+    createUserWithProfile = jest.fn();
+    identityService = new IdentityService({
+      userRepository,
+      createUserWithProfile,
+    } as unknown as IdentityServiceDependencies);
+  });
+
+  it('should return the user linked to the identity', async () => {
+    const user = createUser();
+    userRepository.findByFirebaseUid.mockResolvedValue(user);
+
+    await expect(identityService.resolveUser(identity)).resolves.toBe(user);
+    expect(createUserWithProfile).not.toHaveBeenCalled();
+  });
+
+  it('should provision unknown identities on first login', async () => {
+    const user = createUser();
+    createUserWithProfile.mockResolvedValue({ user, profile: null });
+
+    await expect(identityService.resolveUser(identity)).resolves.toBe(user);
+    expect(createUserWithProfile).toHaveBeenCalledWith({
+      firebaseUid: 'firebase-uid',
+      email: 'test@example.com',
+      name: 'Test User',
+      role: 'USER',
+    });
+  });
+
+  it('should recover when a concurrent request provisioned the user', async () => {
+    const user = createUser();
+    createUserWithProfile.mockRejectedValue(
+      Object.assign(new Error('Unique constraint failed'), {
+        name: 'PrismaClientKnownRequestError',
+        code: 'P2002',
+      })
+    );
+    userRepository.findByFirebaseUid
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(user);
+
+    await expect(identityService.resolveUser(identity)).resolves.toBe(user);
+  });
+
+  it('should link an existing account with a verified email', async () => {
+    const linked = createUser();
+    userRepository.findByEmail.mockResolvedValue(
+      createUser({ firebaseUid: null })
+    );
+    userRepository.update.mockResolvedValue(linked);
+
+    await expect(identityService.resolveUser(identity)).resolves.toBe(linked);
+    expect(userRepository.update).toHaveBeenCalledWith('user-1', {
+      firebaseUid: 'firebase-uid',
+    });
+  });
+
+  it('should not link an existing account with an unverified email', async () => {
+    userRepository.findByEmail.mockResolvedValue(
+      createUser({ firebaseUid: null })
+    );
+
+    await expect(
+      identityService.resolveUser({ ...identity, emailVerified: false })
+    ).rejects.toBeInstanceOf(AuthenticationError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject identities without an email', async () => {
+    await expect(
+      identityService.resolveUser({ ...identity, email: undefined })
+    ).rejects.toThrow('ID token does not contain an email');
+  });
+
+  it('should reject deactivated users', async () => {
+    userRepository.findByFirebaseUid.mockResolvedValue(
+      createUser({ isActive: false })
+    );
+
+    await expect(identityService.resolveUser(identity)).rejects.toThrow(
+      'Account is disabled'
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { ContentStatus, UserRole } from '@template/types';
+
+import { PostService, PostServiceDependencies } from '../post.service';
+import {
+  EntityNotFoundError,
+  InvalidEntityStateError,
+} from '../../shared/infrastructure/errors';
+
+describe('PostService', () => {
+  let postRepository: Record<string, jest.Mock>;
+  let postService: PostService;
+
+  const author = { id: 'user-1', email: 'a@example.com', role: UserRole.USER };
+  const other = { id: 'user-2', email: 'b@example.com', role: UserRole.USER };
+
+  const createPost = (overrides = {}) => ({
+    id: 'post-1',
+    title: 'Title',
+    content: 'Content',
+    published: false,
+    authorId: 'user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    author: { id: 'user-1', name: 'Author' },
+    _count: { comments: 2 },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    postRepository = {
+      findById: jest.fn(),
+      findMany: jest.fn().mockResolvedValue({
+        data: [],
+        page: 1,
+        limit: 20,
+        total: 0,
+      }),
+      create: jest.fn(),
+      update: jest.fn(),
+      setPublished: jest.fn(),
+      delete: jest.fn(),
+    };
+    postService = new PostService({
+      postRepository,
+    } as unknown as PostServiceDependencies);
+  });
+
+  describe('list', () => {
+    it('should only list published posts for other users', async () => {
+      await postService.list(
+        other,
+        { authorId: 'user-1', published: false },
+        {}
+      );
+
+      expect(postRepository.findMany).toHaveBeenCalledWith(
+        { authorId: 'user-1', published: true },
+        {},
+        undefined
+      );
+    });
+
+    it('should let authors list their own drafts', async () => {
+      await postService.list(
+        author,
+        { authorId: 'user-1', published: false },
+        { page: 2, limit: 5 }
+      );
+
+      expect(postRepository.findMany).toHaveBeenCalledWith(
+        { authorId: 'user-1', published: false },
+        { page: 2, limit: 5 },
+        undefined
+      );
+    });
+
+    it('should pass the requested sort to the repository', async () => {
+      const sort = [{ field: 'title', order: 'asc' as const }];
+
+      await postService.list(author, {}, {}, sort);
+
+      expect(postRepository.findMany).toHaveBeenCalledWith(
+        { published: true },
+        {},
+        sort
+      );
+    });
+
+    it('should include comment counts', async () => {
+      postRepository.findMany.mockResolvedValue({
+        data: [createPost({ published: true })],
+        page: 1,
+        limit: 20,
+        total: 1,
+      });
+
+      const result = await postService.list(undefined, {}, {});
+
+      expect(result.data[0].commentCount).toBe(2);
+      expect(result.data[0]).not.toHaveProperty('_count');
+      expect(result.meta.total).toBe(1);
+    });
+  });
+
+  describe('get', () => {
+    it('should hide drafts from other users', async () => {
+      postRepository.findById.mockResolvedValue(createPost());
+
+      await expect(postService.get(other, 'post-1')).rejects.toBeInstanceOf(
+        EntityNotFoundError
+      );
+      await expect(postService.get(undefined, 'post-1')).rejects.toBeInstanceOf(
+        EntityNotFoundError
+      );
+      await expect(postService.get(author, 'post-1')).resolves.toMatchObject({
+        id: 'post-1',
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should create a draft owned by the author', async () => {
+      postRepository.create.mockResolvedValue(createPost());
+
+      await postService.create(author, {
+        title: 'Title',
+        content: 'Content',
+        status: ContentStatus.DRAFT,
+      });
+
+      expect(postRepository.create).toHaveBeenCalledWith({
+        title: 'Title',
+        content: 'Content',
+        published: false,
+        authorId: 'user-1',
+      });
+    });
+
+    it('should reject archived posts', async () => {
+      await expect(
+        postService.create(author, {
+          title: 'Title',
+          content: 'Content',
+          status: ContentStatus.ARCHIVED,
+        })
+      ).rejects.toBeInstanceOf(InvalidEntityStateError);
+    });
+  });
+
+  describe('publish', () => {
+    it('should publish a draft', async () => {
+      postRepository.findById.mockResolvedValue(createPost());
+      postRepository.setPublished.mockResolvedValue(
+        createPost({ published: true })
+      );
+
+      await postService.publish('post-1');
+
+      expect(postRepository.setPublished).toHaveBeenCalledWith('post-1', true);
+    });
+
+    it('should not publish a published post again', async () => {
+      postRepository.findById.mockResolvedValue(
+        createPost({ published: true })
+      );
+
+      await expect(postService.publish('post-1')).rejects.toBeInstanceOf(
+        InvalidEntityStateError
+      );
+      expect(postRepository.setPublished).not.toHaveBeenCalled();
+    });
+
+    it('should not unpublish a draft', async () => {
+      postRepository.findById.mockResolvedValue(createPost());
+
+      await expect(postService.unpublish('post-1')).rejects.toBeInstanceOf(
+        InvalidEntityStateError
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should throw when the post does not exist', async () => {
+      postRepository.findById.mockResolvedValue(null);
+
+      await expect(postService.delete('missing')).rejects.toBeInstanceOf(
+        EntityNotFoundError
+      );
+      expect(postRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  RetentionService,
+  RetentionServiceDependencies,
+} from '../retention.service';
+
+describe('RetentionService', () => {
+  const purgeDeletedBefore = (count: number) =>
+    jest.fn().mockResolvedValue(count);
+
+  let deps: RetentionServiceDependencies;
+  let retentionService: RetentionService;
+
+  beforeEach(() => {
+    deps = {
+      userRepository: { purgeDeletedBefore: purgeDeletedBefore(1) },
+      postRepository: { purgeDeletedBefore: purgeDeletedBefore(2) },
+      commentRepository: { purgeDeletedBefore: purgeDeletedBefore(3) },
+      retentionDays: 30,
+    };
+    retentionService = new RetentionService(deps);
+  });
+
+  it('should purge rows deleted before the retention period', async () => {
+    const now = new Date('2024-03-31T00:00:00.000Z');
+    const before = new Date('2024-03-01T00:00:00.000Z');
+
+    const result = await retentionService.purgeExpired(now);
+
+    expect(deps.commentRepository.purgeDeletedBefore).toHaveBeenCalledWith(
+      before
+    );
+    expect(deps.postRepository.purgeDeletedBefore).toHaveBeenCalledWith(before);
+    expect(deps.userRepository.purgeDeletedBefore).toHaveBeenCalledWith(before);
+    expect(result).toEqual({ comments: 3, posts: 2, users: 1 });
+  });
+
+  it('should purge children before their parents', async () => {
+    const order: string[] = [];
+    for (const [name, repository] of Object.entries({
+      users: deps.userRepository,
+      posts: deps.postRepository,
+      comments: deps.commentRepository,
+    })) {
+      (repository.purgeDeletedBefore as jest.Mock).mockImplementation(
+        async () => {
+          order.push(name);
+          return 0;
+        }
+      );
+    }
+
+    await retentionService.purgeExpired();
+
+    expect(order).toEqual(['comments', 'posts', 'users']);
+  });
+});
@@ -0,0 +1,98 @@
+import { SessionService, SessionServiceDependencies } from '../session.service';
+import { EntityNotFoundError } from '../../shared/infrastructure/errors';
+
+describe('SessionService', () => {
+  let sessionRepository: Record<string, jest.Mock>;
+  let sessionService: SessionService;
+
+  const createSession = (overrides = {}) => ({
+    id: 'session-1',
+    userId: 'user-1',
+    ipAddress: '127.0.0.1',
+    userAgent: 'jest',
+    issuedAt: new Date(),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    sessionRepository = {
+      findById: jest.fn(),
+      findActiveByUser: jest.fn(),
+      revoke: jest.fn(),
+      revokeAllExcept: jest.fn(),
+    };
+    sessionService = new SessionService({
+      sessionRepository,
+    } as unknown as SessionServiceDependencies);
+  });
+
+  describe('listActive', () => {
+    it('should mark the current session', async () => {
+      sessionRepository.findActiveByUser.mockResolvedValue([
+        createSession(),
+        createSession({ id: 'session-2' }),
+      ]);
+
+      const result = await sessionService.listActive('user-1', 'session-2');
+
+      expect(sessionRepository.findActiveByUser).toHaveBeenCalledWith('user-1');
+      expect(result.map(s => [s.id, s.current])).toEqual([
+        ['session-1', false],
+        ['session-2', true],
+      ]);
+      expect(result[0]).not.toHaveProperty('userId');
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke a session owned by the user', async () => {
+      sessionRepository.findById.mockResolvedValue(createSession());
+
+      await sessionService.revoke('user-1', 'session-1');
+
+      expect(sessionRepository.revoke).toHaveBeenCalledWith('session-1');
+    });
+
+    it("should not revoke another user's session", async () => {
+      sessionRepository.findById.mockResolvedValue(
+        createSession({ userId: 'user-2' })
+      );
+
+      await expect(
+        sessionService.revoke('user-1', 'session-1')
+      ).rejects.toBeInstanceOf(EntityNotFoundError);
+      expect(sessionRepository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown or already revoked sessions', async () => {
+      sessionRepository.findById.mockResolvedValueOnce(null);
+      sessionRepository.findById.mockResolvedValueOnce(
+        createSession({ revokedAt: new Date() })
+      );
+
+      await expect(
+        sessionService.revoke('user-1', 'missing')
+      ).rejects.toBeInstanceOf(EntityNotFoundError);
+      await expect(
+        sessionService.revoke('user-1', 'session-1')
+      ).rejects.toBeInstanceOf(EntityNotFoundError);
+    });
+  });
+
+  describe('revokeOthers', () => {
+    it('should keep the current session', async () => {
+      sessionRepository.revokeAllExcept.mockResolvedValue(2);
+
+      const result = await sessionService.revokeOthers('user-1', 'session-1');
+
+      expect(sessionRepository.revokeAllExcept).toHaveBeenCalledWith(
+        'user-1',
+        'session-1'
+      );
+      expect(result).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { Readable } from 'stream';
+
+import { UserRole } from '@template/types';
+
+import {
+  UploadSessionService,
+  UploadSessionServiceDependencies,
+} from '../upload-session.service';
+import {
+  ConflictError,
+  EntityNotFoundError,
+  UseCaseValidationError,
+} from '../../shared/infrastructure/errors';
+
+describe('UploadSessionService', () => {
+  let uploadSessionRepository: Record<string, jest.Mock>;
+  let storage: Record<string, jest.Mock | number>;
+  let files: Record<string, jest.Mock>;
+  let service: UploadSessionService;
+
+  const owner = { id: 'user-1', email: 'a@example.com', role: UserRole.USER };
+  const checksum = 'a'.repeat(64);
+
+  const session = (overrides: Record<string, unknown> = {}) => ({
+    id: 'session-1',
+    ownerId: 'user-1',
+    fileName: 'report.pdf',
+    mimeType: 'application/pdf',
+    size: 10,
+    offset: 0,
+    parts: [],
+    storageKey: 'user-1/key',
+    uploadId: 'upload-1',
+    expiresAt: new Date(Date.now() + 60_000),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    uploadSessionRepository = {
+      findById: jest.fn().mockResolvedValue(session()),
+      create: jest.fn(async data => session(data)),
+      advance: jest.fn().mockResolvedValue(true),
+      delete: jest.fn(),
+      findExpired: jest.fn().mockResolvedValue([]),
+    };
+    storage = {
+      minChunkSize: 4,
+      createChunkedUpload: jest.fn().mockResolvedValue('upload-1'),
+      uploadChunk: jest.fn(async (_key, _id, number) => ({ number })),
+      completeChunkedUpload: jest.fn(),
+      abortChunkedUpload: jest.fn(),
+      get: jest.fn().mockResolvedValue(Readable.from(['assembled'])),
+      delete: jest.fn(),
+    };
+    files = {
+      storeAssembled: jest.fn().mockResolvedValue({ id: 'file-1' }),
+      assertWithinQuota: jest.fn(),
+    };
+    service = new UploadSessionService({
+      uploadSessionRepository,
+      storage,
+      files,
+      limits: {
+        allowedMimeTypes: ['application/pdf'],
+        maxFileSize: 100,
+        maxChunkSize: 8,
+        sessionTtl: 3600,
+      },
+    } as unknown as UploadSessionServiceDependencies);
+  });
+
+  describe('create', () => {
+    it('should start a chunked upload that expires after the TTL', async () => {
+      const result = await service.create(owner, {
+        filename: 'report.pdf',
+        mimeType: 'application/pdf',
+        size: 10,
+      });
+
+      const data = uploadSessionRepository.create.mock.calls[0][0];
+      expect(data.storageKey).toMatch(/^user-1\//);
+      expect(storage.createChunkedUpload).toHaveBeenCalledWith(data.storageKey);
+      expect(data.uploadId).toBe('upload-1');
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now() + 3599_000);
+      expect(result).not.toHaveProperty('storageKey');
+      expect(files.assertWithinQuota).toHaveBeenCalledWith('user-1', 10);
+    });
+
+    it('should reject disallowed types and oversized files', async () => {
+      await expect(
+        service.create(owner, {
+          filename: 'a.exe',
+          mimeType: 'application/x-msdownload',
+          size: 1000,
+        })
+      ).rejects.toBeInstanceOf(UseCaseValidationError);
+      expect(storage.createChunkedUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('find', () => {
+    it('should treat expired sessions as missing', async () => {
+      uploadSessionRepository.findById.mockResolvedValue(
+        session({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      expect(await service.find('session-1')).toBeNull();
+      await expect(service.get('session-1')).rejects.toBeInstanceOf(
+        EntityNotFoundError
+      );
+    });
+  });
+
+  describe('appendChunk', () => {
+    it('should store the chunk as the next part and advance the offset', async () => {
+      uploadSessionRepository.findById.mockResolvedValue(
+        session({ offset: 4, parts: [{ number: 1 }] })
+      );
+
+      const result = await service.appendChunk(
+        'session-1',
+        4,
+        Buffer.from('abcdef')
+      );
+
+      expect(storage.uploadChunk).toHaveBeenCalledWith(
+        'user-1/key',
+        'upload-1',
+        2,
+        Buffer.from('abcdef')
+      );
+      expect(uploadSessionRepository.advance).toHaveBeenCalledWith(
+        'session-1',
+        4,
+        10,
+        [{ number: 1 }, { number: 2 }]
+      );
+      expect(result.offset).toBe(10);
+    });
+
+    it('should reject a chunk at the wrong offset', async () => {
+      await expect(
+        service.appendChunk('session-1', 4, Buffer.from('abcd'))
+      ).rejects.toBeInstanceOf(ConflictError);
+      expect(storage.uploadChunk).not.toHaveBeenCalled();
+    });
+
+    it('should reject small non-final chunks and chunks past the end', async () => {
+      await expect(
+        service.appendChunk('session-1', 0, Buffer.from('ab'))
+      ).rejects.toBeInstanceOf(UseCaseValidationError);
+
+      uploadSessionRepository.findById.mockResolvedValue(
+        session({ offset: 8 })
+      );
+      await expect(
+        service.appendChunk('session-1', 8, Buffer.from('abc'))
+      ).rejects.toBeInstanceOf(UseCaseValidationError);
+    });
+
+    it('should fail when a concurrent request moved the offset', async () => {
+      uploadSessionRepository.advance.mockResolvedValue(false);
+
+      await expect(
+        service.appendChunk('session-1', 0, Buffer.from('abcd'))
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('complete', () => {
+    it('should refuse to complete before all bytes arrived', async () => {
+      await expect(
+        service.complete('session-1', checksum)
+      ).rejects.toBeInstanceOf(ConflictError);
+      expect(storage.completeChunkedUpload).not.toHaveBeenCalled();
+    });
+
+    it('should store the assembled content with the expected checksum', async () => {
+      uploadSessionRepository.findById.mockResolvedValue(
+        session({ offset: 10, parts: [{ number: 1 }] })
+      );
+
+      const result = await service.complete('session-1', checksum);
+
+      expect(storage.completeChunkedUpload).toHaveBeenCalledWith(
+        'user-1/key',
+        'upload-1',
+        [{ number: 1 }]
+      );
+      expect(files.storeAssembled).toHaveBeenCalledWith(
+        'user-1',
+        { filename: 'report.pdf', content: expect.any(Readable) },
+        { mimeType: 'application/pdf', size: 10, checksum }
+      );
+      expect(result).toEqual({ id: 'file-1' });
+      expect(storage.delete).toHaveBeenCalledWith('user-1/key');
+      expect(uploadSessionRepository.delete).toHaveBeenCalledWith('session-1');
+    });
+
+    it('should end the session even when the content is rejected', async () => {
+      uploadSessionRepository.findById.mockResolvedValue(
+        session({ offset: 10 })
+      );
+      files.storeAssembled.mockRejectedValue(
+        new UseCaseValidationError('FileUpload', ['Checksum does not match'])
+      );
+
+      await expect(
+        service.complete('session-1', checksum)
+      ).rejects.toBeInstanceOf(UseCaseValidationError);
+      expect(storage.delete).toHaveBeenCalledWith('user-1/key');
+      expect(uploadSessionRepository.delete).toHaveBeenCalledWith('session-1');
+    });
+  });
+
+  describe('expireSessions', () => {
+    it('should abort expired sessions', async () => {
+      uploadSessionRepository.findExpired.mockResolvedValue([
+        session({ id: 'old-1' }),
+        session({ id: 'old-2', uploadId: 'upload-2' }),
+      ]);
+      const now = new Date();
+
+      expect(await service.expireSessions(now)).toBe(2);
+      expect(uploadSessionRepository.findExpired).toHaveBeenCalledWith(now);
+      expect(storage.abortChunkedUpload).toHaveBeenCalledWith(
+        'user-1/key',
+        'upload-2'
+      );
+      expect(uploadSessionRepository.delete).toHaveBeenCalledWith('old-2');
+    });
+  });
+});
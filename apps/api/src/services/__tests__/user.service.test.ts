@@ -0,0 +1,296 @@
+import { FileStatus, UserRole } from '@template/types';
+
+import { UserService, UserServiceDependencies } from '../user.service';
+import {
+  AuthorizationError,
+  BusinessRuleValidationError,
+  ConflictError,
+  DuplicateEntityError,
+  EntityNotFoundError,
+  ResourceNotAvailableError,
+} from '../../shared/infrastructure/errors';
+
+describe('UserService', () => {
+  let userRepository: Record<string, jest.Mock>;
+  let fileRepository: Record<string, jest.Mock>;
+  let userService: UserService;
+
+  const admin = {
+    id: 'admin-1',
+    email: 'admin@example.com',
+    role: UserRole.ADMIN,
+  };
+  const member = {
+    id: 'user-1',
+    email: 'test@example.com',
+    role: UserRole.USER,
+  };
+
+  const createUser = (overrides = {}) => ({
+    id: 'user-1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'USER',
+    isActive: true,
+    firebaseUid: 'firebase-uid',
+    passwordHash: 'hash',
+    lastLoginAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: 1,
+    profile: null,
+    posts: [],
+    comments: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    userRepository = {
+      findMany: jest.fn(),
+      findById: jest.fn(),
+      isEmailTaken: jest.fn().mockResolvedValue(false),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    fileRepository = {
+      findById: jest.fn(),
+      setPublic: jest.fn(),
+    };
+    userService = new UserService({
+      userRepository,
+      fileRepository,
+    } as unknown as UserServiceDependencies);
+  });
+
+  describe('list', () => {
+    it('should pass filters through and build pagination meta', async () => {
+      userRepository.findMany.mockResolvedValue({
+        data: [createUser()],
+        page: 2,
+        limit: 1,
+        total: 3,
+      });
+
+      const result = await userService.list(
+        { role: 'USER', isActive: true },
+        { page: 2, limit: 1 },
+        [{ field: 'email', order: 'asc' }]
+      );
+
+      expect(userRepository.findMany).toHaveBeenCalledWith(
+        { role: 'USER', isActive: true },
+        { page: 2, limit: 1 },
+        [{ field: 'email', order: 'asc' }]
+      );
+      expect(result.meta).toMatchObject({
+        page: 2,
+        total: 3,
+        totalPages: 3,
+        hasNext: true,
+        hasPrev: true,
+      });
+      expect(result.data[0]).not.toHaveProperty('passwordHash');
+      expect(result.data[0]).not.toHaveProperty('posts');
+    });
+  });
+
+  describe('get', () => {
+    it('should throw when the user does not exist', async () => {
+      userRepository.findById.mockResolvedValue(null);
+
+      await expect(userService.get('missing')).rejects.toBeInstanceOf(
+        EntityNotFoundError
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should create the user with a profile', async () => {
+      userRepository.create.mockResolvedValue(createUser());
+
+      await userService.create({
+        email: 'test@example.com',
+        role: UserRole.USER,
+        profileData: {
+          firstName: '太郎',
+          lastName: '山田',
+          bio: 'Hello',
+          location: { city: 'Shibuya', country: 'Japan' },
+        },
+      });
+
+      expect(userRepository.create).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        role: 'USER',
+        name: '山田 太郎',
+        profile: {
+          create: {
+            bio: 'Hello',
+            avatarUrl: undefined,
+            website: undefined,
+            location: 'Shibuya, Japan',
+          },
+        },
+      });
+    });
+
+    it('should reject an email that is already taken', async () => {
+      userRepository.isEmailTaken.mockResolvedValue(true);
+
+      await expect(
+        userService.create({
+          email: 'test@example.com',
+          role: UserRole.USER,
+          profileData: {},
+        })
+      ).rejects.toBeInstanceOf(DuplicateEntityError);
+      expect(userRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      userRepository.findById.mockResolvedValue(createUser());
+      userRepository.update.mockResolvedValue(createUser());
+    });
+
+    it('should not let users change their own role', async () => {
+      await expect(
+        userService.update(member, 'user-1', { role: UserRole.ADMIN })
+      ).rejects.toBeInstanceOf(AuthorizationError);
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should let admins change roles', async () => {
+      await userService.update(admin, 'user-1', { role: UserRole.ADMIN });
+
+      expect(userRepository.update).toHaveBeenCalledWith(
+        'user-1',
+        { email: undefined, role: 'ADMIN' },
+        undefined
+      );
+    });
+
+    it('should only update at the expected version', async () => {
+      await userService.update(member, 'user-1', { email: undefined }, [1]);
+
+      expect(userRepository.update).toHaveBeenCalledWith(
+        'user-1',
+        { email: undefined, role: undefined },
+        1
+      );
+    });
+
+    it('should refuse when the user has moved on to another version', async () => {
+      await expect(
+        userService.update(member, 'user-1', { email: undefined }, [0])
+      ).rejects.toBeInstanceOf(ConflictError);
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should check email uniqueness excluding the user', async () => {
+      await userService.update(member, 'user-1', {
+        email: 'new@example.com',
+      });
+
+      expect(userRepository.isEmailTaken).toHaveBeenCalledWith(
+        'new@example.com',
+        'user-1'
+      );
+    });
+
+    it('should upsert the profile', async () => {
+      await userService.update(member, 'user-1', {
+        profileData: { displayName: 'Taro', bio: 'Updated' },
+      });
+
+      const profile = {
+        bio: 'Updated',
+        avatarUrl: undefined,
+        website: undefined,
+        location: undefined,
+      };
+      expect(userRepository.update).toHaveBeenCalledWith(
+        'user-1',
+        {
+          email: undefined,
+          role: undefined,
+          name: 'Taro',
+          profile: { upsert: { create: profile, update: profile } },
+        },
+        undefined
+      );
+    });
+  });
+
+  describe('setAvatar', () => {
+    const image = {
+      id: 'file-1',
+      ownerId: 'user-1',
+      isPublic: false,
+      status: FileStatus.CLEAN,
+      variants: [{ name: 'thumbnail' }, { name: 'medium' }],
+    };
+
+    beforeEach(() => {
+      userRepository.findById.mockResolvedValue(createUser());
+      userRepository.update.mockResolvedValue(createUser());
+    });
+
+    it('should publish the image and point avatarUrl at its medium variant', async () => {
+      fileRepository.findById.mockResolvedValue(image);
+
+      await userService.setAvatar('user-1', 'file-1');
+
+      const avatarUrl = '/api/v1/files/file-1/variants/medium';
+      expect(fileRepository.setPublic).toHaveBeenCalledWith('file-1', true);
+      expect(userRepository.update).toHaveBeenCalledWith('user-1', {
+        profile: { upsert: { create: { avatarUrl }, update: { avatarUrl } } },
+      });
+    });
+
+    it("should reject another user's file", async () => {
+      fileRepository.findById.mockResolvedValue({
+        ...image,
+        ownerId: 'user-2',
+      });
+
+      await expect(userService.setAvatar('user-1', 'file-1')).rejects.toThrow(
+        AuthorizationError
+      );
+      expect(fileRepository.setPublic).not.toHaveBeenCalled();
+    });
+
+    it.each([FileStatus.PENDING_SCAN, FileStatus.QUARANTINED])(
+      'should reject %s files',
+      async status => {
+        fileRepository.findById.mockResolvedValue({ ...image, status });
+
+        await expect(userService.setAvatar('user-1', 'file-1')).rejects.toThrow(
+          ResourceNotAvailableError
+        );
+        expect(fileRepository.setPublic).not.toHaveBeenCalled();
+        expect(userRepository.update).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should reject files without image variants', async () => {
+      fileRepository.findById.mockResolvedValue({ ...image, variants: [] });
+
+      await expect(userService.setAvatar('user-1', 'file-1')).rejects.toThrow(
+        BusinessRuleValidationError
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete an existing user', async () => {
+      userRepository.findById.mockResolvedValue(createUser());
+
+      await userService.delete('user-1');
+
+      expect(userRepository.delete).toHaveBeenCalledWith('user-1');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import type {
+  AuditLog,
+  AuditLogFilter,
+  AuditLogRepository,
+} from '@template/database';
+
+import { PaginatedResponse, PaginationUtils } from '../shared/types';
+
+export interface AuditServiceDependencies {
+  auditLogRepository: Pick<AuditLogRepository, 'findMany'>;
+}
+
+/**
+ * Read access to the audit log for administrators
+ */
+export class AuditService {
+  constructor(private readonly deps: AuditServiceDependencies) {}
+
+  /**
+   * List audit entries, newest first
+   */
+  async list(
+    filter: AuditLogFilter,
+    pagination: { page?: number; limit?: number }
+  ): Promise<PaginatedResponse<AuditLog>> {
+    const result = await this.deps.auditLogRepository.findMany(
+      filter,
+      pagination
+    );
+
+    return PaginationUtils.createResponse(
+      result.data,
+      result.page,
+      result.limit,
+      result.total
+    );
+  }
+}
@@ -0,0 +1,241 @@
+import type {
+  RefreshToken,
+  RefreshTokenRepository,
+  SessionRepository,
+  User,
+  UserRepository,
+  UserRole,
+} from '@template/database';
+
+import { AuthenticationError } from '../shared/infrastructure/errors';
+import { CryptoUtils, DateUtils } from '../shared/utils';
+
+/**
+ * Claims carried by an access token
+ */
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  role: UserRole;
+  /**
+   * Session the token was issued for
+   */
+  sid: string;
+}
+
+/**
+ * Authenticated principal attached to `request.user`
+ *
+ * Users signed in with an external ID token have no session.
+ */
+export type AuthenticatedUser = Omit<AccessTokenPayload, 'sid'> & {
+  sid?: string;
+};
+
+/**
+ * Details about the client a session was started from
+ */
+export interface ClientContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Token pair returned to the client
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  /**
+   * Access token lifetime in seconds
+   */
+  expiresIn: number;
+}
+
+/**
+ * User fields that are safe to return to the client
+ */
+export type PublicUser = Pick<User, 'id' | 'email' | 'name' | 'role'>;
+
+export interface AuthServiceDependencies {
+  userRepository: Pick<
+    UserRepository,
+    'findByEmail' | 'findById' | 'updateLastLogin'
+  >;
+  refreshTokenRepository: Pick<
+    RefreshTokenRepository,
+    'create' | 'findByTokenHash' | 'revokeIfActive'
+  >;
+  sessionRepository: Pick<SessionRepository, 'create' | 'touch' | 'revoke'>;
+  signAccessToken: (
+    payload: AccessTokenPayload,
+    options: { expiresIn: string }
+  ) => string;
+  accessTokenExpiresIn: string;
+  refreshTokenExpiresIn: string;
+}
+
+/**
+ * Email/password authentication with rotating refresh tokens
+ *
+ * Each login starts a session, whose refresh tokens form one token family.
+ * `refresh` consumes the presented token and issues the next one in the same
+ * family; presenting an already consumed token is treated as theft and
+ * revokes the whole session.
+ */
+export class AuthService {
+  constructor(private readonly deps: AuthServiceDependencies) {}
+
+  /**
+   * Verify credentials and start a new session
+   */
+  async login(
+    email: string,
+    password: string,
+    client: ClientContext = {}
+  ): Promise<{ user: PublicUser; tokens: AuthTokens }> {
+    const user = await this.deps.userRepository.findByEmail(email);
+
+    const isValid =
+      !!user?.passwordHash &&
+      (await CryptoUtils.verifyPassword(password, user.passwordHash));
+
+    if (!user || !isValid) {
+      throw new AuthenticationError('Invalid email or password');
+    }
+
+    if (!user.isActive) {
+      throw new AuthenticationError('Account is disabled');
+    }
+
+    await this.deps.userRepository.updateLastLogin(user.id);
+
+    const expiresAt = this.getRefreshTokenExpiry();
+    const session = await this.deps.sessionRepository.create({
+      userId: user.id,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt,
+    });
+
+    const tokens = await this.issueTokens(user, session.id, expiresAt);
+    return { user: toPublicUser(user), tokens };
+  }
+
+  /**
+   * Rotate a refresh token and issue a new access token
+   */
+  async refresh(
+    refreshToken: string,
+    client: ClientContext = {}
+  ): Promise<AuthTokens> {
+    const record = await this.findRefreshToken(refreshToken);
+
+    if (record.revokedAt) {
+      await this.deps.sessionRepository.revoke(record.familyId);
+      throw new AuthenticationError('Refresh token reuse detected');
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw new AuthenticationError('Refresh token has expired');
+    }
+
+    // A concurrent refresh may have consumed the token since it was read
+    const claimed = await this.deps.refreshTokenRepository.revokeIfActive(
+      record.id
+    );
+    if (!claimed) {
+      await this.deps.sessionRepository.revoke(record.familyId);
+      throw new AuthenticationError('Refresh token reuse detected');
+    }
+
+    const user = await this.deps.userRepository.findById(record.userId);
+    if (!user || !user.isActive) {
+      await this.deps.sessionRepository.revoke(record.familyId);
+      throw new AuthenticationError('Account is disabled');
+    }
+
+    const expiresAt = this.getRefreshTokenExpiry();
+    await this.deps.sessionRepository.touch(record.familyId, {
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt,
+    });
+
+    return this.issueTokens(user, record.familyId, expiresAt);
+  }
+
+  /**
+   * End the session the refresh token belongs to
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const record = await this.deps.refreshTokenRepository.findByTokenHash(
+      CryptoUtils.sha256(refreshToken)
+    );
+
+    if (record) {
+      await this.deps.sessionRepository.revoke(record.familyId);
+    }
+  }
+
+  private async findRefreshToken(refreshToken: string): Promise<RefreshToken> {
+    const record = await this.deps.refreshTokenRepository.findByTokenHash(
+      CryptoUtils.sha256(refreshToken)
+    );
+
+    if (!record) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    return record;
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    return new Date(
+      Date.now() + DateUtils.parseDuration(this.deps.refreshTokenExpiresIn)
+    );
+  }
+
+  private async issueTokens(
+    user: User,
+    sessionId: string,
+    expiresAt: Date
+  ): Promise<AuthTokens> {
+    const { accessTokenExpiresIn } = this.deps;
+
+    const accessToken = this.deps.signAccessToken(
+      { id: user.id, email: user.email, role: user.role, sid: sessionId },
+      { expiresIn: accessTokenExpiresIn }
+    );
+
+    const refreshToken = CryptoUtils.generateRefreshToken();
+    await this.deps.refreshTokenRepository.create({
+      userId: user.id,
+      familyId: sessionId,
+      tokenHash: CryptoUtils.sha256(refreshToken),
+      expiresAt,
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: Math.floor(
+        DateUtils.parseDuration(accessTokenExpiresIn) / 1000
+      ),
+    };
+  }
+}
+
+/**
+ * Strip credentials and relations from a user record
+ */
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+  };
+}
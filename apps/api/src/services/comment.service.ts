@@ -0,0 +1,107 @@
+import type {
+  CommentRepository,
+  CommentWithAuthor,
+  PostRepository,
+} from '@template/database';
+import { ContentStatus } from '@template/types';
+
+import type { AuthenticatedUser } from './auth.service';
+import { isReadable } from './post.service';
+import {
+  EntityNotFoundError,
+  InvalidEntityStateError,
+} from '../shared/infrastructure/errors';
+import { PaginatedResponse, PaginationUtils } from '../shared/types';
+
+/**
+ * Comment as returned by the API
+ */
+export type CommentView = CommentWithAuthor;
+
+export interface CommentServiceDependencies {
+  postRepository: Pick<PostRepository, 'findById'>;
+  commentRepository: Pick<
+    CommentRepository,
+    'findOnPost' | 'findMany' | 'create' | 'update' | 'delete'
+  >;
+}
+
+/**
+ * Comments on posts
+ */
+export class CommentService {
+  constructor(private readonly deps: CommentServiceDependencies) {}
+
+  /**
+   * Find a comment on a post for policy checks, or null if it does not exist
+   */
+  async find(postId: string, id: string): Promise<CommentView | null> {
+    return this.deps.commentRepository.findOnPost(postId, id);
+  }
+
+  async list(
+    viewer: AuthenticatedUser | undefined,
+    postId: string,
+    pagination: { page?: number; limit?: number }
+  ): Promise<PaginatedResponse<CommentView>> {
+    await this.findReadablePost(viewer, postId);
+
+    const result = await this.deps.commentRepository.findMany(
+      { postId },
+      pagination
+    );
+
+    return PaginationUtils.createResponse(
+      result.data,
+      result.page,
+      result.limit,
+      result.total
+    );
+  }
+
+  /**
+   * Comment on a post; only published posts accept comments
+   */
+  async create(
+    author: AuthenticatedUser,
+    postId: string,
+    content: string
+  ): Promise<CommentView> {
+    const post = await this.findReadablePost(author, postId);
+
+    if (!post.published) {
+      throw new InvalidEntityStateError(
+        'Post',
+        ContentStatus.DRAFT,
+        ContentStatus.PUBLISHED
+      );
+    }
+
+    return this.deps.commentRepository.create({
+      content,
+      postId,
+      authorId: author.id,
+    });
+  }
+
+  async update(id: string, content: string): Promise<CommentView> {
+    return this.deps.commentRepository.update(id, { content });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.deps.commentRepository.delete(id);
+  }
+
+  private async findReadablePost(
+    viewer: AuthenticatedUser | undefined,
+    postId: string
+  ) {
+    const post = await this.deps.postRepository.findById(postId);
+
+    if (!post || !isReadable(viewer, post)) {
+      throw new EntityNotFoundError('Post', postId);
+    }
+
+    return post;
+  }
+}
@@ -0,0 +1,267 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+
+import type {
+  AuditLogRepository,
+  FileRepository,
+  FileVariantData,
+  FileWithVariants,
+} from '@template/database';
+import { FileStatus } from '@template/types';
+
+import { storageKeysOf } from './file.service';
+import { PROCESSABLE_IMAGE_TYPES, processImage } from '../lib/image-processor';
+import type { FileScanner } from '../lib/scanner';
+import type { StorageDriver } from '../lib/storage';
+import { UseCaseValidationError } from '../shared/infrastructure/errors';
+
+export interface FileScanServiceDependencies {
+  fileRepository: Pick<
+    FileRepository,
+    | 'findById'
+    | 'findPendingScan'
+    | 'completeScan'
+    | 'recordScanFailure'
+    | 'delete'
+  >;
+  storage: Pick<StorageDriver, 'get' | 'put' | 'delete'>;
+  scanner: FileScanner;
+  /** Failed scans of a file before it is moved to SCAN_FAILED */
+  maxScanAttempts: number;
+  /** Receives an entry for every quarantined or unscannable file */
+  auditLogRepository: Pick<AuditLogRepository, 'record'>;
+}
+
+/**
+ * Called for each file that could not be scanned
+ */
+export type ScanErrorHandler = (_fileId: string, _error: unknown) => void;
+
+/**
+ * Malware scanning of uploaded files
+ *
+ * Files are stored as PENDING_SCAN and only become downloadable once the
+ * scanner reports them clean. Infected content is moved under `quarantine/`
+ * where no route serves it.
+ *
+ * Files the scanner keeps failing on (e.g. content over clamd's
+ * StreamMaxLength) are given up on after `maxScanAttempts` and stay
+ * unavailable as SCAN_FAILED.
+ *
+ * Clean images are then re-encoded into WebP variants without metadata,
+ * which replace the upload, so untrusted content is never decoded before it
+ * has been scanned.
+ */
+export class FileScanService {
+  constructor(private readonly deps: FileScanServiceDependencies) {}
+
+  /**
+   * Scan a pending file; files that were already scanned are left alone
+   *
+   * @returns the status of the file, or null if it no longer exists (e.g.
+   * an image that could not be decoded)
+   */
+  async scan(id: string): Promise<FileStatus | null> {
+    const file = await this.deps.fileRepository.findById(id);
+
+    if (!file) {
+      return null;
+    }
+    if (file.status !== FileStatus.PENDING_SCAN) {
+      return file.status as FileStatus;
+    }
+
+    return this.attemptScan(file);
+  }
+
+  /**
+   * Scan files that are still waiting, e.g. after a restart or scanner outage
+   *
+   * A file that fails is passed to `onError` and the rest are still scanned.
+   *
+   * @returns the number of files scanned
+   */
+  async scanPending(
+    limit?: number,
+    onError?: ScanErrorHandler
+  ): Promise<number> {
+    const files = await this.deps.fileRepository.findPendingScan(limit);
+    let scanned = 0;
+
+    for (const file of files) {
+      try {
+        await this.attemptScan(file);
+        scanned++;
+      } catch (error) {
+        onError?.(file.id, error);
+      }
+    }
+
+    return scanned;
+  }
+
+  /**
+   * Scan a file, counting the attempt if it fails
+   */
+  private async attemptScan(
+    file: FileWithVariants
+  ): Promise<FileStatus | null> {
+    try {
+      return await this.scanFile(file);
+    } catch (error) {
+      const gaveUp = await this.deps.fileRepository.recordScanFailure(
+        file.id,
+        this.deps.maxScanAttempts
+      );
+      if (gaveUp) {
+        await this.deps.auditLogRepository.record({
+          action: 'file.scan_failed',
+          resource: 'File',
+          resourceId: file.id,
+          metadata: {
+            ownerId: file.ownerId,
+            originalName: file.originalName,
+            checksum: file.checksum,
+            attempts: this.deps.maxScanAttempts,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async scanFile(file: FileWithVariants): Promise<FileStatus | null> {
+    const { fileRepository, storage, scanner } = this.deps;
+    const result = await scanner.scan(await storage.get(file.storageKey));
+
+    if (result.clean) {
+      // 変換済みの画像（variants がある）はそのまま記録する
+      if (
+        file.variants.length === 0 &&
+        PROCESSABLE_IMAGE_TYPES.includes(file.mimeType)
+      ) {
+        return this.completeImage(file);
+      }
+
+      await fileRepository.completeScan(file.id, {
+        status: FileStatus.CLEAN,
+      });
+      return FileStatus.CLEAN;
+    }
+
+    const quarantineKey = `quarantine/${file.storageKey}`;
+    await storage.put(quarantineKey, await storage.get(file.storageKey));
+
+    const recorded = await fileRepository.completeScan(file.id, {
+      status: FileStatus.QUARANTINED,
+      threat: result.threat,
+      storageKey: quarantineKey,
+    });
+    if (!recorded) {
+      // 並行したスキャンが先に同じ結果を記録した
+      return FileStatus.QUARANTINED;
+    }
+
+    await Promise.all(storageKeysOf(file).map(key => storage.delete(key)));
+
+    await this.deps.auditLogRepository.record({
+      action: 'file.quarantined',
+      resource: 'File',
+      resourceId: file.id,
+      metadata: {
+        ownerId: file.ownerId,
+        originalName: file.originalName,
+        checksum: file.checksum,
+        threat: result.threat,
+        storageKey: quarantineKey,
+      },
+    });
+
+    return FileStatus.QUARANTINED;
+  }
+
+  /**
+   * Record a clean image with its variants in place of the upload
+   *
+   * Content that cannot be decoded is not a usable image, so the file is
+   * removed.
+   */
+  private async completeImage(
+    file: FileWithVariants
+  ): Promise<FileStatus | null> {
+    const { fileRepository, storage } = this.deps;
+    const written: string[] = [];
+
+    try {
+      const variants = await this.storeVariants(file.storageKey, written);
+      const original = variants.find(v => v.name === 'original')!;
+
+      const recorded = await fileRepository.completeScan(file.id, {
+        status: FileStatus.CLEAN,
+        processed: {
+          mimeType: original.mimeType,
+          size: original.size,
+          checksum: original.checksum,
+          storageKey: original.storageKey,
+          variants,
+        },
+      });
+      // 以降はメタデータを除去した original をファイル本体として扱う
+      // （記録できなければ並行スキャンが同じキーに同じ内容を書いている）
+      if (recorded) {
+        await storage.delete(file.storageKey);
+      }
+      return FileStatus.CLEAN;
+    } catch (error) {
+      await Promise.all(written.map(key => storage.delete(key)));
+      if (!(error instanceof UseCaseValidationError)) {
+        throw error;
+      }
+
+      await fileRepository.delete(file.id);
+      await storage.delete(file.storageKey);
+      return null;
+    }
+  }
+
+  /**
+   * Write WebP variants of a stored image next to it
+   *
+   * Keys are appended to `written` as they are stored so the caller can clean
+   * up after a failure.
+   */
+  private async storeVariants(
+    storageKey: string,
+    written: string[]
+  ): Promise<FileVariantData[]> {
+    const raw = await readAll(await this.deps.storage.get(storageKey));
+    const images = await processImage(raw);
+
+    return Promise.all(
+      images.map(async ({ name, mimeType, width, height, content }) => {
+        const key = `${storageKey}-${name}.webp`;
+        written.push(key);
+        await this.deps.storage.put(key, Readable.from([content]));
+
+        return {
+          name,
+          mimeType,
+          width,
+          height,
+          size: content.length,
+          checksum: createHash('sha256').update(content).digest('hex'),
+          storageKey: key,
+        };
+      })
+    );
+  }
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
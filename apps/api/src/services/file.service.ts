@@ -0,0 +1,578 @@
+import path from 'path';
+import { Readable, pipeline } from 'stream';
+
+import type {
+  ConsumedUploadTokenRepository,
+  File,
+  FileRepository,
+  FileVariant,
+  FileWithVariants,
+} from '@template/database';
+import { FileStatus, FileType, StorageUsage } from '@template/types';
+import type {
+  finalizeSignedUploadSchema,
+  signedUploadSchema,
+} from '@template/utils';
+import type { z } from 'zod';
+
+import type { AuthenticatedUser } from './auth.service';
+import { toFileType } from '../lib/file-type';
+import { can } from '../lib/policies';
+import type { StorageDriver } from '../lib/storage';
+import { UploadInspector, UploadLimits } from '../lib/upload-inspector';
+import type { UploadTokenSigner } from '../lib/upload-token';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  EntityNotFoundError,
+  FileSystemError,
+  QuotaExceededError,
+  ResourceNotAvailableError,
+  UseCaseValidationError,
+} from '../shared/infrastructure/errors';
+import { CryptoUtils } from '../shared/utils/crypto';
+
+/**
+ * Image variant as returned by the API
+ */
+export type FileVariantView = Omit<FileVariant, 'fileId' | 'storageKey'> & {
+  url: string;
+};
+
+/**
+ * File metadata as returned by the API (storage keys stay internal)
+ */
+export type FileView = Omit<File, 'storageKey'> & {
+  variants: FileVariantView[];
+};
+
+export interface FileUpload {
+  /** File name as sent by the client */
+  filename: string;
+  content: Readable;
+}
+
+export type SignedUploadInput = z.infer<typeof signedUploadSchema>;
+export type FinalizeSignedUploadInput = z.infer<
+  typeof finalizeSignedUploadSchema
+>;
+
+/**
+ * Where and how a client may upload a file it has declared in advance
+ */
+export interface SignedUpload {
+  /** Single-use token for the upload endpoint (not issued for presigned PUTs) */
+  uploadToken?: string;
+  /** Presigned backend URL, or the upload endpoint */
+  uploadUrl: string;
+  uploadMethod: 'PUT' | 'POST';
+  /** Headers the upload request must carry for the signature to match */
+  uploadHeaders: Record<string, string>;
+  /** Key to finalize once a presigned PUT has finished */
+  storageKey?: string;
+  /** Endpoint that turns the uploaded object into a file */
+  finalizeUrl?: string;
+  expiresAt: Date;
+}
+
+/**
+ * Where a client may download a file's content
+ */
+export interface SignedDownload {
+  /** Presigned backend URL, or the download endpoint */
+  downloadUrl: string;
+  expiresAt: Date;
+}
+
+export interface FileServiceDependencies {
+  fileRepository: Pick<
+    FileRepository,
+    'findById' | 'createWithinQuota' | 'delete' | 'getUsage'
+  >;
+  storage: Pick<StorageDriver, 'put' | 'get' | 'delete' | 'getSignedUrl'>;
+  limits: UploadLimits;
+  /** Bytes each user may store */
+  quotaBytes: number;
+  uploadTokens: Pick<UploadTokenSigner, 'issue' | 'verify'>;
+  consumedUploadTokens: Pick<ConsumedUploadTokenRepository, 'consume'>;
+  /** Path of the endpoint that accepts token-authorized uploads */
+  uploadEndpoint: string;
+  /** Path of the endpoint that finalizes presigned uploads */
+  finalizeEndpoint: string;
+  /** Path of the endpoint that serves a file's content */
+  downloadEndpoint: (_id: string) => string;
+  /** Lifetime of signed URLs and upload tokens in seconds */
+  signedUrlExpiresIn: number;
+}
+
+const MAX_FILENAME_LENGTH = 255;
+
+/**
+ * Header that carries an upload token to the upload endpoint
+ */
+export const UPLOAD_TOKEN_HEADER = 'Upload-Token';
+
+/**
+ * Prefix of objects uploaded with a presigned PUT
+ *
+ * Staged objects are removed when finalized; a bucket lifecycle rule on this
+ * prefix expires the ones that never are.
+ */
+export const STAGED_KEY_PREFIX = 'direct/';
+
+// 署名付き PUT の受け皿（確定するまでファイルとして扱わない）
+const STAGED_KEY_PATTERN = /^direct\/[^/]+\/[0-9a-f-]{36}$/;
+
+/**
+ * Content-Disposition for a download, with an RFC 5987 UTF-8 file name
+ */
+export const contentDisposition = (filename: string): string => {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
+
+/**
+ * Uploaded files: content in the storage driver, metadata in the database
+ *
+ * New files wait in PENDING_SCAN until FileScanService has checked them.
+ */
+export class FileService {
+  constructor(private readonly deps: FileServiceDependencies) {}
+
+  /**
+   * Find a file for policy checks, or null if it does not exist
+   */
+  async find(id: string): Promise<FileWithVariants | null> {
+    return this.deps.fileRepository.findById(id);
+  }
+
+  async get(id: string): Promise<FileView> {
+    return toFileView(await this.findOrFail(id));
+  }
+
+  /**
+   * Stream an upload into storage, validating size and content type on the way
+   *
+   * Nothing is recorded unless all content was stored. Images are only
+   * decoded once they have been scanned clean (see FileScanService).
+   */
+  async upload(
+    owner: AuthenticatedUser,
+    upload: FileUpload
+  ): Promise<FileView> {
+    return this.store(owner.id, upload, this.deps.limits);
+  }
+
+  /**
+   * Same as {@link upload}, authorized by an upload token instead of a login
+   *
+   * The content must match the file name, type and size the token was
+   * issued for. The token is used up by the attempt, even if the content is
+   * then rejected.
+   *
+   * @throws AuthenticationError if the token is invalid, expired or used
+   */
+  async uploadWithToken(token: string, upload: FileUpload): Promise<FileView> {
+    const claims = this.deps.uploadTokens.verify(token);
+
+    if (
+      !(await this.deps.consumedUploadTokens.consume(
+        claims.tokenId,
+        claims.expiresAt
+      ))
+    ) {
+      throw new AuthenticationError('Upload token has already been used');
+    }
+
+    if (toOriginalName(upload.filename) !== claims.fileName) {
+      throw new AuthorizationError('File', 'upload', {
+        userId: claims.userId,
+        fileName: upload.filename,
+      });
+    }
+
+    return this.store(claims.userId, upload, {
+      maxFileSize: Math.min(claims.maxSize, this.deps.limits.maxFileSize),
+      allowedMimeTypes: [claims.mimeType],
+    });
+  }
+
+  /**
+   * Issue an upload token and URLs for a file the client is about to upload
+   *
+   * The declared type and size are checked here and bound into the token and
+   * the PUT signature, so uploads that differ from them are rejected. Content
+   * sent with a presigned PUT is only staged: it cannot be downloaded until
+   * {@link finalizeSignedUpload} has turned it into a file.
+   */
+  async createSignedUpload(
+    owner: AuthenticatedUser,
+    input: SignedUploadInput
+  ): Promise<SignedUpload> {
+    const { storage, limits, uploadTokens, signedUrlExpiresIn } = this.deps;
+
+    const errors: string[] = [];
+    if (!limits.allowedMimeTypes.includes(input.mimeType)) {
+      errors.push(`File type ${input.mimeType} is not allowed`);
+    }
+    if (input.size > limits.maxFileSize) {
+      errors.push(
+        `File exceeds the maximum size of ${limits.maxFileSize} bytes`
+      );
+    }
+    if (errors.length > 0) {
+      throw new UseCaseValidationError('FileUpload', errors);
+    }
+    await this.assertWithinQuota(owner.id, input.size);
+
+    const expiresAt = new Date(Date.now() + signedUrlExpiresIn * 1000);
+
+    if (!storage.getSignedUrl) {
+      const uploadToken = uploadTokens.issue({
+        userId: owner.id,
+        fileName: toOriginalName(input.filename),
+        maxSize: input.size,
+        mimeType: input.mimeType,
+        expiresAt,
+      });
+
+      // URL はログに残りやすいため、トークンはヘッダーで送らせる
+      return {
+        uploadToken,
+        uploadUrl: this.deps.uploadEndpoint,
+        uploadMethod: 'POST',
+        uploadHeaders: { [UPLOAD_TOKEN_HEADER]: uploadToken },
+        expiresAt,
+      };
+    }
+
+    const storageKey = `${STAGED_KEY_PREFIX}${owner.id}/${CryptoUtils.generateUUID()}`;
+    const uploadUrl = await storage.getSignedUrl(storageKey, 'PUT', {
+      expiresIn: signedUrlExpiresIn,
+      contentType: input.mimeType,
+      contentLength: input.size,
+    });
+
+    return {
+      uploadUrl,
+      uploadMethod: 'PUT',
+      uploadHeaders: {
+        'Content-Type': input.mimeType,
+        'Content-Length': String(input.size),
+      },
+      storageKey,
+      finalizeUrl: this.deps.finalizeEndpoint,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Turn content uploaded with a presigned PUT into a file
+   *
+   * The staged object goes through the same checks as {@link upload} (content
+   * type, size, quota) and is copied to a key of its own; the file waits in
+   * PENDING_SCAN like any other upload. The staged object is removed either
+   * way.
+   *
+   * @throws AuthorizationError if the key was not issued to the owner
+   * @throws EntityNotFoundError if nothing was uploaded under the key
+   */
+  async finalizeSignedUpload(
+    owner: AuthenticatedUser,
+    input: FinalizeSignedUploadInput
+  ): Promise<FileView> {
+    const { storage } = this.deps;
+    const { storageKey } = input;
+
+    if (
+      !STAGED_KEY_PATTERN.test(storageKey) ||
+      !storageKey.startsWith(`${STAGED_KEY_PREFIX}${owner.id}/`)
+    ) {
+      throw new AuthorizationError('File', 'finalize', {
+        userId: owner.id,
+        storageKey,
+      });
+    }
+
+    let content: Readable;
+    try {
+      content = await storage.get(storageKey);
+    } catch (error) {
+      if (error instanceof FileSystemError) {
+        throw new EntityNotFoundError('Upload', storageKey);
+      }
+      throw error;
+    }
+
+    try {
+      return await this.store(
+        owner.id,
+        { filename: input.filename, content },
+        this.deps.limits
+      );
+    } finally {
+      await storage.delete(storageKey);
+    }
+  }
+
+  /**
+   * Bytes and file counts the owner stores, in total and per file type
+   */
+  async usage(owner: AuthenticatedUser): Promise<StorageUsage> {
+    const entries = await this.deps.fileRepository.getUsage(owner.id);
+
+    const byType = Object.fromEntries(
+      Object.values(FileType).map(type => [type, { bytes: 0, fileCount: 0 }])
+    ) as StorageUsage['byType'];
+    for (const { type, bytes, fileCount } of entries) {
+      byType[type as FileType] = { bytes, fileCount };
+    }
+
+    return {
+      usedBytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+      quotaBytes: this.deps.quotaBytes,
+      fileCount: entries.reduce((sum, entry) => sum + entry.fileCount, 0),
+      byType,
+    };
+  }
+
+  /**
+   * Check that the owner has room for more bytes before accepting them
+   *
+   * @throws QuotaExceededError
+   */
+  async assertWithinQuota(ownerId: string, bytes: number): Promise<void> {
+    const used = await this.usedBytes(ownerId);
+
+    if (used + bytes > this.deps.quotaBytes) {
+      throw new QuotaExceededError(this.deps.quotaBytes, used, {
+        userId: ownerId,
+        requestedBytes: bytes,
+      });
+    }
+  }
+
+  /**
+   * Open a file's content for download
+   *
+   * @throws ResourceNotAvailableError unless the file was scanned clean
+   */
+  async download(id: string): Promise<{ file: FileView; content: Readable }> {
+    const file = await this.findOrFail(id);
+    assertScannedClean(file);
+    const content = await this.deps.storage.get(file.storageKey);
+
+    return { file: toFileView(file), content };
+  }
+
+  /**
+   * Issue a URL to download a file's content from the backend directly
+   *
+   * Drivers that cannot presign point at the download endpoint instead.
+   *
+   * @throws ResourceNotAvailableError unless the file was scanned clean
+   */
+  async createSignedDownload(id: string): Promise<SignedDownload> {
+    const { storage, signedUrlExpiresIn } = this.deps;
+    const file = await this.findOrFail(id);
+    assertScannedClean(file);
+
+    const expiresAt = new Date(Date.now() + signedUrlExpiresIn * 1000);
+    if (!storage.getSignedUrl) {
+      return { downloadUrl: this.deps.downloadEndpoint(id), expiresAt };
+    }
+
+    const downloadUrl = await storage.getSignedUrl(file.storageKey, 'GET', {
+      expiresIn: signedUrlExpiresIn,
+      contentType: file.mimeType,
+      contentDisposition: contentDisposition(file.originalName),
+    });
+    return { downloadUrl, expiresAt };
+  }
+
+  /**
+   * Open an image variant; public files can be read without logging in
+   */
+  async downloadVariant(
+    viewer: AuthenticatedUser | undefined,
+    id: string,
+    name: string
+  ): Promise<{ variant: FileVariant; content: Readable }> {
+    const file = await this.findOrFail(id);
+    const variant = file.variants.find(v => v.name === name);
+
+    if (!isReadable(viewer, file) || !variant) {
+      throw new EntityNotFoundError('FileVariant', `${id}/${name}`);
+    }
+    assertScannedClean(file);
+
+    const content = await this.deps.storage.get(variant.storageKey);
+    return { variant, content };
+  }
+
+  async delete(id: string): Promise<void> {
+    const file = await this.findOrFail(id);
+
+    await this.deps.fileRepository.delete(id);
+    await Promise.all(
+      storageKeysOf(file).map(key => this.deps.storage.delete(key))
+    );
+  }
+
+  /**
+   * Store content assembled from a resumable upload
+   *
+   * Runs the same checks as {@link upload}. The content must also have the
+   * declared type and SHA-256 checksum.
+   */
+  async storeAssembled(
+    ownerId: string,
+    upload: FileUpload,
+    expected: { mimeType: string; size: number; checksum: string }
+  ): Promise<FileView> {
+    return this.store(
+      ownerId,
+      upload,
+      { maxFileSize: expected.size, allowedMimeTypes: [expected.mimeType] },
+      expected.checksum
+    );
+  }
+
+  private async store(
+    ownerId: string,
+    upload: FileUpload,
+    limits: UploadLimits,
+    expectedChecksum?: string
+  ): Promise<FileView> {
+    const { storage, quotaBytes } = this.deps;
+
+    // サイズは受信するまで分からないため、ここでは空きがあることだけ確認する
+    await this.assertWithinQuota(ownerId, 1);
+
+    const inspector = new UploadInspector(limits);
+    const storageKey = `${ownerId}/${CryptoUtils.generateUUID()}`;
+
+    // 入力側のエラーも inspector 経由でストレージドライバーに伝わる
+    pipeline(upload.content, inspector, () => undefined);
+
+    try {
+      await storage.put(storageKey, inspector);
+
+      if (
+        expectedChecksum &&
+        inspector.checksum !== expectedChecksum.toLowerCase()
+      ) {
+        throw new UseCaseValidationError('FileUpload', [
+          'Checksum does not match the uploaded content',
+        ]);
+      }
+
+      const file = await this.deps.fileRepository.createWithinQuota(
+        {
+          ownerId,
+          originalName: toOriginalName(upload.filename),
+          mimeType: inspector.mimeType,
+          size: inspector.size,
+          checksum: inspector.checksum,
+          type: toFileType(inspector.mimeType),
+          storageKey,
+        },
+        quotaBytes
+      );
+      if (!file) {
+        throw new QuotaExceededError(
+          quotaBytes,
+          await this.usedBytes(ownerId),
+          { userId: ownerId, requestedBytes: inspector.size }
+        );
+      }
+
+      return toFileView(file);
+    } catch (error) {
+      await storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  private async usedBytes(ownerId: string): Promise<number> {
+    const entries = await this.deps.fileRepository.getUsage(ownerId);
+    return entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  }
+
+  private async findOrFail(id: string): Promise<FileWithVariants> {
+    const file = await this.deps.fileRepository.findById(id);
+
+    if (!file) {
+      throw new EntityNotFoundError('File', id);
+    }
+
+    return file;
+  }
+}
+
+/**
+ * Drop any client-side directory components from an uploaded file name
+ */
+function toOriginalName(filename: string): string {
+  const name = path.posix.basename(filename.replace(/\\/g, '/')).trim();
+  return (name || 'file').slice(0, MAX_FILENAME_LENGTH);
+}
+
+/**
+ * URL of an image variant, served by the files routes
+ */
+export function fileVariantUrl(fileId: string, name: string): string {
+  return `/api/v1/files/${fileId}/variants/${name}`;
+}
+
+export function isReadable(
+  viewer: AuthenticatedUser | undefined,
+  file: Pick<File, 'ownerId' | 'isPublic'>
+): boolean {
+  return viewer ? can(viewer, 'read', 'File', file) : file.isPublic;
+}
+
+export function toFileView({
+  storageKey: _storageKey,
+  variants,
+  ...file
+}: FileWithVariants): FileView {
+  return {
+    ...file,
+    variants: variants.map(
+      ({ fileId: _fileId, storageKey: _key, ...variant }) => ({
+        ...variant,
+        url: fileVariantUrl(file.id, variant.name),
+      })
+    ),
+  };
+}
+
+const unavailableReasons: Record<FileStatus, string> = {
+  [FileStatus.PENDING_SCAN]: 'malware scan has not finished',
+  [FileStatus.CLEAN]: '',
+  [FileStatus.QUARANTINED]: 'file has been quarantined',
+  [FileStatus.SCAN_FAILED]: 'file could not be scanned',
+};
+
+/**
+ * Check that a file was scanned clean
+ *
+ * @throws ResourceNotAvailableError while it is pending scan, quarantined or
+ * could not be scanned
+ */
+export function assertScannedClean(file: Pick<File, 'id' | 'status'>): void {
+  if (file.status !== FileStatus.CLEAN) {
+    throw new ResourceNotAvailableError(
+      'File',
+      file.id,
+      unavailableReasons[file.status as FileStatus]
+    );
+  }
+}
+
+export function storageKeysOf(file: FileWithVariants): string[] {
+  return [
+    ...new Set([file.storageKey, ...file.variants.map(v => v.storageKey)]),
+  ];
+}
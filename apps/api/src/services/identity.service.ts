@@ -0,0 +1,88 @@
+import {
+  PrismaErrorCode,
+  isPrismaKnownRequestError,
+  type User,
+  type UserRepository,
+} from '@template/database';
+
+import type { createUserWithProfile } from '../lib/database';
+import type { VerifiedIdentity } from '../lib/firebase-auth';
+import { AuthenticationError } from '../shared/infrastructure/errors';
+
+export interface IdentityServiceDependencies {
+  userRepository: Pick<
+    UserRepository,
+    'findByFirebaseUid' | 'findByEmail' | 'update'
+  >;
+  createUserWithProfile: typeof createUserWithProfile;
+}
+
+/**
+ * Maps identities from an external provider (Firebase) to local users
+ *
+ * Unknown identities are provisioned on first sign-in. An existing account
+ * with the same email is linked only when the provider has verified that
+ * email, so an unverified address cannot take over a password account.
+ */
+export class IdentityService {
+  constructor(private readonly deps: IdentityServiceDependencies) {}
+
+  async resolveUser(identity: VerifiedIdentity): Promise<User> {
+    const user = await this.findOrProvision(identity);
+
+    if (!user.isActive) {
+      throw new AuthenticationError('Account is disabled');
+    }
+
+    return user;
+  }
+
+  private async findOrProvision(identity: VerifiedIdentity): Promise<User> {
+    const { userRepository } = this.deps;
+
+    const existing = await userRepository.findByFirebaseUid(identity.uid);
+    if (existing) {
+      return existing;
+    }
+
+    if (!identity.email) {
+      throw new AuthenticationError('ID token does not contain an email');
+    }
+
+    const byEmail = await userRepository.findByEmail(identity.email);
+    if (byEmail) {
+      if (!identity.emailVerified || byEmail.firebaseUid) {
+        throw new AuthenticationError(
+          'An account with this email already exists'
+        );
+      }
+      return userRepository.update(byEmail.id, { firebaseUid: identity.uid });
+    }
+
+    try {
+      const { user } = await this.deps.createUserWithProfile({
+        firebaseUid: identity.uid,
+        email: identity.email,
+        name: identity.name ?? identity.email.split('@')[0],
+        role: 'USER',
+      });
+      return user;
+    } catch (error) {
+      // A concurrent first request may have provisioned the user already
+      if (
+        isPrismaKnownRequestError(
+          error,
+          PrismaErrorCode.UNIQUE_CONSTRAINT_FAILED
+        )
+      ) {
+        const provisioned = await userRepository.findByFirebaseUid(
+          identity.uid
+        );
+        if (provisioned) {
+          return provisioned;
+        }
+      }
+      throw error;
+    }
+  }
+}
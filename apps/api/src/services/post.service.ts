@@ -0,0 +1,205 @@
+import type {
+  Post,
+  PostFilter,
+  PostRepository,
+  PostWithRelations,
+  SortKey,
+} from '@template/database';
+import { ContentStatus, UserRole } from '@template/types';
+import type { createPostSchema, updatePostSchema } from '@template/utils';
+import type { z } from 'zod';
+
+import type { AuthenticatedUser } from './auth.service';
+import { can } from '../lib/policies';
+import { updateAtVersion } from '../lib/versioning';
+import {
+  EntityNotFoundError,
+  InvalidEntityStateError,
+} from '../shared/infrastructure/errors';
+import { PaginatedResponse, PaginationUtils } from '../shared/types';
+
+export type CreatePostInput = z.infer<typeof createPostSchema>;
+export type UpdatePostInput = z.infer<typeof updatePostSchema>;
+
+/**
+ * Post as returned by the API
+ */
+export type PostView = Post & {
+  author: { id: string; name: string | null };
+  commentCount: number;
+};
+
+export interface PostServiceDependencies {
+  postRepository: Pick<
+    PostRepository,
+    'findById' | 'findMany' | 'create' | 'update' | 'setPublished' | 'delete'
+  >;
+}
+
+/**
+ * Posts and their draft/published workflow
+ */
+export class PostService {
+  constructor(private readonly deps: PostServiceDependencies) {}
+
+  /**
+   * Find a post for policy checks, or null if it does not exist
+   */
+  async find(id: string): Promise<PostWithRelations | null> {
+    return this.deps.postRepository.findById(id);
+  }
+
+  /**
+   * List posts; drafts are only visible to their author and admins
+   */
+  async list(
+    viewer: AuthenticatedUser | undefined,
+    filter: PostFilter,
+    pagination: { page?: number; limit?: number },
+    sort?: SortKey[]
+  ): Promise<PaginatedResponse<PostView>> {
+    const canSeeDrafts =
+      viewer &&
+      (viewer.role === UserRole.ADMIN || viewer.id === filter.authorId);
+
+    const result = await this.deps.postRepository.findMany(
+      { ...filter, published: canSeeDrafts ? filter.published : true },
+      pagination,
+      sort
+    );
+
+    return PaginationUtils.createResponse(
+      result.data.map(toPostView),
+      result.page,
+      result.limit,
+      result.total
+    );
+  }
+
+  /**
+   * Get a post; drafts the viewer may not read are reported as not found
+   */
+  async get(
+    viewer: AuthenticatedUser | undefined,
+    id: string
+  ): Promise<PostView> {
+    const post = await this.deps.postRepository.findById(id);
+
+    if (!post || !isReadable(viewer, post)) {
+      throw new EntityNotFoundError('Post', id);
+    }
+
+    return toPostView(post);
+  }
+
+  async create(
+    author: AuthenticatedUser,
+    input: CreatePostInput
+  ): Promise<PostView> {
+    const post = await this.deps.postRepository.create({
+      title: input.title,
+      content: input.content,
+      published: toPublished(input.status, ContentStatus.DRAFT),
+      authorId: author.id,
+    });
+
+    return toPostView(post);
+  }
+
+  /**
+   * Update a post; with `expectedVersions`, the post must be at one of them
+   *
+   * @throws ConflictError if someone else updated the post first
+   */
+  async update(
+    id: string,
+    input: UpdatePostInput,
+    expectedVersions?: readonly number[]
+  ): Promise<PostView> {
+    const current = await this.findOrFail(id);
+    const data = {
+      title: input.title,
+      content: input.content,
+      published: input.status
+        ? toPublished(input.status, statusOf(current))
+        : undefined,
+    };
+
+    const post = await updateAtVersion(
+      'Post',
+      current,
+      expectedVersions,
+      expectedVersion =>
+        this.deps.postRepository.update(id, data, expectedVersion)
+    );
+
+    return toPostView(post);
+  }
+
+  async publish(id: string): Promise<PostView> {
+    return this.transition(id, ContentStatus.DRAFT, true);
+  }
+
+  async unpublish(id: string): Promise<PostView> {
+    return this.transition(id, ContentStatus.PUBLISHED, false);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.findOrFail(id);
+    await this.deps.postRepository.delete(id);
+  }
+
+  private async transition(
+    id: string,
+    from: ContentStatus,
+    published: boolean
+  ): Promise<PostView> {
+    const current = await this.findOrFail(id);
+
+    if (statusOf(current) !== from) {
+      throw new InvalidEntityStateError('Post', statusOf(current), from);
+    }
+
+    const post = await this.deps.postRepository.setPublished(id, published);
+
+    return toPostView(post);
+  }
+
+  private async findOrFail(id: string): Promise<PostWithRelations> {
+    const post = await this.find(id);
+    if (!post) {
+      throw new EntityNotFoundError('Post', id);
+    }
+    return post;
+  }
+}
+
+/**
+ * Whether the viewer may read the post; anonymous viewers see published posts
+ */
+export function isReadable(
+  viewer: AuthenticatedUser | undefined,
+  post: Pick<Post, 'authorId' | 'published'>
+): boolean {
+  return viewer ? can(viewer, 'read', 'Post', post) : post.published;
+}
+
+function statusOf(post: Pick<Post, 'published'>): ContentStatus {
+  return post.published ? ContentStatus.PUBLISHED : ContentStatus.DRAFT;
+}
+
+// 投稿はdraft/publishedの2状態のみ保持するため、archivedへの遷移は不可
+function toPublished(status: ContentStatus, current: ContentStatus): boolean {
+  if (status === ContentStatus.ARCHIVED) {
+    throw new InvalidEntityStateError(
+      'Post',
+      current,
+      `${ContentStatus.DRAFT} or ${ContentStatus.PUBLISHED}`
+    );
+  }
+  return status === ContentStatus.PUBLISHED;
+}
+
+function toPostView({ _count, ...post }: PostWithRelations): PostView {
+  return { ...post, commentCount: _count.comments };
+}
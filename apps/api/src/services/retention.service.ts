@@ -0,0 +1,46 @@
+import type {
+  CommentRepository,
+  PostRepository,
+  UserRepository,
+} from '@template/database';
+
+export interface RetentionServiceDependencies {
+  userRepository: Pick<UserRepository, 'purgeDeletedBefore'>;
+  postRepository: Pick<PostRepository, 'purgeDeletedBefore'>;
+  commentRepository: Pick<CommentRepository, 'purgeDeletedBefore'>;
+  /** How long soft-deleted rows can still be restored */
+  retentionDays: number;
+}
+
+/**
+ * Number of rows purged per model
+ */
+export interface PurgeResult {
+  comments: number;
+  posts: number;
+  users: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hard-deletes soft-deleted rows once their retention period is over
+ */
+export class RetentionService {
+  constructor(private readonly deps: RetentionServiceDependencies) {}
+
+  /**
+   * Purge rows soft-deleted more than `retentionDays` ago
+   */
+  async purgeExpired(now: Date = new Date()): Promise<PurgeResult> {
+    const before = new Date(now.getTime() - this.deps.retentionDays * DAY_MS);
+
+    // 子から順に消す（親の削除で子がカスケード削除され、件数が合わなくなるため）
+    const comments =
+      await this.deps.commentRepository.purgeDeletedBefore(before);
+    const posts = await this.deps.postRepository.purgeDeletedBefore(before);
+    const users = await this.deps.userRepository.purgeDeletedBefore(before);
+
+    return { comments, posts, users };
+  }
+}
@@ -0,0 +1,88 @@
+import type { Session, SessionRepository } from '@template/database';
+
+import { EntityNotFoundError } from '../shared/infrastructure/errors';
+
+/**
+ * Session as shown in the "signed-in devices" list
+ */
+export interface DeviceSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  issuedAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  /**
+   * Whether this is the session making the request
+   */
+  current: boolean;
+}
+
+export interface SessionServiceDependencies {
+  sessionRepository: Pick<
+    SessionRepository,
+    'findById' | 'findActiveByUser' | 'revoke' | 'revokeAllExcept'
+  >;
+}
+
+/**
+ * Lists and revokes the sessions (signed-in devices) of a user
+ */
+export class SessionService {
+  constructor(private readonly deps: SessionServiceDependencies) {}
+
+  /**
+   * List the user's active sessions
+   */
+  async listActive(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<DeviceSession[]> {
+    const sessions = await this.deps.sessionRepository.findActiveByUser(userId);
+    return sessions.map(session => toDeviceSession(session, currentSessionId));
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const session = await this.deps.sessionRepository.findById(sessionId);
+
+    // Sessions of other users are reported as missing to avoid leaking ids
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new EntityNotFoundError('Session', sessionId);
+    }
+
+    await this.deps.sessionRepository.revoke(sessionId);
+  }
+
+  /**
+   * Revoke every session of the user except the current one
+   *
+   * @returns Number of revoked sessions
+   */
+  async revokeOthers(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<number> {
+    return this.deps.sessionRepository.revokeAllExcept(
+      userId,
+      currentSessionId
+    );
+  }
+}
+
+function toDeviceSession(
+  session: Session,
+  currentSessionId?: string
+): DeviceSession {
+  return {
+    id: session.id,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    issuedAt: session.issuedAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  };
+}
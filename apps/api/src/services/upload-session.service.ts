@@ -0,0 +1,263 @@
+import type {
+  UploadPart,
+  UploadSession,
+  UploadSessionRepository,
+} from '@template/database';
+import type { createUploadSessionSchema } from '@template/utils';
+import type { z } from 'zod';
+
+import type { AuthenticatedUser } from './auth.service';
+import type { FileService, FileView } from './file.service';
+import type { StorageDriver } from '../lib/storage';
+import {
+  ConflictError,
+  EntityNotFoundError,
+  UseCaseValidationError,
+} from '../shared/infrastructure/errors';
+import { CryptoUtils } from '../shared/utils/crypto';
+
+export type CreateUploadSessionInput = z.infer<
+  typeof createUploadSessionSchema
+>;
+
+/**
+ * Upload session as returned by the API
+ */
+export type UploadSessionView = Pick<
+  UploadSession,
+  'id' | 'fileName' | 'mimeType' | 'size' | 'offset' | 'expiresAt'
+>;
+
+export interface ResumableUploadLimits {
+  allowedMimeTypes: string[];
+  maxFileSize: number;
+  maxChunkSize: number;
+  /** Lifetime of a session in seconds */
+  sessionTtl: number;
+}
+
+export interface UploadSessionServiceDependencies {
+  uploadSessionRepository: Pick<
+    UploadSessionRepository,
+    'findById' | 'create' | 'advance' | 'delete' | 'findExpired'
+  >;
+  storage: Pick<
+    StorageDriver,
+    | 'minChunkSize'
+    | 'createChunkedUpload'
+    | 'uploadChunk'
+    | 'completeChunkedUpload'
+    | 'abortChunkedUpload'
+    | 'get'
+    | 'delete'
+  >;
+  files: Pick<FileService, 'storeAssembled' | 'assertWithinQuota'>;
+  limits: ResumableUploadLimits;
+}
+
+/**
+ * Resumable uploads: the client sends a file in chunks at increasing offsets
+ * and can ask for the current offset to continue after a dropped connection
+ */
+export class UploadSessionService {
+  constructor(private readonly deps: UploadSessionServiceDependencies) {}
+
+  /**
+   * Find a session for policy checks, or null if it does not exist or expired
+   */
+  async find(id: string): Promise<UploadSession | null> {
+    const session = await this.deps.uploadSessionRepository.findById(id);
+    return session && session.expiresAt > new Date() ? session : null;
+  }
+
+  async get(id: string): Promise<UploadSessionView> {
+    return toUploadSessionView(await this.findOrFail(id));
+  }
+
+  async create(
+    owner: AuthenticatedUser,
+    input: CreateUploadSessionInput
+  ): Promise<UploadSessionView> {
+    const { storage, limits } = this.deps;
+
+    const errors: string[] = [];
+    if (!limits.allowedMimeTypes.includes(input.mimeType)) {
+      errors.push(`File type ${input.mimeType} is not allowed`);
+    }
+    if (input.size > limits.maxFileSize) {
+      errors.push(
+        `File exceeds the maximum size of ${limits.maxFileSize} bytes`
+      );
+    }
+    if (errors.length > 0) {
+      throw new UseCaseValidationError('ResumableUpload', errors);
+    }
+    await this.deps.files.assertWithinQuota(owner.id, input.size);
+
+    const storageKey = `${owner.id}/${CryptoUtils.generateUUID()}`;
+    const uploadId = await storage.createChunkedUpload(storageKey);
+    const session = await this.deps.uploadSessionRepository.create({
+      ownerId: owner.id,
+      fileName: input.filename,
+      mimeType: input.mimeType,
+      size: input.size,
+      storageKey,
+      uploadId,
+      expiresAt: new Date(Date.now() + limits.sessionTtl * 1000),
+    });
+
+    return toUploadSessionView(session);
+  }
+
+  /**
+   * Append a chunk at the given offset
+   *
+   * @throws ConflictError if the offset is not where the session is
+   */
+  async appendChunk(
+    id: string,
+    offset: number,
+    chunk: Buffer
+  ): Promise<UploadSessionView> {
+    const { storage, limits } = this.deps;
+    const session = await this.findOrFail(id);
+
+    if (offset !== session.offset) {
+      throw new ConflictError('Upload offset does not match', {
+        expectedOffset: session.offset,
+        receivedOffset: offset,
+      });
+    }
+
+    const end = offset + chunk.length;
+    const errors: string[] = [];
+    if (chunk.length === 0) {
+      errors.push('Chunk is empty');
+    }
+    if (chunk.length > limits.maxChunkSize) {
+      errors.push(
+        `Chunk exceeds the maximum size of ${limits.maxChunkSize} bytes`
+      );
+    }
+    if (end > session.size) {
+      errors.push('Chunk goes past the declared file size');
+    }
+    if (end < session.size && chunk.length < storage.minChunkSize) {
+      errors.push(
+        `Only the last chunk may be smaller than ${storage.minChunkSize} bytes`
+      );
+    }
+    if (errors.length > 0) {
+      throw new UseCaseValidationError('ResumableUpload', errors);
+    }
+
+    const parts = session.parts as unknown as UploadPart[];
+    const part = await storage.uploadChunk(
+      session.storageKey,
+      session.uploadId,
+      parts.length + 1,
+      chunk
+    );
+
+    // 同じオフセットへの並行リクエストは片方だけ成功させる
+    // （万一パートが上書きされても完了時のチェックサム検証で検出される）
+    const advanced = await this.deps.uploadSessionRepository.advance(
+      id,
+      offset,
+      end,
+      [...parts, part]
+    );
+    if (!advanced) {
+      throw new ConflictError('Upload offset changed concurrently');
+    }
+
+    return toUploadSessionView({ ...session, offset: end });
+  }
+
+  /**
+   * Assemble the chunks and store the result as a file
+   *
+   * The session ends here whether or not the content passes validation.
+   *
+   * @throws ConflictError if chunks are still missing
+   */
+  async complete(id: string, checksum: string): Promise<FileView> {
+    const { storage } = this.deps;
+    const session = await this.findOrFail(id);
+
+    if (session.offset !== session.size) {
+      throw new ConflictError('Upload is incomplete', {
+        offset: session.offset,
+        size: session.size,
+      });
+    }
+
+    await storage.completeChunkedUpload(
+      session.storageKey,
+      session.uploadId,
+      session.parts as unknown as UploadPart[]
+    );
+
+    try {
+      return await this.deps.files.storeAssembled(
+        session.ownerId,
+        {
+          filename: session.fileName,
+          content: await storage.get(session.storageKey),
+        },
+        { mimeType: session.mimeType, size: session.size, checksum }
+      );
+    } finally {
+      await storage.delete(session.storageKey);
+      await this.deps.uploadSessionRepository.delete(id);
+    }
+  }
+
+  async abort(id: string): Promise<void> {
+    await this.discard(await this.findOrFail(id));
+  }
+
+  /**
+   * Discard sessions that were abandoned before completion
+   *
+   * @returns the number of sessions removed
+   */
+  async expireSessions(now: Date = new Date()): Promise<number> {
+    const sessions = await this.deps.uploadSessionRepository.findExpired(now);
+
+    for (const session of sessions) {
+      await this.discard(session);
+    }
+
+    return sessions.length;
+  }
+
+  private async discard(session: UploadSession): Promise<void> {
+    await this.deps.storage.abortChunkedUpload(
+      session.storageKey,
+      session.uploadId
+    );
+    await this.deps.uploadSessionRepository.delete(session.id);
+  }
+
+  private async findOrFail(id: string): Promise<UploadSession> {
+    const session = await this.find(id);
+
+    if (!session) {
+      throw new EntityNotFoundError('UploadSession', id);
+    }
+
+    return session;
+  }
+}
+
+export function toUploadSessionView(session: UploadSession): UploadSessionView {
+  return {
+    id: session.id,
+    fileName: session.fileName,
+    mimeType: session.mimeType,
+    size: session.size,
+    offset: session.offset,
+    expiresAt: session.expiresAt,
+  };
+}
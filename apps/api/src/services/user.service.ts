@@ -0,0 +1,279 @@
+import type {
+  FileRepository,
+  Prisma,
+  SortKey,
+  UserFilter,
+  UserProfile,
+  UserRepository,
+  UserRole as UserRoleValue,
+  UserWithProfile,
+} from '@template/database';
+import { UserRole } from '@template/types';
+import type { createUserSchema, updateUserSchema } from '@template/utils';
+import type { z } from 'zod';
+
+import type { AuthenticatedUser } from './auth.service';
+import { assertScannedClean, fileVariantUrl } from './file.service';
+import { updateAtVersion } from '../lib/versioning';
+import {
+  AuthorizationError,
+  BusinessRuleValidationError,
+  DuplicateEntityError,
+  EntityNotFoundError,
+} from '../shared/infrastructure/errors';
+import { PaginatedResponse, PaginationUtils } from '../shared/types';
+
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+
+type ProfileInput = NonNullable<UpdateUserInput['profileData']>;
+
+/**
+ * User as returned by the API, without credentials or relations
+ */
+export interface UserView {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRoleValue;
+  isActive: boolean;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  version: number;
+  profile: Pick<
+    UserProfile,
+    'bio' | 'avatarUrl' | 'website' | 'location'
+  > | null;
+}
+
+export interface UserServiceDependencies {
+  userRepository: Pick<
+    UserRepository,
+    'findMany' | 'findById' | 'isEmailTaken' | 'create' | 'update' | 'delete'
+  >;
+  fileRepository: Pick<FileRepository, 'findById' | 'setPublic'>;
+}
+
+/** Image variant used for avatars */
+const AVATAR_VARIANT = 'medium';
+
+/**
+ * User management backed by UserRepository
+ */
+export class UserService {
+  constructor(private readonly deps: UserServiceDependencies) {}
+
+  async list(
+    filter: UserFilter,
+    pagination: { page?: number; limit?: number },
+    sort?: SortKey[]
+  ): Promise<PaginatedResponse<UserView>> {
+    const result = await this.deps.userRepository.findMany(
+      filter,
+      pagination,
+      sort
+    );
+
+    return PaginationUtils.createResponse(
+      result.data.map(toUserView),
+      result.page,
+      result.limit,
+      result.total
+    );
+  }
+
+  async get(id: string): Promise<UserView> {
+    return toUserView(await this.findOrFail(id));
+  }
+
+  async create(input: CreateUserInput): Promise<UserView> {
+    await this.assertEmailAvailable(input.email);
+
+    const profile = toProfileData(input.profileData);
+    const user = await this.deps.userRepository.create({
+      email: input.email,
+      role: input.role,
+      name: toDisplayName(input.profileData),
+      ...(profile && { profile: { create: profile } }),
+    });
+
+    return toUserView(user);
+  }
+
+  /**
+   * Update a user; only admins may change roles
+   *
+   * With `expectedVersions`, the user must be at one of them.
+   *
+   * @throws ConflictError if someone else updated the user first
+   */
+  async update(
+    actor: AuthenticatedUser,
+    id: string,
+    input: UpdateUserInput,
+    expectedVersions?: readonly number[]
+  ): Promise<UserView> {
+    const current = await this.findOrFail(id);
+
+    if (
+      input.role &&
+      input.role !== current.role &&
+      actor.role !== UserRole.ADMIN
+    ) {
+      throw new AuthorizationError('User', 'change role of');
+    }
+
+    if (input.email && input.email !== current.email) {
+      await this.assertEmailAvailable(input.email, id);
+    }
+
+    const data: Prisma.UserUpdateInput = {
+      email: input.email,
+      role: input.role,
+    };
+
+    if (input.profileData) {
+      const profile = toProfileData(input.profileData);
+      data.name = toDisplayName(input.profileData);
+      if (profile) {
+        data.profile = { upsert: { create: profile, update: profile } };
+      }
+    }
+
+    const user = await updateAtVersion(
+      'User',
+      current,
+      expectedVersions,
+      expectedVersion =>
+        this.deps.userRepository.update(id, data, expectedVersion)
+    );
+
+    return toUserView(user);
+  }
+
+  /**
+   * Use one of the user's uploaded images as their avatar
+   *
+   * The file becomes public so the avatar can be shown to anyone, so it
+   * must have been scanned clean.
+   *
+   * @throws ResourceNotAvailableError while the file is pending scan or
+   * quarantined
+   */
+  async setAvatar(id: string, fileId: string): Promise<UserView> {
+    await this.findOrFail(id);
+
+    const file = await this.deps.fileRepository.findById(fileId);
+    if (!file) {
+      throw new EntityNotFoundError('File', fileId);
+    }
+    if (file.ownerId !== id) {
+      throw new AuthorizationError('File', 'use as avatar', { userId: id });
+    }
+    assertScannedClean(file);
+    if (!file.variants.some(variant => variant.name === AVATAR_VARIANT)) {
+      throw new BusinessRuleValidationError(
+        'Avatar must be a processed image',
+        'File'
+      );
+    }
+
+    if (!file.isPublic) {
+      await this.deps.fileRepository.setPublic(fileId, true);
+    }
+
+    const avatarUrl = fileVariantUrl(fileId, AVATAR_VARIANT);
+    const user = await this.deps.userRepository.update(id, {
+      profile: { upsert: { create: { avatarUrl }, update: { avatarUrl } } },
+    });
+
+    return toUserView(user);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.findOrFail(id);
+    await this.deps.userRepository.delete(id);
+  }
+
+  private async findOrFail(id: string): Promise<UserWithProfile> {
+    const user = await this.deps.userRepository.findById(id);
+    if (!user) {
+      throw new EntityNotFoundError('User', id);
+    }
+    return user;
+  }
+
+  private async assertEmailAvailable(email: string, excludeUserId?: string) {
+    if (await this.deps.userRepository.isEmailTaken(email, excludeUserId)) {
+      throw new DuplicateEntityError('User', email);
+    }
+  }
+}
+
+/**
+ * Strip credentials and relations from a user record
+ */
+export function toUserView(user: UserWithProfile): UserView {
+  const profile = user.profile as UserProfile | null | undefined;
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    isActive: user.isActive,
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    version: user.version,
+    profile: profile
+      ? {
+          bio: profile.bio,
+          avatarUrl: profile.avatarUrl,
+          website: profile.website,
+          location: profile.location,
+        }
+      : null,
+  };
+}
+
+function toDisplayName(profile?: ProfileInput): string | undefined {
+  if (!profile) {
+    return undefined;
+  }
+  if (profile.displayName) {
+    return profile.displayName;
+  }
+
+  const fullName = [profile.lastName, profile.firstName]
+    .filter(Boolean)
+    .join(' ');
+  return fullName || undefined;
+}
+
+// UserProfileテーブルに保存できる項目のみ取り出す
+function toProfileData(
+  profile?: ProfileInput
+): Prisma.UserProfileCreateWithoutUserInput | undefined {
+  if (!profile) {
+    return undefined;
+  }
+
+  const location = profile.location
+    ? [profile.location.city, profile.location.region, profile.location.country]
+        .filter(Boolean)
+        .join(', ')
+    : undefined;
+
+  const data = {
+    bio: profile.bio,
+    avatarUrl: profile.avatarUrl,
+    website: profile.contactInfo?.website,
+    location: location || undefined,
+  };
+
+  return Object.values(data).some(value => value !== undefined)
+    ? data
+    : undefined;
+}
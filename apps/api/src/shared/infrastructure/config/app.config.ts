@@ -20,6 +20,7 @@ export interface AppConfig {
     url: string;
     maxConnections: number;
     enableLogging: boolean;
+    softDeleteRetentionDays: number; // 論理削除した行を物理削除するまでの日数
   };
 
   // Authentication
@@ -34,7 +35,31 @@ export interface AppConfig {
   upload: {
     maxFileSize: number;
     allowedMimeTypes: string[];
+    quotaBytes: number; // per user
     uploadPath: string;
+    storageDriver: 'local' | 's3';
+    signedUrlExpiresIn: number; // seconds
+    tokenSecrets: string[]; // 先頭で署名し、残りは検証のみ（鍵ローテーション用）
+    s3: {
+      bucket: string;
+      region: string;
+      endpoint?: string; // S3互換ストレージ（MinIOなど）用
+      accessKeyId?: string;
+      secretAccessKey?: string;
+      forcePathStyle: boolean;
+    };
+    resumable: {
+      maxFileSize: number;
+      maxChunkSize: number;
+      sessionTtl: number; // seconds
+    };
+    scanner: {
+      host: string; // clamd
+      port: number;
+      timeout: number; // milliseconds
+      maxStreamSize: number; // bytes, clamd StreamMaxLength
+      maxAttempts: number; // failed scans before SCAN_FAILED
+    };
   };
 
   // External services
@@ -58,6 +83,19 @@ export interface AppConfig {
     maxRequests: number;
   };
 
+  // Prometheus metrics
+  metrics: {
+    token?: string; // Bearer token required on /metrics
+    port?: number; // 設定時は /metrics を内部向けの別リスナーでのみ公開
+    host: string;
+  };
+
+  // OpenTelemetry tracing
+  tracing: {
+    serviceName: string;
+    endpoint?: string; // OTLP/HTTP traces endpoint; 未設定ならエクスポートしない
+  };
+
   // CORS
   cors: {
     origin: string[];
@@ -92,6 +130,7 @@ export function loadAppConfig(): AppConfig {
           'DB_ENABLE_LOGGING',
           env === Environment.DEVELOPMENT
         ),
+        softDeleteRetentionDays: getNumberEnv('SOFT_DELETE_RETENTION_DAYS', 30),
       },
 
       // Authentication
@@ -113,7 +152,48 @@ export function loadAppConfig(): AppConfig {
           'application/msword',
           'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
         ]),
+        quotaBytes: getNumberEnv('UPLOAD_QUOTA_BYTES', 1024 * 1024 * 1024), // 1GB
         uploadPath: getStringEnv('UPLOAD_PATH', './uploads'),
+        storageDriver: getStringEnv('STORAGE_DRIVER', 'local') as
+          | 'local'
+          | 's3',
+        signedUrlExpiresIn: getNumberEnv('UPLOAD_SIGNED_URL_EXPIRES_IN', 900), // 15 minutes
+        tokenSecrets: getArrayEnv('UPLOAD_TOKEN_SECRETS', [
+          getRequiredStringEnv('JWT_SECRET'),
+        ]),
+        s3: {
+          bucket: getStringEnv('S3_BUCKET', ''),
+          region: getStringEnv('S3_REGION', 'us-east-1'),
+          endpoint: getOptionalStringEnv('S3_ENDPOINT'),
+          accessKeyId: getOptionalStringEnv('S3_ACCESS_KEY_ID'),
+          secretAccessKey: getOptionalStringEnv('S3_SECRET_ACCESS_KEY'),
+          forcePathStyle: getBooleanEnv('S3_FORCE_PATH_STYLE', false),
+        },
+        resumable: {
+          maxFileSize: getNumberEnv(
+            'UPLOAD_RESUMABLE_MAX_FILE_SIZE',
+            25 * 1024 * 1024
+          ), // 25MB
+          maxChunkSize: getNumberEnv(
+            'UPLOAD_RESUMABLE_MAX_CHUNK_SIZE',
+            8 * 1024 * 1024
+          ), // 8MB
+          sessionTtl: getNumberEnv(
+            'UPLOAD_RESUMABLE_SESSION_TTL',
+            24 * 60 * 60
+          ), // 24 hours
+        },
+        scanner: {
+          host: getStringEnv('CLAMAV_HOST', 'localhost'),
+          port: getNumberEnv('CLAMAV_PORT', 3310),
+          timeout: getNumberEnv('CLAMAV_TIMEOUT', 30 * 1000), // 30 seconds
+          // clamd の StreamMaxLength と揃える（超えるファイルはスキャンできない）
+          maxStreamSize: getNumberEnv(
+            'CLAMAV_STREAM_MAX_LENGTH',
+            25 * 1024 * 1024
+          ), // 25MB (clamd default)
+          maxAttempts: getNumberEnv('CLAMAV_MAX_SCAN_ATTEMPTS', 5),
+        },
       },
 
       // Firebase
@@ -146,6 +226,19 @@ export function loadAppConfig(): AppConfig {
         maxRequests: getNumberEnv('RATE_LIMIT_MAX_REQUESTS', 100),
       },
 
+      // Prometheus metrics
+      metrics: {
+        token: getOptionalStringEnv('METRICS_TOKEN'),
+        port: getOptionalNumberEnv('METRICS_PORT'),
+        host: getStringEnv('METRICS_HOST', '127.0.0.1'),
+      },
+
+      // OpenTelemetry tracing
+      tracing: {
+        serviceName: getStringEnv('OTEL_SERVICE_NAME', 'template-api'),
+        endpoint: getOptionalStringEnv('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT'),
+      },
+
       // CORS
       cors: {
         origin: getArrayEnv('CORS_ORIGIN', [
@@ -233,6 +326,13 @@ function getNumberEnv(key: string, defaultValue: number): number {
   return parsed;
 }
 
+/**
+ * Get optional number environment variable
+ */
+function getOptionalNumberEnv(key: string): number | undefined {
+  return process.env[key] ? getNumberEnv(key, 0) : undefined;
+}
+
 /**
  * Get boolean environment variable with default
  */
@@ -283,6 +383,48 @@ function validateConfig(config: AppConfig): void {
     errors.push('Max file size must be at least 1KB');
   }
 
+  if (config.upload.quotaBytes < config.upload.maxFileSize) {
+    errors.push('Storage quota must be at least the max file size');
+  }
+
+  // スキャンできないサイズのファイルは受け付けない
+  if (
+    Math.max(config.upload.maxFileSize, config.upload.resumable.maxFileSize) >
+    config.upload.scanner.maxStreamSize
+  ) {
+    errors.push('Max file sizes must not exceed the scanner stream limit');
+  }
+
+  if (config.upload.scanner.maxAttempts < 1) {
+    errors.push('Scanner max attempts must be at least 1');
+  }
+
+  // Validate upload token secrets
+  if (config.upload.tokenSecrets.some(secret => secret.length < 32)) {
+    errors.push('Upload token secrets must be at least 32 characters long');
+  }
+
+  // Validate storage driver
+  if (!['local', 's3'].includes(config.upload.storageDriver)) {
+    errors.push('Storage driver must be either local or s3');
+  }
+
+  if (config.upload.storageDriver === 's3' && !config.upload.s3.bucket) {
+    errors.push('S3 bucket is required when using the s3 storage driver');
+  }
+
+  // S3 のマルチパートは最後以外のパートが5MiB以上必要
+  if (
+    config.upload.storageDriver === 's3' &&
+    config.upload.resumable.maxChunkSize < 5 * 1024 * 1024
+  ) {
+    errors.push('Resumable upload chunks must be at least 5MB with s3');
+  }
+
+  if (config.database.softDeleteRetentionDays < 1) {
+    errors.push('Soft delete retention must be at least 1 day');
+  }
+
   // Validate rate limit
   if (config.rateLimit.windowMs < 1000) {
     errors.push('Rate limit window must be at least 1 second');
@@ -292,6 +434,22 @@ function validateConfig(config: AppConfig): void {
     errors.push('Rate limit max requests must be at least 1');
   }
 
+  // Validate metrics
+  if (
+    config.metrics.port !== undefined &&
+    config.metrics.port === config.port
+  ) {
+    errors.push('Metrics port must differ from the server port');
+  }
+
+  if (
+    config.isProduction &&
+    !config.metrics.token &&
+    config.metrics.port === undefined
+  ) {
+    errors.push('Metrics require METRICS_TOKEN or METRICS_PORT in production');
+  }
+
   if (errors.length > 0) {
     throw new ConfigurationError('VALIDATION_FAILED', errors.join(', '));
   }
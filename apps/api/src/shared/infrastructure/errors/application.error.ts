@@ -68,6 +68,51 @@ export class ConflictError extends ApplicationError {
   }
 }
 
+/**
+ * Conditional request whose precondition (If-Match) does not hold
+ */
+export class PreconditionFailedError extends ApplicationError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 412, context);
+  }
+}
+
+/**
+ * Resource exists but cannot be served yet (or any more)
+ */
+export class ResourceNotAvailableError extends ApplicationError {
+  constructor(
+    resource: string,
+    id: string,
+    reason: string,
+    context?: Record<string, unknown>
+  ) {
+    super(`${resource} ${id} is not available: ${reason}`, 404, {
+      ...context,
+      resource,
+      id,
+      reason,
+    });
+  }
+}
+
+/**
+ * Storage quota exceeded error
+ */
+export class QuotaExceededError extends ApplicationError {
+  constructor(
+    quotaBytes: number,
+    usedBytes: number,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      `Storage quota exceeded: ${usedBytes} of ${quotaBytes} bytes used`,
+      413,
+      { ...context, quotaBytes, usedBytes }
+    );
+  }
+}
+
 /**
  * Rate limit exceeded error
  */
@@ -17,6 +17,9 @@ export {
   AuthenticationError,
   AuthorizationError,
   ConflictError,
+  PreconditionFailedError,
+  ResourceNotAvailableError,
+  QuotaExceededError,
   RateLimitExceededError,
 } from './application.error';
 
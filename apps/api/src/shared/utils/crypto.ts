@@ -120,48 +120,6 @@ export class CryptoUtils {
     return code.toString();
   }
 
-  /**
-   * Generate a secure file upload token
-   */
-  static generateFileUploadToken(userId: string, fileName: string): string {
-    const timestamp = Date.now().toString();
-    const data = `${userId}:${fileName}:${timestamp}`;
-    const hash = this.sha256(data);
-    return `${timestamp}:${hash}`;
-  }
-
-  /**
-   * Verify file upload token
-   */
-  static verifyFileUploadToken(
-    token: string,
-    userId: string,
-    fileName: string,
-    maxAgeMs: number = 3600000 // 1 hour default
-  ): boolean {
-    try {
-      const [timestampStr, hash] = token.split(':');
-      const timestamp = parseInt(timestampStr, 10);
-
-      // Check if token is not expired
-      const now = Date.now();
-      if (now - timestamp > maxAgeMs) {
-        return false;
-      }
-
-      // Verify hash
-      const expectedData = `${userId}:${fileName}:${timestampStr}`;
-      const expectedHash = this.sha256(expectedData);
-
-      return timingSafeEqual(
-        Buffer.from(hash, 'hex'),
-        Buffer.from(expectedHash, 'hex')
-      );
-    } catch {
-      return false;
-    }
-  }
-
   /**
    * Generate a secure reset token for password reset
    */
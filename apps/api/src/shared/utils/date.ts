@@ -237,4 +237,26 @@ export class DateUtils {
 
     return `${Math.floor(diffDays / 365)}年前`;
   }
+
+  /**
+   * Parse a duration string (e.g. "15m", "7d") into milliseconds
+   * A bare number is interpreted as seconds
+   */
+  static parseDuration(duration: string): number {
+    const match = /^(\d+)\s*(ms|s|m|h|d)?$/.exec(duration.trim());
+    if (!match) {
+      throw new Error(`Invalid duration format: ${duration}`);
+    }
+
+    const value = parseInt(match[1], 10);
+    const multipliers: Record<string, number> = {
+      ms: 1,
+      s: 1000,
+      m: 60 * 1000,
+      h: 60 * 60 * 1000,
+      d: 24 * 60 * 60 * 1000,
+    };
+
+    return value * multipliers[match[2] || 's'];
+  }
 }
@@ -1,4 +1,11 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
+import type { Span } from '@opentelemetry/api';
+import type { UserRole } from '@template/database';
+
+import type { HealthCheckRegistry } from '../lib/health';
+import type { ApiMetrics } from '../lib/metrics';
+import type { ResourceLoader } from '../middleware/auth';
+import type { PolicyAction, PolicySubject } from '../lib/policies';
 
 declare module 'fastify' {
   interface FastifyInstance {
@@ -11,16 +18,21 @@ declare module 'fastify' {
       reply: FastifyReply
     ) => Promise<void>;
     authorize: (
-      roles: string[]
+      roles: readonly UserRole[]
+    ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    can: <S extends PolicySubject>(
+      action: PolicyAction,
+      subject: S,
+      loader: ResourceLoader<S>
     ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    healthChecks: HealthCheckRegistry;
+    metrics: ApiMetrics;
   }
 
   interface FastifyRequest {
-    user?: {
-      id: string;
-      email: string;
-      role: string;
-      [key: string]: any;
-    };
+    /**
+     * Server span of the request (null until the tracing middleware runs)
+     */
+    span: Span | null;
   }
 }
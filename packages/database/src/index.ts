@@ -36,5 +36,15 @@ export type {
   UserProfile,
   Post,
   Comment,
+  Session,
+  RefreshToken,
+  File,
+  FileStatus,
+  FileType,
+  FileVariant,
+  UploadSession,
+  ConsumedUploadToken,
+  StorageUsage,
+  AuditLog,
   Prisma,
 } from '@prisma/client';
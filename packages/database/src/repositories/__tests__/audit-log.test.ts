@@ -0,0 +1,74 @@
+import { runWithAuditContext } from '../../utils/audit';
+import { AuditLogRepository } from '../audit-log';
+
+// Mock Prisma Client
+const mockAuditLog = {
+  findMany: jest.fn(),
+  create: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockPrismaClient = {
+  auditLog: mockAuditLog,
+};
+
+describe('AuditLogRepository', () => {
+  let auditLogRepository: AuditLogRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auditLogRepository = new AuditLogRepository(mockPrismaClient as any);
+  });
+
+  describe('findMany', () => {
+    it('should filter by actor, resource and date range, newest first', async () => {
+      const from = new Date('2024-01-01');
+      const to = new Date('2024-01-31');
+      mockAuditLog.findMany.mockResolvedValue([]);
+      mockAuditLog.count.mockResolvedValue(0);
+
+      await auditLogRepository.findMany({
+        actorId: 'user-1',
+        resource: 'Post',
+        createdAt: { from, to },
+      });
+
+      expect(mockAuditLog.findMany).toHaveBeenCalledWith({
+        where: {
+          actorId: 'user-1',
+          resource: 'Post',
+          createdAt: { gte: from, lte: to },
+        },
+        include: undefined,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: 0,
+        take: 20,
+      });
+    });
+  });
+
+  describe('record', () => {
+    it('should record an entry with the audit context', async () => {
+      await runWithAuditContext({ traceId: 'trace-1' }, () =>
+        auditLogRepository.record({
+          action: 'file.quarantined',
+          resource: 'File',
+          resourceId: 'file-1',
+          metadata: { threat: 'Eicar-Test-Signature' },
+        })
+      );
+
+      expect(mockAuditLog.create).toHaveBeenCalledWith({
+        data: {
+          action: 'file.quarantined',
+          resource: 'File',
+          resourceId: 'file-1',
+          metadata: { threat: 'Eicar-Test-Signature' },
+          actorId: null,
+          traceId: 'trace-1',
+          ipAddress: null,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { CommentRepository } from '../comment';
+
+// Mock Prisma Client
+const mockComment = {
+  findUnique: jest.fn(),
+  findFirst: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockPrismaClient = {
+  comment: mockComment,
+};
+
+const defaultInclude = {
+  author: { select: { id: true, name: true } },
+};
+
+// 削除されていないコメント（投稿者・投稿・投稿の投稿者も削除されていない）
+const visible = {
+  deletedAt: null,
+  author: { deletedAt: null },
+  post: { deletedAt: null, author: { deletedAt: null } },
+};
+
+describe('CommentRepository', () => {
+  let commentRepository: CommentRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    commentRepository = new CommentRepository(mockPrismaClient as any);
+  });
+
+  describe('findOnPost', () => {
+    it('should scope the lookup to the post', async () => {
+      const mockCommentData = { id: '1', postId: 'post-1' };
+
+      mockComment.findFirst.mockResolvedValue(mockCommentData);
+
+      const result = await commentRepository.findOnPost('post-1', '1');
+
+      expect(mockComment.findFirst).toHaveBeenCalledWith({
+        where: { id: '1', postId: 'post-1', ...visible },
+        include: defaultInclude,
+      });
+      expect(result).toBe(mockCommentData);
+    });
+  });
+
+  describe('findMany', () => {
+    it('should list comments on a post, oldest first', async () => {
+      mockComment.findMany.mockResolvedValue([]);
+      mockComment.count.mockResolvedValue(0);
+
+      await commentRepository.findMany(
+        { postId: 'post-1', search: 'thanks' },
+        { page: 1, limit: 20 }
+      );
+
+      expect(mockComment.findMany).toHaveBeenCalledWith({
+        where: {
+          postId: 'post-1',
+          OR: [{ content: { contains: 'thanks', mode: 'insensitive' } }],
+          ...visible,
+        },
+        include: defaultInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: 0,
+        take: 20,
+      });
+    });
+  });
+
+  describe('countByPost', () => {
+    it('should count comments on a post', async () => {
+      mockComment.count.mockResolvedValue(3);
+
+      const result = await commentRepository.countByPost('post-1');
+
+      expect(mockComment.count).toHaveBeenCalledWith({
+        where: { postId: 'post-1', ...visible },
+      });
+      expect(result).toBe(3);
+    });
+  });
+});
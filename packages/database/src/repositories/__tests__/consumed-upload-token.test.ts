@@ -0,0 +1,71 @@
+import { ConsumedUploadTokenRepository } from '../consumed-upload-token';
+
+// Mock Prisma Client
+const mockConsumedUploadToken = {
+  create: jest.fn(),
+  deleteMany: jest.fn(),
+};
+
+const mockPrismaClient = {
+  consumedUploadToken: mockConsumedUploadToken,
+};
+
+describe('ConsumedUploadTokenRepository', () => {
+  let consumedUploadTokenRepository: ConsumedUploadTokenRepository;
+  const expiresAt = new Date('2024-01-01T00:15:00.000Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consumedUploadTokenRepository = new ConsumedUploadTokenRepository(
+      mockPrismaClient as any
+    );
+  });
+
+  describe('consume', () => {
+    it('should record the first use of a token', async () => {
+      mockConsumedUploadToken.create.mockResolvedValue({ jti: 'jti-1' });
+
+      await expect(
+        consumedUploadTokenRepository.consume('jti-1', expiresAt)
+      ).resolves.toBe(true);
+      expect(mockConsumedUploadToken.create).toHaveBeenCalledWith({
+        data: { jti: 'jti-1', expiresAt },
+      });
+    });
+
+    it('should refuse a token that was already used', async () => {
+      mockConsumedUploadToken.create.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), {
+          name: 'PrismaClientKnownRequestError',
+          code: 'P2002',
+        })
+      );
+
+      await expect(
+        consumedUploadTokenRepository.consume('jti-1', expiresAt)
+      ).resolves.toBe(false);
+    });
+
+    it('should rethrow other errors', async () => {
+      const error = new Error('Connection lost');
+      mockConsumedUploadToken.create.mockRejectedValue(error);
+
+      await expect(
+        consumedUploadTokenRepository.consume('jti-1', expiresAt)
+      ).rejects.toBe(error);
+    });
+  });
+
+  describe('deleteExpired', () => {
+    it('should delete tokens that expired before the given time', async () => {
+      mockConsumedUploadToken.deleteMany.mockResolvedValue({ count: 2 });
+
+      await expect(
+        consumedUploadTokenRepository.deleteExpired(expiresAt)
+      ).resolves.toBe(2);
+      expect(mockConsumedUploadToken.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expiresAt } },
+      });
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { FileRepository } from '../file';
+
+// Mock Prisma Client
+const mockFile = {
+  findUnique: jest.fn(),
+  findMany: jest.fn(),
+  updateMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockStorageUsage = {
+  findMany: jest.fn(),
+  aggregate: jest.fn(),
+  upsert: jest.fn(),
+  update: jest.fn(),
+};
+
+const mockFileVariant = {
+  createMany: jest.fn(),
+};
+
+const mockPrismaClient: Record<string, unknown> = {
+  file: mockFile,
+  fileVariant: mockFileVariant,
+  storageUsage: mockStorageUsage,
+  $queryRaw: jest.fn(),
+  $transaction: jest.fn((fn: (_tx: unknown) => unknown) =>
+    fn(mockPrismaClient)
+  ),
+};
+
+describe('FileRepository', () => {
+  let fileRepository: FileRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fileRepository = new FileRepository(mockPrismaClient as any);
+  });
+
+  describe('findMany', () => {
+    it('should filter by owner and type, newest first', async () => {
+      mockFile.findMany.mockResolvedValue([]);
+      mockFile.count.mockResolvedValue(0);
+
+      await fileRepository.findMany(
+        { ownerId: 'user-1', type: 'IMAGE' },
+        { page: 1, limit: 20 }
+      );
+
+      expect(mockFile.findMany).toHaveBeenCalledWith({
+        where: { ownerId: 'user-1', type: 'IMAGE' },
+        include: { variants: true },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: 0,
+        take: 20,
+      });
+    });
+  });
+
+  describe('create', () => {
+    const data = {
+      ownerId: 'user-1',
+      originalName: 'report.pdf',
+      mimeType: 'application/pdf',
+      size: 300,
+      checksum: 'abc',
+      type: 'DOCUMENT' as const,
+      storageKey: 'user-1/abc',
+    };
+
+    beforeEach(() => {
+      mockFile.create.mockResolvedValue({ id: '1', ...data, variants: [] });
+    });
+
+    it('should add the file to the owner usage in the same transaction', async () => {
+      await fileRepository.create(data);
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalled();
+      expect(mockStorageUsage.upsert).toHaveBeenCalledWith({
+        where: { userId_type: { userId: 'user-1', type: 'DOCUMENT' } },
+        create: {
+          userId: 'user-1',
+          type: 'DOCUMENT',
+          bytes: 300,
+          fileCount: 1,
+        },
+        update: { bytes: { increment: 300 }, fileCount: { increment: 1 } },
+      });
+    });
+
+    it('should create nothing when the quota would be exceeded', async () => {
+      mockStorageUsage.aggregate.mockResolvedValue({
+        _sum: { bytes: BigInt(800) },
+      });
+
+      expect(await fileRepository.createWithinQuota(data, 1000)).toBeNull();
+      expect(mockPrismaClient.$queryRaw).toHaveBeenCalled();
+      expect(mockFile.create).not.toHaveBeenCalled();
+
+      expect(await fileRepository.createWithinQuota(data, 1100)).toEqual(
+        expect.objectContaining({ id: '1' })
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the file from the owner usage', async () => {
+      mockFile.delete.mockResolvedValue({
+        id: '1',
+        ownerId: 'user-1',
+        type: 'IMAGE',
+        size: 120,
+      });
+
+      await fileRepository.delete('1');
+
+      expect(mockStorageUsage.update).toHaveBeenCalledWith({
+        where: { userId_type: { userId: 'user-1', type: 'IMAGE' } },
+        data: { bytes: { decrement: 120 }, fileCount: { decrement: 1 } },
+      });
+    });
+
+    it('should not soft delete files', async () => {
+      await expect(fileRepository.restore('1')).rejects.toThrow(
+        'FileRepository does not use soft delete'
+      );
+    });
+
+    it('should not take an expected version', async () => {
+      await expect(fileRepository.update('1', {}, 1)).rejects.toThrow(
+        'FileRepository does not use versioning'
+      );
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should convert byte counts to numbers', async () => {
+      mockStorageUsage.findMany.mockResolvedValue([
+        { userId: 'user-1', type: 'IMAGE', bytes: BigInt(2048), fileCount: 2 },
+      ]);
+
+      expect(await fileRepository.getUsage('user-1')).toEqual([
+        { type: 'IMAGE', bytes: 2048, fileCount: 2 },
+      ]);
+    });
+  });
+
+  describe('findByStorageKey', () => {
+    it('should find a file by storage key', async () => {
+      const mockFileData = { id: '1', storageKey: 'user-1/abc' };
+
+      mockFile.findUnique.mockResolvedValue(mockFileData);
+
+      const result = await fileRepository.findByStorageKey('user-1/abc');
+
+      expect(mockFile.findUnique).toHaveBeenCalledWith({
+        where: { storageKey: 'user-1/abc' },
+        include: { variants: true },
+      });
+      expect(result).toBe(mockFileData);
+    });
+  });
+
+  describe('setPublic', () => {
+    it('should update the visibility flag', async () => {
+      mockFile.update.mockResolvedValue({ id: '1', isPublic: true });
+
+      await fileRepository.setPublic('1', true);
+
+      expect(mockFile.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: { isPublic: true },
+        include: { variants: true },
+      });
+    });
+  });
+
+  describe('findPendingScan', () => {
+    it('should find pending files, least failed and oldest first', async () => {
+      mockFile.findMany.mockResolvedValue([]);
+
+      await fileRepository.findPendingScan(5);
+
+      expect(mockFile.findMany).toHaveBeenCalledWith({
+        where: { status: 'PENDING_SCAN' },
+        include: { variants: true },
+        orderBy: [{ scanAttempts: 'asc' }, { createdAt: 'asc' }],
+        take: 5,
+      });
+    });
+  });
+
+  describe('recordScanFailure', () => {
+    it('should count the attempt while under the limit', async () => {
+      mockFile.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      expect(await fileRepository.recordScanFailure('1', 5)).toBe(false);
+
+      expect(mockFile.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: '1', status: 'PENDING_SCAN' },
+        data: { scanAttempts: { increment: 1 } },
+      });
+      expect(mockFile.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { id: '1', status: 'PENDING_SCAN', scanAttempts: { gte: 5 } },
+        data: { status: 'SCAN_FAILED', scannedAt: expect.any(Date) },
+      });
+    });
+
+    it('should give up once the limit is reached', async () => {
+      mockFile.updateMany.mockResolvedValue({ count: 1 });
+
+      expect(await fileRepository.recordScanFailure('1', 5)).toBe(true);
+    });
+  });
+
+  describe('completeScan', () => {
+    it('should only update files that are still pending', async () => {
+      mockFile.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await fileRepository.completeScan('1', {
+        status: 'QUARANTINED',
+        threat: 'Eicar-Test-Signature',
+      });
+
+      expect(mockFile.updateMany).toHaveBeenCalledWith({
+        where: { id: '1', status: 'PENDING_SCAN' },
+        data: {
+          status: 'QUARANTINED',
+          threat: 'Eicar-Test-Signature',
+          scannedAt: expect.any(Date),
+        },
+      });
+      expect(result).toBe(false);
+    });
+
+    it('should replace the content of clean images', async () => {
+      mockFile.findUnique.mockResolvedValue({
+        id: '1',
+        ownerId: 'user-1',
+        type: 'IMAGE',
+        size: 5000,
+      });
+      mockFile.updateMany.mockResolvedValue({ count: 1 });
+      const variant = {
+        name: 'original',
+        mimeType: 'image/webp',
+        width: 10,
+        height: 10,
+        size: 3000,
+        checksum: 'def',
+        storageKey: 'user-1/abc-original.webp',
+      };
+
+      const result = await fileRepository.completeScan('1', {
+        status: 'CLEAN',
+        processed: {
+          mimeType: 'image/webp',
+          size: 3000,
+          checksum: 'def',
+          storageKey: 'user-1/abc-original.webp',
+          variants: [variant],
+        },
+      });
+
+      expect(mockFile.updateMany).toHaveBeenCalledWith({
+        where: { id: '1', status: 'PENDING_SCAN' },
+        data: {
+          status: 'CLEAN',
+          mimeType: 'image/webp',
+          size: 3000,
+          checksum: 'def',
+          storageKey: 'user-1/abc-original.webp',
+          scannedAt: expect.any(Date),
+        },
+      });
+      expect(mockFileVariant.createMany).toHaveBeenCalledWith({
+        data: [{ ...variant, fileId: '1' }],
+      });
+      expect(mockStorageUsage.update).toHaveBeenCalledWith({
+        where: { userId_type: { userId: 'user-1', type: 'IMAGE' } },
+        data: { bytes: { increment: -2000 } },
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should not add variants when another scan finished first', async () => {
+      mockFile.findUnique.mockResolvedValue({ id: '1', size: 5000 });
+      mockFile.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await fileRepository.completeScan('1', {
+        status: 'CLEAN',
+        processed: {
+          mimeType: 'image/webp',
+          size: 3000,
+          checksum: 'def',
+          storageKey: 'user-1/abc-original.webp',
+          variants: [],
+        },
+      });
+
+      expect(mockFileVariant.createMany).not.toHaveBeenCalled();
+      expect(mockStorageUsage.update).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,397 @@
+import { runWithAuditContext } from '../../utils/audit';
+import { VersionConflictError } from '../../utils/errors';
+import { PostRepository } from '../post';
+
+// Mock Prisma Client
+const mockPost = {
+  findUnique: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  deleteMany: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockAuditLog = {
+  create: jest.fn(),
+  createMany: jest.fn(),
+};
+
+const mockPrismaClient = {
+  post: mockPost,
+  auditLog: mockAuditLog,
+};
+
+// 削除されていない投稿（投稿者も削除されていない）
+const visible = { deletedAt: null, author: { deletedAt: null } };
+
+const defaultInclude = {
+  author: { select: { id: true, name: true } },
+  _count: { select: { comments: { where: visible } } },
+};
+
+describe('PostRepository', () => {
+  let postRepository: PostRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    postRepository = new PostRepository(mockPrismaClient as any);
+  });
+
+  describe('findById', () => {
+    it('should include author and comment count', async () => {
+      const mockPostData = { id: '1', title: 'Hello' };
+
+      mockPost.findUnique.mockResolvedValue(mockPostData);
+
+      const result = await postRepository.findById('1');
+
+      expect(mockPost.findUnique).toHaveBeenCalledWith({
+        where: { id: '1', ...visible },
+        include: defaultInclude,
+      });
+      expect(result).toBe(mockPostData);
+    });
+  });
+
+  describe('findMany', () => {
+    beforeEach(() => {
+      mockPost.findMany.mockResolvedValue([]);
+      mockPost.count.mockResolvedValue(0);
+    });
+
+    it('should filter by author and publication status', async () => {
+      await postRepository.findMany(
+        { authorId: 'user-1', published: false },
+        { page: 2, limit: 10 }
+      );
+
+      expect(mockPost.findMany).toHaveBeenCalledWith({
+        where: { authorId: 'user-1', published: false, ...visible },
+        include: defaultInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: 10,
+        take: 10,
+      });
+      expect(mockPost.count).toHaveBeenCalledWith({
+        where: { authorId: 'user-1', published: false, ...visible },
+      });
+    });
+
+    it('should filter by creation date range', async () => {
+      const from = new Date('2024-01-01');
+      const to = new Date('2024-01-31');
+
+      await postRepository.findMany({ createdAt: { from, to } });
+
+      expect(mockPost.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { createdAt: { gte: from, lte: to }, ...visible },
+        })
+      );
+    });
+
+    it('should search in title and content', async () => {
+      await postRepository.findMany({ search: 'prisma' });
+
+      const searchWhere = { contains: 'prisma', mode: 'insensitive' };
+      expect(mockPost.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [{ title: searchWhere }, { content: searchWhere }],
+            ...visible,
+          },
+        })
+      );
+    });
+
+    it('should page by cursor without counting', async () => {
+      const createdAt = new Date('2024-01-01T00:00:00.000Z');
+      mockPost.findMany.mockResolvedValue([
+        { id: 'b', createdAt },
+        { id: 'a', createdAt },
+      ]);
+
+      const result = await postRepository.findMany(
+        { published: true },
+        { cursor: undefined, limit: 1 }
+      );
+
+      expect(mockPost.findMany).toHaveBeenCalledWith({
+        where: { AND: [{ published: true, ...visible }] },
+        include: defaultInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 2,
+      });
+      expect(mockPost.count).not.toHaveBeenCalled();
+      expect(result.data).toEqual([{ id: 'b', createdAt }]);
+      expect(result.hasNext).toBe(true);
+      expect(result.nextCursor).toEqual(expect.any(String));
+    });
+  });
+
+  describe('findByAuthor', () => {
+    it('should find posts by author, newest first', async () => {
+      mockPost.findMany.mockResolvedValue([]);
+
+      await postRepository.findByAuthor('user-1');
+
+      expect(mockPost.findMany).toHaveBeenCalledWith({
+        where: { authorId: 'user-1', ...visible },
+        include: defaultInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      });
+    });
+  });
+
+  describe('setPublished', () => {
+    it('should update publication status', async () => {
+      const mockPostData = { id: '1', published: true };
+
+      mockPost.update.mockResolvedValue(mockPostData);
+
+      const result = await postRepository.setPublished('1', true);
+
+      expect(mockPost.update).toHaveBeenCalledWith({
+        where: { id: '1', ...visible },
+        data: { published: true, version: { increment: 1 } },
+        include: defaultInclude,
+      });
+      expect(result).toBe(mockPostData);
+    });
+  });
+
+  describe('soft delete', () => {
+    it('should set deletedAt instead of deleting', async () => {
+      await postRepository.delete('1');
+
+      expect(mockPost.update).toHaveBeenCalledWith({
+        where: { id: '1', ...visible },
+        data: { deletedAt: expect.any(Date) },
+        include: defaultInclude,
+      });
+      expect(mockPost.delete).not.toHaveBeenCalled();
+    });
+
+    it('should restore only deleted posts', async () => {
+      await postRepository.restore('1');
+
+      expect(mockPost.update).toHaveBeenCalledWith({
+        where: { id: '1', deletedAt: { not: null } },
+        data: { deletedAt: null },
+        include: defaultInclude,
+      });
+    });
+
+    it('should list deleted posts, most recently deleted first', async () => {
+      mockPost.findMany.mockResolvedValue([]);
+      mockPost.count.mockResolvedValue(0);
+
+      await postRepository.findDeleted({ authorId: 'user-1' });
+
+      expect(mockPost.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { authorId: 'user-1', deletedAt: { not: null } },
+          orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        })
+      );
+    });
+
+    it('should count only posts that are not deleted', async () => {
+      mockPost.count.mockResolvedValue(3);
+
+      await postRepository.count({ authorId: 'user-1' });
+
+      expect(mockPost.count).toHaveBeenCalledWith({
+        where: { authorId: 'user-1', ...visible },
+      });
+    });
+
+    it('should purge a post for good', async () => {
+      await postRepository.purge('1');
+
+      expect(mockPost.delete).toHaveBeenCalledWith({
+        where: { id: '1' },
+        include: defaultInclude,
+      });
+    });
+
+    it('should purge posts deleted before the cutoff', async () => {
+      const before = new Date('2024-01-01');
+      const deletedAt = new Date('2023-12-01');
+      mockPost.findMany.mockResolvedValue([
+        { id: '1', title: 'Hello', deletedAt },
+        { id: '2', title: 'World', deletedAt },
+      ]);
+      mockPost.deleteMany.mockResolvedValue({ count: 2 });
+
+      const purged = await postRepository.purgeDeletedBefore(before);
+
+      expect(mockPost.findMany).toHaveBeenCalledWith({
+        where: { deletedAt: { lt: before } },
+      });
+      expect(mockPost.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['1', '2'] } },
+      });
+      expect(mockAuditLog.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            action: 'purge',
+            resource: 'Post',
+            resourceId: '1',
+            changes: expect.objectContaining({ title: { from: 'Hello' } }),
+          }),
+          expect.objectContaining({ action: 'purge', resourceId: '2' }),
+        ],
+      });
+      expect(purged).toBe(2);
+    });
+
+    it('should not write audit entries when nothing is purged', async () => {
+      mockPost.findMany.mockResolvedValue([]);
+
+      const purged = await postRepository.purgeDeletedBefore(new Date());
+
+      expect(mockPost.deleteMany).not.toHaveBeenCalled();
+      expect(mockAuditLog.createMany).not.toHaveBeenCalled();
+      expect(purged).toBe(0);
+    });
+  });
+
+  describe('versioning', () => {
+    const notFound = () =>
+      Object.assign(new Error('Record to update not found.'), {
+        name: 'PrismaClientKnownRequestError',
+        code: 'P2025',
+      });
+
+    it('should update only at the expected version', async () => {
+      mockPost.update.mockResolvedValue({ id: '1', version: 3 });
+
+      await postRepository.update('1', { title: 'Hello' }, 2);
+
+      expect(mockPost.update).toHaveBeenCalledWith({
+        where: { id: '1', version: 2, ...visible },
+        data: { title: 'Hello', version: { increment: 1 } },
+        include: defaultInclude,
+      });
+    });
+
+    it('should throw VersionConflictError when the version moved on', async () => {
+      mockPost.update.mockRejectedValue(notFound());
+      mockPost.findUnique.mockResolvedValue({ version: 3 });
+
+      const error = await postRepository
+        .update('1', { title: 'Hello' }, 2)
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error).toMatchObject({
+        id: '1',
+        expectedVersion: 2,
+        currentVersion: 3,
+      });
+      expect(mockAuditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow when the post does not exist or was deleted', async () => {
+      const error = notFound();
+      mockPost.update.mockRejectedValue(error);
+      mockPost.findUnique.mockResolvedValue(null);
+
+      await expect(
+        postRepository.update('1', { title: 'Hello' }, 2)
+      ).rejects.toBe(error);
+      expect(mockPost.findUnique).toHaveBeenLastCalledWith({
+        where: { id: '1', ...visible },
+        select: { version: true },
+      });
+    });
+  });
+
+  describe('audit', () => {
+    const createdAt = new Date('2024-01-01T00:00:00.000Z');
+    const before = {
+      id: '1',
+      title: 'Hello',
+      published: false,
+      createdAt,
+      updatedAt: createdAt,
+    };
+
+    it('should record changed fields with the audit context', async () => {
+      const updatedAt = new Date('2024-01-02T00:00:00.000Z');
+      mockPost.findUnique.mockResolvedValue(before);
+      mockPost.update.mockResolvedValue({
+        ...before,
+        title: 'Hello, world',
+        updatedAt,
+        author: { id: 'user-1', name: 'Author' },
+      });
+
+      await runWithAuditContext(
+        { actorId: 'user-1', traceId: 'trace-1', ipAddress: '10.0.0.1' },
+        () => postRepository.update('1', { title: 'Hello, world' })
+      );
+
+      expect(mockAuditLog.create).toHaveBeenCalledWith({
+        data: {
+          action: 'update',
+          resource: 'Post',
+          resourceId: '1',
+          changes: {
+            title: { from: 'Hello', to: 'Hello, world' },
+            updatedAt: {
+              from: '2024-01-01T00:00:00.000Z',
+              to: '2024-01-02T00:00:00.000Z',
+            },
+          },
+          actorId: 'user-1',
+          traceId: 'trace-1',
+          ipAddress: '10.0.0.1',
+        },
+      });
+    });
+
+    it('should record new values on create without a context', async () => {
+      mockPost.create.mockResolvedValue(before);
+
+      await postRepository.create({
+        title: 'Hello',
+        content: '',
+        authorId: 'user-1',
+      });
+
+      expect(mockPost.findUnique).not.toHaveBeenCalled();
+      expect(mockAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'create',
+          resourceId: '1',
+          changes: expect.objectContaining({
+            title: { to: 'Hello' },
+          }),
+          actorId: null,
+          traceId: null,
+          ipAddress: null,
+        }),
+      });
+    });
+
+    it('should record old values on purge', async () => {
+      mockPost.findUnique.mockResolvedValue(before);
+      mockPost.delete.mockResolvedValue(before);
+
+      await postRepository.purge('1');
+
+      expect(mockAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'purge',
+          changes: expect.objectContaining({
+            title: { from: 'Hello' },
+          }),
+        }),
+      });
+    });
+  });
+});
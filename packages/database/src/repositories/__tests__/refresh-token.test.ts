@@ -0,0 +1,108 @@
+import { RefreshTokenRepository } from '../refresh-token';
+
+// Mock Prisma Client
+const mockRefreshToken = {
+  findUnique: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+  delete: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockPrismaClient = {
+  refreshToken: mockRefreshToken,
+};
+
+describe('RefreshTokenRepository', () => {
+  let refreshTokenRepository: RefreshTokenRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    refreshTokenRepository = new RefreshTokenRepository(
+      mockPrismaClient as any
+    );
+  });
+
+  describe('findByTokenHash', () => {
+    it('should find token by hash', async () => {
+      const mockToken = { id: '1', tokenHash: 'abc', familyId: 'fam-1' };
+
+      mockRefreshToken.findUnique.mockResolvedValue(mockToken);
+
+      const result = await refreshTokenRepository.findByTokenHash('abc');
+
+      expect(mockRefreshToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: 'abc' },
+      });
+      expect(result).toBe(mockToken);
+    });
+  });
+
+  describe('revokeIfActive', () => {
+    it('should return true when the token was revoked', async () => {
+      mockRefreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await refreshTokenRepository.revokeIfActive('1');
+
+      expect(mockRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: '1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should return false when the token was already revoked', async () => {
+      mockRefreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await refreshTokenRepository.revokeIfActive('1');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('revokeFamily', () => {
+    it('should revoke all active tokens in the family', async () => {
+      mockRefreshToken.updateMany.mockResolvedValue({ count: 3 });
+
+      const result = await refreshTokenRepository.revokeFamily('fam-1');
+
+      expect(mockRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'fam-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(result).toBe(3);
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should revoke all active tokens of the user', async () => {
+      mockRefreshToken.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await refreshTokenRepository.revokeAllForUser('user-1');
+
+      expect(mockRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(result).toBe(2);
+    });
+  });
+
+  describe('count', () => {
+    it('should only count active tokens when requested', async () => {
+      mockRefreshToken.count.mockResolvedValue(1);
+
+      await refreshTokenRepository.count({ userId: 'user-1', active: true });
+
+      expect(mockRefreshToken.count).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          revokedAt: null,
+          expiresAt: { gt: expect.any(Date) },
+        },
+      });
+    });
+  });
+});
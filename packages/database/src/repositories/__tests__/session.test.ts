@@ -0,0 +1,139 @@
+import { SessionRepository } from '../session';
+
+// Mock Prisma Client
+const mockSession = {
+  findUnique: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+  delete: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockRefreshToken = {
+  updateMany: jest.fn(),
+};
+
+const mockPrismaClient = {
+  session: mockSession,
+  refreshToken: mockRefreshToken,
+};
+
+describe('SessionRepository', () => {
+  let sessionRepository: SessionRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionRepository = new SessionRepository(mockPrismaClient as any);
+  });
+
+  describe('findActiveByUser', () => {
+    it('should list non-revoked, unexpired sessions by last use', async () => {
+      const mockSessions = [{ id: 's1' }, { id: 's2' }];
+
+      mockSession.findMany.mockResolvedValue(mockSessions);
+
+      const result = await sessionRepository.findActiveByUser('user-1');
+
+      expect(mockSession.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          expiresAt: { gt: expect.any(Date) },
+          revokedAt: null,
+        },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+      expect(result).toBe(mockSessions);
+    });
+  });
+
+  describe('isActive', () => {
+    it('should count only non-revoked, unexpired sessions', async () => {
+      mockSession.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await expect(sessionRepository.isActive('s1')).resolves.toBe(true);
+      await expect(sessionRepository.isActive('s2')).resolves.toBe(false);
+
+      expect(mockSession.count).toHaveBeenCalledWith({
+        where: {
+          id: 's1',
+          expiresAt: { gt: expect.any(Date) },
+          revokedAt: null,
+        },
+      });
+    });
+  });
+
+  describe('touch', () => {
+    it('should update last use and client details', async () => {
+      const expiresAt = new Date();
+
+      await sessionRepository.touch('s1', {
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest',
+        expiresAt,
+      });
+
+      expect(mockSession.update).toHaveBeenCalledWith({
+        where: { id: 's1' },
+        data: {
+          ipAddress: '127.0.0.1',
+          userAgent: 'jest',
+          expiresAt,
+          lastUsedAt: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke the session and its refresh tokens', async () => {
+      await sessionRepository.revoke('s1');
+
+      expect(mockSession.update).toHaveBeenCalledWith({
+        where: { id: 's1' },
+        data: {
+          revokedAt: expect.any(Date),
+          refreshTokens: {
+            updateMany: {
+              where: { revokedAt: null },
+              data: { revokedAt: expect.any(Date) },
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('revokeAllExcept', () => {
+    it('should revoke other sessions and their tokens', async () => {
+      mockSession.updateMany.mockResolvedValue({ count: 2 });
+      mockRefreshToken.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await sessionRepository.revokeAllExcept('user-1', 's1');
+
+      expect(mockSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null, NOT: { id: 's1' } },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null, NOT: { familyId: 's1' } },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(result).toBe(2);
+    });
+
+    it('should revoke every session when none is kept', async () => {
+      mockSession.updateMany.mockResolvedValue({ count: 3 });
+      mockRefreshToken.updateMany.mockResolvedValue({ count: 3 });
+
+      await sessionRepository.revokeAllExcept('user-1');
+
+      expect(mockSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+});
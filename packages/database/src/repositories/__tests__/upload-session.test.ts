@@ -0,0 +1,66 @@
+import { UploadSessionRepository } from '../upload-session';
+
+// Mock Prisma Client
+const mockUploadSession = {
+  findUnique: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+  delete: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockPrismaClient = {
+  uploadSession: mockUploadSession,
+};
+
+describe('UploadSessionRepository', () => {
+  let uploadSessionRepository: UploadSessionRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    uploadSessionRepository = new UploadSessionRepository(
+      mockPrismaClient as any
+    );
+  });
+
+  describe('advance', () => {
+    it('should only move the offset from the expected position', async () => {
+      mockUploadSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await uploadSessionRepository.advance('1', 0, 1024, [
+        { number: 1, etag: 'etag-1' },
+      ]);
+
+      expect(mockUploadSession.updateMany).toHaveBeenCalledWith({
+        where: { id: '1', offset: 0 },
+        data: { offset: 1024, parts: [{ number: 1, etag: 'etag-1' }] },
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should report a lost race', async () => {
+      mockUploadSession.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await uploadSessionRepository.advance('1', 0, 1024, []);
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('findExpired', () => {
+    it('should find sessions past their expiry, oldest first', async () => {
+      const before = new Date('2024-01-01');
+      mockUploadSession.findMany.mockResolvedValue([]);
+
+      await uploadSessionRepository.findExpired(before, 50);
+
+      expect(mockUploadSession.findMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: before } },
+        orderBy: { expiresAt: 'asc' },
+        take: 50,
+      });
+    });
+  });
+});
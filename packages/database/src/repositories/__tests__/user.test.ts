@@ -11,8 +11,17 @@ const mockUser = {
   groupBy: jest.fn(),
 };
 
-const mockPrismaClient = {
+const mockSession = { updateMany: jest.fn() };
+const mockRefreshToken = { updateMany: jest.fn() };
+
+const mockPrismaClient: Record<string, unknown> = {
   user: mockUser,
+  session: mockSession,
+  refreshToken: mockRefreshToken,
+  auditLog: { create: jest.fn() },
+  $transaction: jest.fn((fn: (_tx: unknown) => unknown) =>
+    fn(mockPrismaClient)
+  ),
 };
 
 describe('UserRepository', () => {
@@ -37,11 +46,11 @@ describe('UserRepository', () => {
       const result = await userRepository.findByEmail('test@example.com');
 
       expect(mockUser.findUnique).toHaveBeenCalledWith({
-        where: { email: 'test@example.com' },
+        where: { email: 'test@example.com', deletedAt: null },
         include: {
           profile: true,
-          posts: true,
-          comments: true,
+          posts: { where: { deletedAt: null } },
+          comments: { where: { deletedAt: null } },
         },
       });
       expect(result).toBe(mockUserData);
@@ -61,17 +70,33 @@ describe('UserRepository', () => {
       const result = await userRepository.findByFirebaseUid('firebase123');
 
       expect(mockUser.findUnique).toHaveBeenCalledWith({
-        where: { firebaseUid: 'firebase123' },
+        where: { firebaseUid: 'firebase123', deletedAt: null },
         include: {
           profile: true,
-          posts: true,
-          comments: true,
+          posts: { where: { deletedAt: null } },
+          comments: { where: { deletedAt: null } },
         },
       });
       expect(result).toBe(mockUserData);
     });
   });
 
+  describe('findAccessState', () => {
+    it('should select only role and active status', async () => {
+      const mockState = { id: '1', role: 'ADMIN', isActive: true };
+
+      mockUser.findUnique.mockResolvedValue(mockState);
+
+      const result = await userRepository.findAccessState('1');
+
+      expect(mockUser.findUnique).toHaveBeenCalledWith({
+        where: { id: '1', deletedAt: null },
+        select: { id: true, role: true, isActive: true },
+      });
+      expect(result).toBe(mockState);
+    });
+  });
+
   describe('findByRole', () => {
     it('should find users by role', async () => {
       const mockUsers = [
@@ -84,11 +109,11 @@ describe('UserRepository', () => {
       const result = await userRepository.findByRole('USER');
 
       expect(mockUser.findMany).toHaveBeenCalledWith({
-        where: { role: 'USER' },
+        where: { role: 'USER', deletedAt: null },
         include: {
           profile: true,
-          posts: true,
-          comments: true,
+          posts: { where: { deletedAt: null } },
+          comments: { where: { deletedAt: null } },
         },
       });
       expect(result).toBe(mockUsers);
@@ -104,15 +129,51 @@ describe('UserRepository', () => {
       const result = await userRepository.updateLastLogin('1');
 
       expect(mockUser.update).toHaveBeenCalledWith({
-        where: { id: '1' },
+        where: { id: '1', deletedAt: null },
         data: { lastLoginAt: expect.any(Date) },
         include: {
           profile: true,
-          posts: true,
-          comments: true,
+          posts: { where: { deletedAt: null } },
+          comments: { where: { deletedAt: null } },
         },
       });
       expect(result).toBe(mockUserData);
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'update',
+          resource: 'User',
+          resourceId: '1',
+        }),
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should revoke sessions and refresh tokens with the soft delete', async () => {
+      const deletedAt = new Date();
+      mockUser.findUnique.mockResolvedValue({ id: '1', deletedAt: null });
+      mockUser.update.mockResolvedValue({ id: '1', deletedAt });
+
+      await userRepository.delete('1');
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockUser.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: '1', deletedAt: null },
+          data: { deletedAt: expect.any(Date) },
+        })
+      );
+      const revoke = {
+        where: { userId: '1', revokedAt: null },
+        data: { revokedAt: deletedAt },
+      };
+      expect(mockSession.updateMany).toHaveBeenCalledWith(revoke);
+      expect(mockRefreshToken.updateMany).toHaveBeenCalledWith(revoke);
+      expect(
+        (mockPrismaClient.auditLog as { create: jest.Mock }).create
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'delete', resourceId: '1' }),
+      });
     });
   });
 
@@ -125,12 +186,12 @@ describe('UserRepository', () => {
       const result = await userRepository.setActiveStatus('1', false);
 
       expect(mockUser.update).toHaveBeenCalledWith({
-        where: { id: '1' },
-        data: { isActive: false },
+        where: { id: '1', deletedAt: null },
+        data: { isActive: false, version: { increment: 1 } },
         include: {
           profile: true,
-          posts: true,
-          comments: true,
+          posts: { where: { deletedAt: null } },
+          comments: { where: { deletedAt: null } },
         },
       });
       expect(result).toBe(mockUserData);
@@ -184,6 +245,7 @@ describe('UserRepository', () => {
 
       expect(mockUser.groupBy).toHaveBeenCalledWith({
         by: ['role'],
+        where: { deletedAt: null },
         _count: { id: true },
       });
 
@@ -216,4 +278,51 @@ describe('UserRepository', () => {
       expect(mockPaginatedQuery).toHaveBeenCalled();
     });
   });
+
+  describe('findMany', () => {
+    beforeEach(() => {
+      mockUser.findMany.mockResolvedValue([]);
+      mockUser.count.mockResolvedValue(0);
+    });
+
+    it('should sort newest first with an id tiebreaker by default', async () => {
+      await userRepository.findMany();
+
+      expect(mockUser.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        })
+      );
+    });
+
+    it('should sort by the requested keys', async () => {
+      await userRepository.findMany({}, {}, [
+        { field: 'email', order: 'asc' },
+        { field: 'createdAt', order: 'desc' },
+      ]);
+
+      expect(mockUser.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ email: 'asc' }, { createdAt: 'desc' }, { id: 'desc' }],
+        })
+      );
+    });
+
+    it('should reject fields that are not sortable', async () => {
+      await expect(
+        userRepository.findMany({}, {}, [
+          { field: 'passwordHash', order: 'asc' },
+        ])
+      ).rejects.toThrow('Cannot sort by passwordHash');
+      expect(mockUser.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject nullable fields', async () => {
+      await expect(
+        userRepository.findMany({}, {}, [
+          { field: 'lastLoginAt', order: 'desc' },
+        ])
+      ).rejects.toThrow('Cannot sort by lastLoginAt');
+    });
+  });
 });
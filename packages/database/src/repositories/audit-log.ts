@@ -0,0 +1,100 @@
+import { PrismaClient, AuditLog, Prisma } from '@prisma/client';
+
+import { currentAuditContext } from '../utils/audit';
+import {
+  DateRangeFilter,
+  buildWhereClause,
+  dateRangeToWhere,
+} from '../utils/filters';
+import { SortableFields, SortKey } from '../utils/sorting';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * Audit log entry data (actor, trace id and IP come from the audit context)
+ */
+export type AuditLogCreateData = Omit<
+  Prisma.AuditLogUncheckedCreateInput,
+  'id' | 'createdAt' | 'actorId' | 'traceId' | 'ipAddress'
+>;
+
+/**
+ * Audit log filter options
+ */
+export interface AuditLogFilter {
+  /**
+   * Filter by the user who made the change
+   */
+  actorId?: string;
+  /**
+   * Filter by Prisma model name
+   */
+  resource?: string;
+  /**
+   * Filter by changed record
+   */
+  resourceId?: string;
+  /**
+   * Filter by action
+   */
+  action?: string;
+  /**
+   * Filter by time of the change
+   */
+  createdAt?: DateRangeFilter;
+}
+
+/**
+ * Audit log repository
+ *
+ * Entries are append-only: they are written through `record` (and by audited
+ * repositories) and never updated.
+ */
+export class AuditLogRepository extends AbstractRepository<
+  AuditLog,
+  AuditLogCreateData,
+  never,
+  AuditLogFilter
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.auditLog;
+  }
+
+  protected getSortableFields(): SortableFields {
+    return { createdAt: 'date' };
+  }
+
+  protected getDefaultSort(): SortKey[] {
+    return [{ field: 'createdAt', order: 'desc', type: 'date' }];
+  }
+
+  protected transformFilter(filter: AuditLogFilter) {
+    const where: any = {
+      actorId: filter.actorId,
+      resource: filter.resource,
+      resourceId: filter.resourceId,
+      action: filter.action,
+    };
+
+    if (filter.createdAt) {
+      where.createdAt = dateRangeToWhere(filter.createdAt);
+    }
+
+    return buildWhereClause(where);
+  }
+
+  /**
+   * Record an entry for something other than a repository change
+   * (e.g. a quarantined file), with the current actor, trace id and IP
+   */
+  async record(entry: AuditLogCreateData): Promise<AuditLog> {
+    return this.getModel().create({
+      data: { ...entry, ...currentAuditContext() },
+    });
+  }
+}
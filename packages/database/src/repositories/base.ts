@@ -1,10 +1,26 @@
 import { PrismaClient } from '@prisma/client';
 
+import { currentAuditContext, diffChanges } from '../utils/audit';
 import {
+  PrismaErrorCode,
+  VersionConflictError,
+  isPrismaKnownRequestError,
+} from '../utils/errors';
+import {
+  CursorPaginationParams,
+  PaginatedResult,
   PaginationParams,
-  PaginationResult,
+  cursorPaginatedQuery,
+  isCursorPagination,
   paginatedQuery,
 } from '../utils/pagination';
+import {
+  SortableFields,
+  SortKey,
+  toOrderBy,
+  validateSort,
+  withTiebreaker,
+} from '../utils/sorting';
 import { TransactionClient } from '../utils/transactions';
 
 /**
@@ -18,11 +34,18 @@ export interface BaseRepository<T, TCreate, TUpdate, TFilter = {}> {
 
   /**
    * Find multiple records with optional filtering and pagination
+   *
+   * Pass `cursor` for cursor (keyset) pagination, which does not count.
+   * Results are sorted by `sort` (or the repository's default sort), with
+   * `id` as the last key.
    */
-  findMany(
+  findMany<
+    P extends PaginationParams | CursorPaginationParams = PaginationParams,
+  >(
     _filter?: TFilter,
-    _pagination?: PaginationParams
-  ): Promise<PaginationResult<T>>;
+    _pagination?: P,
+    _sort?: SortKey[]
+  ): Promise<PaginatedResult<T, P>>;
 
   /**
    * Create a new record
@@ -31,11 +54,14 @@ export interface BaseRepository<T, TCreate, TUpdate, TFilter = {}> {
 
   /**
    * Update an existing record
+   *
+   * With `expectedVersion`, the update only applies while the record is still
+   * at that version (repositories that use versioning only).
    */
-  update(_id: string, _data: TUpdate): Promise<T>;
+  update(_id: string, _data: TUpdate, _expectedVersion?: number): Promise<T>;
 
   /**
-   * Delete a record by ID
+   * Delete a record by ID (soft delete for repositories that opt in)
    */
   delete(_id: string): Promise<T>;
 
@@ -79,59 +105,387 @@ export abstract class AbstractRepository<T, TCreate, TUpdate, TFilter = {}>
     return undefined;
   }
 
+  /**
+   * Fields that callers may sort findMany by
+   *
+   * Only list non-nullable fields: cursors cannot point past a null, so
+   * cursor pagination would fail on them. The types are used to check the
+   * values of cursors.
+   */
+  protected getSortableFields(): SortableFields {
+    return {};
+  }
+
+  /**
+   * Sort for findMany when the caller does not ask for one (with the type of
+   * each field, see {@link getSortableFields})
+   */
+  protected getDefaultSort(): SortKey[] {
+    return [];
+  }
+
+  /**
+   * Default ordering as a Prisma orderBy, with the `id` tiebreaker
+   */
+  protected getDefaultOrderBy(): any {
+    return toOrderBy(withTiebreaker(this.getDefaultSort()));
+  }
+
+  /**
+   * Whether `delete` sets `deletedAt` instead of removing the row
+   *
+   * Soft-deleted rows are left out of findById, findMany, count and exists,
+   * and can be brought back with `restore` until they are purged. The model
+   * needs a nullable `deletedAt` column.
+   */
+  protected usesSoftDelete(): boolean {
+    return false;
+  }
+
+  /**
+   * Where clause limited to rows that are not soft-deleted
+   */
+  protected notDeleted(where: any = {}): any {
+    return this.usesSoftDelete() ? { ...where, deletedAt: null } : where;
+  }
+
+  /**
+   * Whether the model has a `version` column that `update` increments
+   *
+   * Callers pass the version they read to `update` so that concurrent edits
+   * fail with VersionConflictError instead of overwriting each other.
+   */
+  protected usesVersioning(): boolean {
+    return false;
+  }
+
+  /**
+   * Prisma model name that create, update and delete are audited under;
+   * undefined turns auditing off
+   *
+   * Audited changes and their audit entries are written in one transaction.
+   */
+  protected getAuditResource(): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Fields whose values are left out of audit entries, besides credentials
+   * and tokens
+   */
+  protected getRedactedFields(): readonly string[] {
+    return [];
+  }
+
+  /**
+   * Run a change to one record and, for audited repositories, record the
+   * changed fields with the current audit context
+   *
+   * The change also receives the client to run related writes with, which is
+   * the audit transaction for audited repositories.
+   */
+  protected async audited(
+    action: string,
+    id: string | undefined,
+    change: (_model: any, _tx: TransactionClient) => Promise<T>,
+    removes = false
+  ): Promise<T> {
+    const resource = this.getAuditResource();
+    if (!resource) {
+      return change(this.getModel(), this.client);
+    }
+
+    return this.transaction(async tx => {
+      // 監査対象のモデルはトランザクション側のデリゲートで操作する
+      const model = tx[resource.charAt(0).toLowerCase() + resource.slice(1)];
+      const before = id ? await model.findUnique({ where: { id } }) : null;
+
+      const after = await change(model, tx);
+
+      await tx.auditLog.create({
+        data: this.auditEntry(
+          resource,
+          action,
+          id ?? (after as { id: string }).id,
+          before,
+          removes ? null : (after as Record<string, unknown>)
+        ),
+      });
+
+      return after;
+    });
+  }
+
+  private auditEntry(
+    resource: string,
+    action: string,
+    resourceId: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+  ) {
+    return {
+      action,
+      resource,
+      resourceId,
+      changes: diffChanges(before, after, this.getRedactedFields()),
+      ...currentAuditContext(),
+    };
+  }
+
+  private assertVersioning(): void {
+    if (!this.usesVersioning()) {
+      throw new Error(`${this.constructor.name} does not use versioning`);
+    }
+  }
+
+  private assertSoftDelete(): void {
+    if (!this.usesSoftDelete()) {
+      throw new Error(`${this.constructor.name} does not use soft delete`);
+    }
+  }
+
+  /**
+   * Requested sort, checked against the sortable fields, or the default sort
+   */
+  protected resolveSort(sort: SortKey[] = []): SortKey[] {
+    if (sort.length === 0) {
+      return withTiebreaker(this.getDefaultSort());
+    }
+
+    const fields = this.getSortableFields();
+    validateSort(sort, Object.keys(fields));
+    return withTiebreaker(
+      sort.map(key => ({ ...key, type: fields[key.field] }))
+    );
+  }
+
+  /**
+   * Run queries in a transaction, or in the caller's transaction if this
+   * repository was created with a transaction client
+   */
+  protected async transaction<R>(
+    fn: (_tx: TransactionClient) => Promise<R>
+  ): Promise<R> {
+    return '$transaction' in this.client
+      ? this.client.$transaction(fn)
+      : fn(this.client);
+  }
+
   async findById(id: string): Promise<T | null> {
     return this.getModel().findUnique({
-      where: { id },
+      where: this.notDeleted({ id }),
       include: this.getDefaultInclude(),
     });
   }
 
-  async findMany(
+  async findMany<
+    P extends PaginationParams | CursorPaginationParams = PaginationParams,
+  >(
+    filter: TFilter = {} as TFilter,
+    pagination: P = {} as P,
+    sort?: SortKey[]
+  ): Promise<PaginatedResult<T, P>> {
+    return this.query(
+      this.notDeleted(this.transformFilter(filter)),
+      pagination,
+      this.resolveSort(sort)
+    );
+  }
+
+  /**
+   * Find soft-deleted records, most recently deleted first unless sorted
+   */
+  async findDeleted<
+    P extends PaginationParams | CursorPaginationParams = PaginationParams,
+  >(
     filter: TFilter = {} as TFilter,
-    pagination: PaginationParams = {}
-  ): Promise<PaginationResult<T>> {
-    const where = this.transformFilter(filter);
+    pagination: P = {} as P,
+    sort?: SortKey[]
+  ): Promise<PaginatedResult<T, P>> {
+    this.assertSoftDelete();
+
+    return this.query(
+      { ...this.transformFilter(filter), deletedAt: { not: null } },
+      pagination,
+      sort?.length
+        ? this.resolveSort(sort)
+        : withTiebreaker([{ field: 'deletedAt', order: 'desc', type: 'date' }])
+    );
+  }
+
+  private async query<P extends PaginationParams | CursorPaginationParams>(
+    where: any,
+    pagination: P,
+    keys: SortKey[]
+  ): Promise<PaginatedResult<T, P>> {
     const include = this.getDefaultInclude();
 
-    return paginatedQuery(
-      args => this.getModel().findMany({ ...args, where, include }),
+    // 大きなテーブルでは OFFSET と COUNT を避け、ソートキーの続きから読む
+    if (isCursorPagination(pagination)) {
+      const result = await cursorPaginatedQuery<T, { where: any }>(
+        args => this.getModel().findMany({ ...args, include }),
+        pagination,
+        keys,
+        { where }
+      );
+      return result as PaginatedResult<T, P>;
+    }
+
+    const orderBy = toOrderBy(keys);
+
+    const result = await paginatedQuery<T, {}>(
+      args => this.getModel().findMany({ ...args, where, include, orderBy }),
       args => this.getModel().count({ ...args, where }),
       pagination,
       {}
     );
+    return result as PaginatedResult<T, P>;
   }
 
   async create(data: TCreate): Promise<T> {
-    return this.getModel().create({
-      data,
-      include: this.getDefaultInclude(),
-    });
+    return this.audited('create', undefined, model =>
+      model.create({
+        data,
+        include: this.getDefaultInclude(),
+      })
+    );
   }
 
-  async update(id: string, data: TUpdate): Promise<T> {
-    return this.getModel().update({
-      where: { id },
-      data,
-      include: this.getDefaultInclude(),
+  async update(
+    id: string,
+    data: TUpdate,
+    expectedVersion?: number
+  ): Promise<T> {
+    if (expectedVersion !== undefined) {
+      this.assertVersioning();
+    }
+
+    return this.audited('update', id, async model => {
+      try {
+        return await model.update({
+          where: this.notDeleted(
+            expectedVersion === undefined
+              ? { id }
+              : { id, version: expectedVersion }
+          ),
+          data: this.usesVersioning()
+            ? { ...data, version: { increment: 1 } }
+            : data,
+          include: this.getDefaultInclude(),
+        });
+      } catch (error) {
+        if (
+          expectedVersion === undefined ||
+          !isPrismaKnownRequestError(error, PrismaErrorCode.RECORD_NOT_FOUND)
+        ) {
+          throw error;
+        }
+
+        // 見つからないのがバージョン違いによるものか、レコードがないためかを区別する
+        const current = await model.findUnique({
+          where: this.notDeleted({ id }),
+          select: { version: true },
+        });
+        if (!current) throw error;
+        throw new VersionConflictError(id, expectedVersion, current.version);
+      }
     });
   }
 
   async delete(id: string): Promise<T> {
-    return this.getModel().delete({
-      where: { id },
-      include: this.getDefaultInclude(),
+    if (this.usesSoftDelete()) {
+      return this.audited('delete', id, model =>
+        model.update({
+          where: this.notDeleted({ id }),
+          data: { deletedAt: new Date() },
+          include: this.getDefaultInclude(),
+        })
+      );
+    }
+
+    return this.remove('delete', id);
+  }
+
+  /**
+   * Bring back a soft-deleted record
+   */
+  async restore(id: string): Promise<T> {
+    this.assertSoftDelete();
+
+    return this.audited('restore', id, model =>
+      model.update({
+        where: { id, deletedAt: { not: null } },
+        data: { deletedAt: null },
+        include: this.getDefaultInclude(),
+      })
+    );
+  }
+
+  /**
+   * Delete a record for good, whether or not it was soft-deleted
+   */
+  async purge(id: string): Promise<T> {
+    return this.remove('purge', id);
+  }
+
+  private async remove(action: string, id: string): Promise<T> {
+    return this.audited(
+      action,
+      id,
+      model =>
+        model.delete({
+          where: { id },
+          include: this.getDefaultInclude(),
+        }),
+      true
+    );
+  }
+
+  /**
+   * Delete for good the records soft-deleted before the given time
+   *
+   * Audited repositories record a `purge` entry for each deleted record.
+   *
+   * @returns Number of records deleted
+   */
+  async purgeDeletedBefore(before: Date): Promise<number> {
+    this.assertSoftDelete();
+
+    const where = { deletedAt: { lt: before } };
+    const resource = this.getAuditResource();
+    if (!resource) {
+      const { count } = await this.getModel().deleteMany({ where });
+      return count;
+    }
+
+    return this.transaction(async tx => {
+      // 削除したレコードごとに監査ログを残す
+      const model = tx[resource.charAt(0).toLowerCase() + resource.slice(1)];
+      const purged: Array<Record<string, unknown> & { id: string }> =
+        await model.findMany({ where });
+      if (purged.length === 0) return 0;
+
+      const { count } = await model.deleteMany({
+        where: { id: { in: purged.map(record => record.id) } },
+      });
+      await tx.auditLog.createMany({
+        data: purged.map(record =>
+          this.auditEntry(resource, 'purge', record.id, record, null)
+        ),
+      });
+      return count;
     });
   }
 
   async exists(id: string): Promise<boolean> {
     const count = await this.getModel().count({
-      where: { id },
+      where: this.notDeleted({ id }),
     });
     return count > 0;
   }
 
   async count(filter: TFilter = {} as TFilter): Promise<number> {
-    const where = this.transformFilter(filter);
+    const where = this.notDeleted(this.transformFilter(filter));
     return this.getModel().count({ where });
   }
 }
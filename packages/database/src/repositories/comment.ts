@@ -0,0 +1,148 @@
+import { PrismaClient, Comment, Prisma } from '@prisma/client';
+
+import {
+  DateRangeFilter,
+  buildWhereClause,
+  dateRangeToWhere,
+  multiFieldTextSearch,
+} from '../utils/filters';
+import { SortableFields, SortKey } from '../utils/sorting';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * Comment creation data
+ */
+export type CommentCreateData = Omit<
+  Prisma.CommentUncheckedCreateInput,
+  'id' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Comment update data
+ */
+export type CommentUpdateData = Prisma.CommentUncheckedUpdateInput;
+
+/**
+ * Comment filter options
+ */
+export interface CommentFilter {
+  /**
+   * Filter by post
+   */
+  postId?: string;
+  /**
+   * Filter by author
+   */
+  authorId?: string;
+  /**
+   * Filter by creation date
+   */
+  createdAt?: DateRangeFilter;
+  /**
+   * Search in content
+   */
+  search?: string;
+}
+
+/**
+ * Comment with author summary
+ */
+export type CommentWithAuthor = Comment & {
+  author: { id: string; name: string | null };
+};
+
+/**
+ * Comment repository for managing comments on posts
+ */
+export class CommentRepository extends AbstractRepository<
+  CommentWithAuthor,
+  CommentCreateData,
+  CommentUpdateData,
+  CommentFilter
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.comment;
+  }
+
+  protected getDefaultInclude() {
+    return {
+      author: { select: { id: true, name: true } },
+    };
+  }
+
+  protected getSortableFields(): SortableFields {
+    return { createdAt: 'date', updatedAt: 'date' };
+  }
+
+  protected usesSoftDelete() {
+    return true;
+  }
+
+  // 投稿者や投稿が削除されたら、そのコメントも削除済みとして扱う
+  protected notDeleted(where: any = {}) {
+    return {
+      ...super.notDeleted(where),
+      author: { deletedAt: null },
+      post: { deletedAt: null, author: { deletedAt: null } },
+    };
+  }
+
+  protected getAuditResource() {
+    return 'Comment';
+  }
+
+  protected getDefaultSort(): SortKey[] {
+    return [{ field: 'createdAt', order: 'asc', type: 'date' }];
+  }
+
+  protected transformFilter(filter: CommentFilter) {
+    const where: any = {
+      postId: filter.postId,
+      authorId: filter.authorId,
+    };
+
+    if (filter.createdAt) {
+      where.createdAt = dateRangeToWhere(filter.createdAt);
+    }
+
+    if (filter.search) {
+      const searchWhere = multiFieldTextSearch(['content'], {
+        query: filter.search,
+        mode: 'contains',
+        caseSensitive: false,
+      });
+
+      if (searchWhere) {
+        where.OR = searchWhere.OR;
+      }
+    }
+
+    return buildWhereClause(where);
+  }
+
+  /**
+   * Find a comment belonging to a specific post
+   */
+  async findOnPost(
+    postId: string,
+    id: string
+  ): Promise<CommentWithAuthor | null> {
+    return this.getModel().findFirst({
+      where: this.notDeleted({ id, postId }),
+      include: this.getDefaultInclude(),
+    });
+  }
+
+  /**
+   * Count comments on a post
+   */
+  async countByPost(postId: string): Promise<number> {
+    return this.getModel().count({ where: this.notDeleted({ postId }) });
+  }
+}
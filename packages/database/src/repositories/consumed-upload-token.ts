@@ -0,0 +1,74 @@
+import { ConsumedUploadToken, PrismaClient } from '@prisma/client';
+
+import { PrismaErrorCode, isPrismaKnownRequestError } from '../utils/errors';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * Consumed upload token creation data
+ */
+export type ConsumedUploadTokenCreateData = Pick<
+  ConsumedUploadToken,
+  'jti' | 'expiresAt'
+>;
+
+/**
+ * Consumed upload token repository
+ *
+ * Remembers the `jti` of every upload token that has been used, so that each
+ * token allows one upload. Rows are only needed until the token expires.
+ */
+export class ConsumedUploadTokenRepository extends AbstractRepository<
+  ConsumedUploadToken,
+  ConsumedUploadTokenCreateData,
+  never,
+  {}
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.consumedUploadToken;
+  }
+
+  protected transformFilter() {
+    return {};
+  }
+
+  /**
+   * Mark a token as used
+   *
+   * The primary key makes this atomic: of concurrent uploads with the same
+   * token, only one succeeds.
+   *
+   * @returns false when the token had already been used
+   */
+  async consume(jti: string, expiresAt: Date): Promise<boolean> {
+    try {
+      await this.getModel().create({ data: { jti, expiresAt } });
+      return true;
+    } catch (error) {
+      if (
+        isPrismaKnownRequestError(
+          error,
+          PrismaErrorCode.UNIQUE_CONSTRAINT_FAILED
+        )
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget tokens that expired before the given time
+   */
+  async deleteExpired(before: Date): Promise<number> {
+    const result = await this.getModel().deleteMany({
+      where: { expiresAt: { lt: before } },
+    });
+    return result.count;
+  }
+}
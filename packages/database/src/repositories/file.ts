@@ -0,0 +1,314 @@
+import {
+  PrismaClient,
+  File,
+  FileStatus,
+  FileType,
+  FileVariant,
+  Prisma,
+  StorageUsage,
+} from '@prisma/client';
+
+import { buildWhereClause } from '../utils/filters';
+import { SortableFields, SortKey } from '../utils/sorting';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * File creation data
+ */
+export type FileCreateData = Omit<
+  Prisma.FileUncheckedCreateInput,
+  'id' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * File update data
+ */
+export type FileUpdateData = Prisma.FileUncheckedUpdateInput;
+
+/**
+ * File filter options
+ */
+export interface FileFilter {
+  /**
+   * Filter by owner
+   */
+  ownerId?: string;
+  /**
+   * Filter by file type
+   */
+  type?: FileType;
+  /**
+   * Filter by scan status
+   */
+  status?: FileStatus;
+}
+
+/**
+ * Image variant as written to storage, before it is recorded
+ */
+export type FileVariantData = Omit<FileVariant, 'id' | 'fileId' | 'createdAt'>;
+
+/**
+ * Outcome of a malware scan
+ */
+export interface FileScanOutcome {
+  status: Exclude<FileStatus, 'PENDING_SCAN'>;
+  /** Signature name reported for quarantined files */
+  threat?: string;
+  /** New location of the content, if it was moved */
+  storageKey?: string;
+  /**
+   * Content that replaces a clean image's upload: its processed original
+   * and the variants generated from it
+   */
+  processed?: Pick<File, 'mimeType' | 'size' | 'checksum' | 'storageKey'> & {
+    variants: FileVariantData[];
+  };
+}
+
+/**
+ * Storage used by an owner for one file type
+ */
+export interface FileUsage {
+  type: FileType;
+  bytes: number;
+  fileCount: number;
+}
+
+/**
+ * File with its processed variants
+ */
+export type FileWithVariants = File & { variants: FileVariant[] };
+
+/**
+ * File repository for uploaded file metadata
+ *
+ * Creating and deleting files keeps the owner's storage usage up to date.
+ * Usage counts the size of each file's main content, not derived variants.
+ */
+export class FileRepository extends AbstractRepository<
+  FileWithVariants,
+  FileCreateData,
+  FileUpdateData,
+  FileFilter
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.file;
+  }
+
+  protected getDefaultInclude() {
+    return { variants: true };
+  }
+
+  protected getSortableFields(): SortableFields {
+    return {
+      createdAt: 'date',
+      updatedAt: 'date',
+      originalName: 'string',
+      size: 'number',
+    };
+  }
+
+  protected getDefaultSort(): SortKey[] {
+    return [{ field: 'createdAt', order: 'desc', type: 'date' }];
+  }
+
+  protected transformFilter(filter: FileFilter) {
+    return buildWhereClause({
+      ownerId: filter.ownerId,
+      type: filter.type,
+      status: filter.status,
+    });
+  }
+
+  async create(data: FileCreateData): Promise<FileWithVariants> {
+    return this.transaction(tx => this.createTracked(tx, data));
+  }
+
+  /**
+   * Create a file unless it would take the owner's usage past the quota
+   *
+   * @returns null (and nothing is written) when the quota would be exceeded
+   */
+  async createWithinQuota(
+    data: FileCreateData,
+    quotaBytes: number
+  ): Promise<FileWithVariants | null> {
+    return this.transaction(async tx => {
+      // 同じユーザーの並行アップロードが同時に上限を確認しないよう直列化する
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${data.ownerId} FOR UPDATE`;
+
+      const used = await tx.storageUsage.aggregate({
+        where: { userId: data.ownerId },
+        _sum: { bytes: true },
+      });
+      if (Number(used._sum.bytes ?? 0) + data.size > quotaBytes) {
+        return null;
+      }
+
+      return this.createTracked(tx, data);
+    });
+  }
+
+  async delete(id: string): Promise<FileWithVariants> {
+    return this.transaction(async tx => {
+      const file = await tx.file.delete({
+        where: { id },
+        include: this.getDefaultInclude(),
+      });
+
+      await tx.storageUsage.update({
+        where: { userId_type: { userId: file.ownerId, type: file.type } },
+        data: {
+          bytes: { decrement: file.size },
+          fileCount: { decrement: 1 },
+        },
+      });
+
+      return file;
+    });
+  }
+
+  /**
+   * Storage used by an owner, per file type that has any files
+   */
+  async getUsage(ownerId: string): Promise<FileUsage[]> {
+    const rows = await this.client.storageUsage.findMany({
+      where: { userId: ownerId },
+    });
+
+    return rows.map((row: StorageUsage) => ({
+      type: row.type,
+      bytes: Number(row.bytes),
+      fileCount: row.fileCount,
+    }));
+  }
+
+  /**
+   * Find a file by its storage key
+   */
+  async findByStorageKey(storageKey: string): Promise<FileWithVariants | null> {
+    return this.getModel().findUnique({
+      where: { storageKey },
+      include: this.getDefaultInclude(),
+    });
+  }
+
+  /**
+   * Mark a file as readable by anyone (or private again)
+   */
+  async setPublic(id: string, isPublic: boolean): Promise<FileWithVariants> {
+    return this.update(id, { isPublic });
+  }
+
+  /**
+   * Find files waiting for a malware scan, oldest first
+   *
+   * Files that failed fewer scans come first, so a file the scanner keeps
+   * failing on cannot hold back the others.
+   */
+  async findPendingScan(limit: number = 20): Promise<FileWithVariants[]> {
+    return this.getModel().findMany({
+      where: { status: 'PENDING_SCAN' },
+      include: this.getDefaultInclude(),
+      orderBy: [{ scanAttempts: 'asc' }, { createdAt: 'asc' }],
+      take: limit,
+    });
+  }
+
+  /**
+   * Count a failed scan of a pending file, giving up after `maxAttempts`
+   *
+   * @returns true when the file was moved to SCAN_FAILED
+   */
+  async recordScanFailure(id: string, maxAttempts: number): Promise<boolean> {
+    return this.transaction(async tx => {
+      await tx.file.updateMany({
+        where: { id, status: 'PENDING_SCAN' },
+        data: { scanAttempts: { increment: 1 } },
+      });
+      const result = await tx.file.updateMany({
+        where: {
+          id,
+          status: 'PENDING_SCAN',
+          scanAttempts: { gte: maxAttempts },
+        },
+        data: { status: 'SCAN_FAILED', scannedAt: new Date() },
+      });
+      return result.count > 0;
+    });
+  }
+
+  /**
+   * Record the result of a scan, unless another scan already did
+   *
+   * Processed content replaces the file's content and size, and the owner's
+   * usage follows the new size.
+   *
+   * @returns false when the file is no longer pending
+   */
+  async completeScan(id: string, outcome: FileScanOutcome): Promise<boolean> {
+    const { processed, ...scan } = outcome;
+
+    if (!processed) {
+      const result = await this.getModel().updateMany({
+        where: { id, status: 'PENDING_SCAN' },
+        data: { ...scan, scannedAt: new Date() },
+      });
+      return result.count > 0;
+    }
+
+    const { variants, ...content } = processed;
+    return this.transaction(async tx => {
+      const file = await tx.file.findUnique({ where: { id } });
+      const result = await tx.file.updateMany({
+        where: { id, status: 'PENDING_SCAN' },
+        data: { ...scan, ...content, scannedAt: new Date() },
+      });
+      if (!file || result.count === 0) {
+        return false;
+      }
+
+      await tx.fileVariant.createMany({
+        data: variants.map(variant => ({ ...variant, fileId: id })),
+      });
+      await tx.storageUsage.update({
+        where: { userId_type: { userId: file.ownerId, type: file.type } },
+        data: { bytes: { increment: content.size - file.size } },
+      });
+      return true;
+    });
+  }
+
+  private async createTracked(
+    tx: TransactionClient,
+    data: FileCreateData
+  ): Promise<FileWithVariants> {
+    const file = await tx.file.create({
+      data,
+      include: this.getDefaultInclude(),
+    });
+
+    await tx.storageUsage.upsert({
+      where: { userId_type: { userId: file.ownerId, type: file.type } },
+      create: {
+        userId: file.ownerId,
+        type: file.type,
+        bytes: file.size,
+        fileCount: 1,
+      },
+      update: {
+        bytes: { increment: file.size },
+        fileCount: { increment: 1 },
+      },
+    });
+
+    return file;
+  }
+}
@@ -4,3 +4,11 @@
 
 export * from './base';
 export * from './user';
+export * from './refresh-token';
+export * from './session';
+export * from './post';
+export * from './comment';
+export * from './file';
+export * from './upload-session';
+export * from './consumed-upload-token';
+export * from './audit-log';
@@ -0,0 +1,157 @@
+import { PrismaClient, Post, Prisma } from '@prisma/client';
+
+import {
+  DateRangeFilter,
+  buildWhereClause,
+  dateRangeToWhere,
+  multiFieldTextSearch,
+} from '../utils/filters';
+import { SortableFields, SortKey } from '../utils/sorting';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * Post creation data
+ */
+export type PostCreateData = Omit<
+  Prisma.PostUncheckedCreateInput,
+  'id' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Post update data
+ */
+export type PostUpdateData = Prisma.PostUncheckedUpdateInput;
+
+/**
+ * Post filter options
+ */
+export interface PostFilter {
+  /**
+   * Filter by author
+   */
+  authorId?: string;
+  /**
+   * Filter by publication status
+   */
+  published?: boolean;
+  /**
+   * Filter by creation date
+   */
+  createdAt?: DateRangeFilter;
+  /**
+   * Search in title or content
+   */
+  search?: string;
+}
+
+/**
+ * Post with author summary and comment count
+ */
+export type PostWithRelations = Post & {
+  author: { id: string; name: string | null };
+  _count: { comments: number };
+};
+
+/**
+ * Post repository for managing posts
+ */
+export class PostRepository extends AbstractRepository<
+  PostWithRelations,
+  PostCreateData,
+  PostUpdateData,
+  PostFilter
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.post;
+  }
+
+  protected getDefaultInclude() {
+    return {
+      author: { select: { id: true, name: true } },
+      _count: {
+        select: {
+          comments: {
+            where: { deletedAt: null, author: { deletedAt: null } },
+          },
+        },
+      },
+    };
+  }
+
+  protected getSortableFields(): SortableFields {
+    return { createdAt: 'date', updatedAt: 'date', title: 'string' };
+  }
+
+  protected usesSoftDelete() {
+    return true;
+  }
+
+  // 投稿者が削除されたら、その投稿も削除済みとして扱う
+  protected notDeleted(where: any = {}) {
+    return { ...super.notDeleted(where), author: { deletedAt: null } };
+  }
+
+  protected usesVersioning() {
+    return true;
+  }
+
+  protected getAuditResource() {
+    return 'Post';
+  }
+
+  protected getDefaultSort(): SortKey[] {
+    return [{ field: 'createdAt', order: 'desc', type: 'date' }];
+  }
+
+  protected transformFilter(filter: PostFilter) {
+    const where: any = {
+      authorId: filter.authorId,
+      published: filter.published,
+    };
+
+    if (filter.createdAt) {
+      where.createdAt = dateRangeToWhere(filter.createdAt);
+    }
+
+    if (filter.search) {
+      const searchWhere = multiFieldTextSearch(['title', 'content'], {
+        query: filter.search,
+        mode: 'contains',
+        caseSensitive: false,
+      });
+
+      if (searchWhere) {
+        where.OR = searchWhere.OR;
+      }
+    }
+
+    return buildWhereClause(where);
+  }
+
+  /**
+   * Find posts by author, newest first
+   */
+  async findByAuthor(authorId: string): Promise<PostWithRelations[]> {
+    return this.getModel().findMany({
+      where: this.notDeleted({ authorId }),
+      include: this.getDefaultInclude(),
+      orderBy: this.getDefaultOrderBy(),
+    });
+  }
+
+  /**
+   * Publish or unpublish a post
+   */
+  async setPublished(
+    id: string,
+    published: boolean
+  ): Promise<PostWithRelations> {
+    return this.update(id, { published });
+  }
+}
@@ -0,0 +1,120 @@
+import { PrismaClient, RefreshToken, Prisma } from '@prisma/client';
+
+import { buildWhereClause } from '../utils/filters';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * Refresh token creation data
+ */
+export type RefreshTokenCreateData = Omit<
+  Prisma.RefreshTokenUncheckedCreateInput,
+  'id' | 'createdAt'
+>;
+
+/**
+ * Refresh token update data
+ */
+export type RefreshTokenUpdateData = Prisma.RefreshTokenUncheckedUpdateInput;
+
+/**
+ * Refresh token filter options
+ */
+export interface RefreshTokenFilter {
+  /**
+   * Filter by owner
+   */
+  userId?: string;
+  /**
+   * Filter by token family
+   */
+  familyId?: string;
+  /**
+   * Only tokens that are neither revoked nor expired
+   */
+  active?: boolean;
+}
+
+/**
+ * Refresh token repository
+ *
+ * Tokens are stored as SHA-256 hashes only. Every token issued from the same
+ * login shares a `familyId`, so a whole chain of rotations can be revoked at
+ * once when reuse of an old token is detected.
+ */
+export class RefreshTokenRepository extends AbstractRepository<
+  RefreshToken,
+  RefreshTokenCreateData,
+  RefreshTokenUpdateData,
+  RefreshTokenFilter
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.refreshToken;
+  }
+
+  protected transformFilter(filter: RefreshTokenFilter) {
+    const where: any = {
+      userId: filter.userId,
+      familyId: filter.familyId,
+    };
+
+    if (filter.active) {
+      where.expiresAt = { gt: new Date() };
+    }
+
+    const clause = buildWhereClause(where);
+
+    // buildWhereClause drops null values, so add the revocation check last
+    return filter.active ? { ...clause, revokedAt: null } : clause;
+  }
+
+  /**
+   * Find token by its hash
+   */
+  async findByTokenHash(tokenHash: string): Promise<RefreshToken | null> {
+    return this.getModel().findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  /**
+   * Revoke a token unless it has already been revoked
+   *
+   * @returns false when the token was already revoked (e.g. a concurrent
+   * refresh consumed it first)
+   */
+  async revokeIfActive(id: string): Promise<boolean> {
+    const result = await this.getModel().updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke every token in a family
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    const result = await this.getModel().updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Revoke every token belonging to a user
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    const result = await this.getModel().updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,153 @@
+import { PrismaClient, Session, Prisma } from '@prisma/client';
+
+import { buildWhereClause } from '../utils/filters';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * Session creation data
+ */
+export type SessionCreateData = Omit<
+  Prisma.SessionUncheckedCreateInput,
+  'id' | 'issuedAt' | 'lastUsedAt'
+>;
+
+/**
+ * Session update data
+ */
+export type SessionUpdateData = Prisma.SessionUncheckedUpdateInput;
+
+/**
+ * Session filter options
+ */
+export interface SessionFilter {
+  /**
+   * Filter by owner
+   */
+  userId?: string;
+  /**
+   * Only sessions that are neither revoked nor expired
+   */
+  active?: boolean;
+}
+
+/**
+ * Session repository for managing signed-in devices
+ */
+export class SessionRepository extends AbstractRepository<
+  Session,
+  SessionCreateData,
+  SessionUpdateData,
+  SessionFilter
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.session;
+  }
+
+  protected transformFilter(filter: SessionFilter) {
+    const where: any = {
+      userId: filter.userId,
+    };
+
+    if (filter.active) {
+      where.expiresAt = { gt: new Date() };
+    }
+
+    const clause = buildWhereClause(where);
+
+    // buildWhereClause drops null values, so add the revocation check last
+    return filter.active ? { ...clause, revokedAt: null } : clause;
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async findActiveByUser(userId: string): Promise<Session[]> {
+    return this.getModel().findMany({
+      where: this.transformFilter({ userId, active: true }),
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Whether a session is neither revoked nor expired
+   */
+  async isActive(id: string): Promise<boolean> {
+    const count = await this.getModel().count({
+      where: { ...this.transformFilter({ active: true }), id },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Record activity on a session
+   */
+  async touch(
+    id: string,
+    data: Pick<SessionUpdateData, 'ipAddress' | 'userAgent' | 'expiresAt'>
+  ): Promise<Session> {
+    return this.getModel().update({
+      where: { id },
+      data: { ...data, lastUsedAt: new Date() },
+    });
+  }
+
+  /**
+   * Revoke a session together with its refresh tokens
+   */
+  async revoke(id: string): Promise<Session> {
+    const now = new Date();
+
+    return this.getModel().update({
+      where: { id },
+      data: {
+        revokedAt: now,
+        refreshTokens: {
+          updateMany: {
+            where: { revokedAt: null },
+            data: { revokedAt: now },
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Revoke every active session of a user except one
+   *
+   * @returns Number of revoked sessions
+   */
+  async revokeAllExcept(
+    userId: string,
+    keepSessionId?: string
+  ): Promise<number> {
+    const now = new Date();
+    const sessionWhere: any = { userId, revokedAt: null };
+
+    if (keepSessionId) {
+      sessionWhere.NOT = { id: keepSessionId };
+    }
+
+    const [result] = await Promise.all([
+      this.getModel().updateMany({
+        where: sessionWhere,
+        data: { revokedAt: now },
+      }),
+      this.client.refreshToken.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+          ...(keepSessionId && { NOT: { familyId: keepSessionId } }),
+        },
+        data: { revokedAt: now },
+      }),
+    ]);
+
+    return result.count;
+  }
+}
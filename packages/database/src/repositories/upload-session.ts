@@ -0,0 +1,99 @@
+import { PrismaClient, UploadSession, Prisma } from '@prisma/client';
+
+import { buildWhereClause } from '../utils/filters';
+import { SortKey } from '../utils/sorting';
+import { TransactionClient } from '../utils/transactions';
+
+import { AbstractRepository } from './base';
+
+/**
+ * Chunk received by a resumable upload
+ */
+export interface UploadPart {
+  number: number;
+  /** Identifier returned by the storage driver (e.g. S3 ETag) */
+  etag?: string;
+}
+
+/**
+ * Upload session creation data
+ */
+export type UploadSessionCreateData = Omit<
+  Prisma.UploadSessionUncheckedCreateInput,
+  'id' | 'offset' | 'parts' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Upload session update data
+ */
+export type UploadSessionUpdateData = Prisma.UploadSessionUncheckedUpdateInput;
+
+/**
+ * Upload session filter options
+ */
+export interface UploadSessionFilter {
+  /**
+   * Filter by owner
+   */
+  ownerId?: string;
+}
+
+/**
+ * Upload session repository for resumable uploads
+ */
+export class UploadSessionRepository extends AbstractRepository<
+  UploadSession,
+  UploadSessionCreateData,
+  UploadSessionUpdateData,
+  UploadSessionFilter
+> {
+  constructor(client: PrismaClient | TransactionClient) {
+    super(client);
+  }
+
+  protected getModel() {
+    return this.client.uploadSession;
+  }
+
+  protected getDefaultSort(): SortKey[] {
+    return [{ field: 'createdAt', order: 'desc', type: 'date' }];
+  }
+
+  protected transformFilter(filter: UploadSessionFilter) {
+    return buildWhereClause({
+      ownerId: filter.ownerId,
+    });
+  }
+
+  /**
+   * Record a received chunk, unless another request moved the offset first
+   *
+   * @returns false when the session is no longer at `fromOffset`
+   */
+  async advance(
+    id: string,
+    fromOffset: number,
+    toOffset: number,
+    parts: UploadPart[]
+  ): Promise<boolean> {
+    const result = await this.getModel().updateMany({
+      where: { id, offset: fromOffset },
+      data: { offset: toOffset, parts: parts as unknown as Prisma.JsonArray },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Find sessions that expired before the given time
+   */
+  async findExpired(
+    before: Date = new Date(),
+    limit: number = 100
+  ): Promise<UploadSession[]> {
+    return this.getModel().findMany({
+      where: { expiresAt: { lt: before } },
+      orderBy: { expiresAt: 'asc' },
+      take: limit,
+    });
+  }
+}
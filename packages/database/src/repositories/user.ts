@@ -1,6 +1,7 @@
 import { PrismaClient, User, UserRole, Prisma } from '@prisma/client';
 
 import { textSearchToWhere, buildWhereClause } from '../utils/filters';
+import { SortableFields, SortKey } from '../utils/sorting';
 import { TransactionClient } from '../utils/transactions';
 
 import { AbstractRepository } from './base';
@@ -48,6 +49,11 @@ export interface UserFilter {
   firebaseUid?: string;
 }
 
+/**
+ * Fields needed to re-check a user's access on each request
+ */
+export type UserAccessState = Pick<User, 'id' | 'role' | 'isActive'>;
+
 /**
  * User with related data
  */
@@ -77,11 +83,32 @@ export class UserRepository extends AbstractRepository<
   protected getDefaultInclude() {
     return {
       profile: true,
-      posts: true,
-      comments: true,
+      posts: { where: { deletedAt: null } },
+      comments: { where: { deletedAt: null } },
     };
   }
 
+  protected getSortableFields(): SortableFields {
+    // lastLoginAt は null になりうるので並び替えに使えない
+    return { createdAt: 'date', updatedAt: 'date', email: 'string' };
+  }
+
+  protected getDefaultSort(): SortKey[] {
+    return [{ field: 'createdAt', order: 'desc', type: 'date' }];
+  }
+
+  protected usesSoftDelete() {
+    return true;
+  }
+
+  protected usesVersioning() {
+    return true;
+  }
+
+  protected getAuditResource() {
+    return 'User';
+  }
+
   protected transformFilter(filter: UserFilter) {
     const where: any = {};
 
@@ -125,7 +152,7 @@ export class UserRepository extends AbstractRepository<
    */
   async findByEmail(email: string): Promise<UserWithProfile | null> {
     return this.getModel().findUnique({
-      where: { email },
+      where: this.notDeleted({ email }),
       include: this.getDefaultInclude(),
     });
   }
@@ -137,17 +164,27 @@ export class UserRepository extends AbstractRepository<
     firebaseUid: string
   ): Promise<UserWithProfile | null> {
     return this.getModel().findUnique({
-      where: { firebaseUid },
+      where: this.notDeleted({ firebaseUid }),
       include: this.getDefaultInclude(),
     });
   }
 
+  /**
+   * Find the current role and active status of a user
+   */
+  async findAccessState(id: string): Promise<UserAccessState | null> {
+    return this.getModel().findUnique({
+      where: this.notDeleted({ id }),
+      select: { id: true, role: true, isActive: true },
+    });
+  }
+
   /**
    * Find users by role
    */
   async findByRole(role: UserRole) {
     return this.getModel().findMany({
-      where: { role },
+      where: this.notDeleted({ role }),
       include: this.getDefaultInclude(),
     });
   }
@@ -156,10 +193,36 @@ export class UserRepository extends AbstractRepository<
    * Update user's last login timestamp
    */
   async updateLastLogin(id: string): Promise<UserWithProfile> {
-    return this.getModel().update({
-      where: { id },
-      data: { lastLoginAt: new Date() },
-      include: this.getDefaultInclude(),
+    // ログイン記録は編集ではないのでバージョンは進めない
+    return this.audited('update', id, model =>
+      model.update({
+        where: this.notDeleted({ id }),
+        data: { lastLoginAt: new Date() },
+        include: this.getDefaultInclude(),
+      })
+    );
+  }
+
+  /**
+   * Soft delete a user, revoking their sessions and refresh tokens in the
+   * same transaction so issued tokens stop working at once
+   */
+  async delete(id: string): Promise<UserWithProfile> {
+    return this.audited('delete', id, async (model, tx) => {
+      const user = await model.update({
+        where: this.notDeleted({ id }),
+        data: { deletedAt: new Date() },
+        include: this.getDefaultInclude(),
+      });
+
+      const revoke = {
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: user.deletedAt },
+      };
+      await tx.session.updateMany(revoke);
+      await tx.refreshToken.updateMany(revoke);
+
+      return user;
     });
   }
 
@@ -170,17 +233,14 @@ export class UserRepository extends AbstractRepository<
     id: string,
     isActive: boolean
   ): Promise<UserWithProfile> {
-    return this.getModel().update({
-      where: { id },
-      data: { isActive },
-      include: this.getDefaultInclude(),
-    });
+    return this.update(id, { isActive });
   }
 
   /**
    * Check if email is already taken
    */
   async isEmailTaken(email: string, excludeUserId?: string): Promise<boolean> {
+    // 論理削除されたユーザーも一意制約上はメールアドレスを保持している
     const where: any = { email };
 
     if (excludeUserId) {
@@ -197,6 +257,7 @@ export class UserRepository extends AbstractRepository<
   async getUserStatsByRole(): Promise<Record<UserRole, number>> {
     const stats = await this.getModel().groupBy({
       by: ['role'],
+      where: this.notDeleted(),
       _count: {
         id: true,
       },
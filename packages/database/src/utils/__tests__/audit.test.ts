@@ -0,0 +1,79 @@
+import {
+  REDACTED,
+  currentAuditContext,
+  diffChanges,
+  getAuditContext,
+  runWithAuditContext,
+} from '../audit';
+
+describe('Audit Utils', () => {
+  describe('runWithAuditContext', () => {
+    it('should expose the context to async callees', async () => {
+      const context = { actorId: 'user-1', traceId: 'trace-1' };
+
+      const seen = await runWithAuditContext(context, async () => {
+        await Promise.resolve();
+        return getAuditContext();
+      });
+
+      expect(seen).toBe(context);
+      expect(getAuditContext()).toBeUndefined();
+    });
+
+    it('should default missing values to null', () => {
+      expect(currentAuditContext()).toEqual({
+        actorId: null,
+        traceId: null,
+        ipAddress: null,
+      });
+    });
+  });
+
+  describe('diffChanges', () => {
+    it('should list only changed scalar fields', () => {
+      const changes = diffChanges(
+        { id: '1', name: 'Old', role: 'USER', updatedAt: new Date(0) },
+        {
+          id: '1',
+          name: 'New',
+          role: 'USER',
+          updatedAt: new Date(1000),
+          profile: { bio: 'ignored' },
+        }
+      );
+
+      expect(changes).toEqual({
+        name: { from: 'Old', to: 'New' },
+        updatedAt: {
+          from: '1970-01-01T00:00:00.000Z',
+          to: '1970-01-01T00:00:01.000Z',
+        },
+      });
+    });
+
+    it('should redact credentials and the given fields', () => {
+      const changes = diffChanges(
+        { passwordHash: 'a', email: 'old@example.com' },
+        { passwordHash: 'b', email: 'new@example.com' },
+        ['email']
+      );
+
+      expect(changes).toEqual({
+        passwordHash: { from: REDACTED, to: REDACTED },
+        email: { from: REDACTED, to: REDACTED },
+      });
+    });
+
+    it('should only have new values on create and old values on delete', () => {
+      expect(diffChanges(null, { id: '1', name: null })).toEqual({
+        id: { to: '1' },
+        name: { to: null },
+      });
+      expect(diffChanges({ id: '1' }, null)).toEqual({ id: { from: '1' } });
+    });
+
+    it('should return undefined when nothing changed', () => {
+      expect(diffChanges({ id: '1' }, { id: '1' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { PrismaErrorCode, isPrismaKnownRequestError } from '../errors';
+
+const knownRequestError = (code: string) =>
+  Object.assign(
+    new Error('Unique constraint failed on the fields: (`email`)'),
+    {
+      name: 'PrismaClientKnownRequestError',
+      code,
+      meta: { target: ['email'] },
+    }
+  );
+
+describe('Error Utils', () => {
+  describe('isPrismaKnownRequestError', () => {
+    it('should recognise known request errors', () => {
+      expect(isPrismaKnownRequestError(knownRequestError('P2002'))).toBe(true);
+    });
+
+    it('should match a specific error code', () => {
+      const error = knownRequestError('P2025');
+
+      expect(
+        isPrismaKnownRequestError(error, PrismaErrorCode.RECORD_NOT_FOUND)
+      ).toBe(true);
+      expect(
+        isPrismaKnownRequestError(
+          error,
+          PrismaErrorCode.UNIQUE_CONSTRAINT_FAILED
+        )
+      ).toBe(false);
+    });
+
+    it('should not match other errors with a code', () => {
+      const fastifyError = Object.assign(new Error('Body too large'), {
+        code: 'FST_ERR_CTP_BODY_TOO_LARGE',
+      });
+
+      expect(isPrismaKnownRequestError(fastifyError)).toBe(false);
+      expect(isPrismaKnownRequestError({ code: 'P2002' })).toBe(false);
+    });
+  });
+});
@@ -1,8 +1,14 @@
+import { InvalidQueryError } from '../errors';
 import {
   calculatePagination,
   createPaginationResult,
+  cursorPaginatedQuery,
+  decodeCursor,
+  encodeCursor,
+  isCursorPagination,
   paginatedQuery,
 } from '../pagination';
+import type { SortKey } from '../sorting';
 
 describe('Pagination Utils', () => {
   describe('calculatePagination', () => {
@@ -147,4 +153,197 @@ describe('Pagination Utils', () => {
       });
     });
   });
+
+  describe('encodeCursor / decodeCursor', () => {
+    const keys: SortKey[] = [
+      { field: 'createdAt', order: 'desc', type: 'date' },
+      { field: 'id', order: 'desc', type: 'string' },
+    ];
+
+    it('should round-trip key values', () => {
+      const createdAt = new Date('2024-01-01T00:00:00.000Z');
+      const cursor = encodeCursor([createdAt, 'post-1']);
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(cursor, keys)).toEqual([
+        '2024-01-01T00:00:00.000Z',
+        'post-1',
+      ]);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not a cursor', keys)).toThrow(
+        InvalidQueryError
+      );
+      expect(() => decodeCursor(encodeCursor(['post-1']), keys)).toThrow(
+        InvalidQueryError
+      );
+      expect(() => decodeCursor(encodeCursor([{}, 'post-1']), keys)).toThrow(
+        InvalidQueryError
+      );
+    });
+
+    it.each([
+      ['a number for a date', [1704067200000, 'post-1']],
+      ['a non-date string for a date', ['yesterday', 'post-1']],
+      ['an impossible date', ['2024-13-01T00:00:00.000Z', 'post-1']],
+      ['a number for a string', ['2024-01-01T00:00:00.000Z', 42]],
+      ['a boolean for a string', ['2024-01-01T00:00:00.000Z', true]],
+    ])('should reject %s', (_case, values) => {
+      expect(() => decodeCursor(encodeCursor(values), keys)).toThrow(
+        new InvalidQueryError('Invalid cursor', 'cursor')
+      );
+    });
+
+    it('should check numbers against number keys', () => {
+      const sizeKeys: SortKey[] = [
+        { field: 'size', order: 'asc', type: 'number' },
+      ];
+
+      expect(decodeCursor(encodeCursor([1024]), sizeKeys)).toEqual([1024]);
+      expect(() => decodeCursor(encodeCursor(['1024']), sizeKeys)).toThrow(
+        InvalidQueryError
+      );
+    });
+  });
+
+  describe('isCursorPagination', () => {
+    it('should detect cursor parameters even for the first page', () => {
+      expect(isCursorPagination({ cursor: undefined })).toBe(true);
+      expect(isCursorPagination({ page: 1 })).toBe(false);
+    });
+  });
+
+  describe('cursorPaginatedQuery', () => {
+    const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+    const rows = [
+      { id: 'c', createdAt: day(3) },
+      { id: 'b', createdAt: day(2) },
+      { id: 'a', createdAt: day(2) },
+    ];
+
+    it('should read the first page newest first', async () => {
+      const mockFindMany = jest.fn().mockResolvedValue(rows);
+
+      const result = await cursorPaginatedQuery(
+        mockFindMany,
+        { cursor: undefined, limit: 2 },
+        undefined,
+        { where: { published: true } }
+      );
+
+      expect(mockFindMany).toHaveBeenCalledWith({
+        where: { AND: [{ published: true }] },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 3,
+      });
+      expect(result).toEqual({
+        data: rows.slice(0, 2),
+        limit: 2,
+        hasNext: true,
+        hasPrev: false,
+        nextCursor: encodeCursor([day(2), 'b']),
+        prevCursor: undefined,
+      });
+    });
+
+    it('should read forward from the cursor', async () => {
+      const mockFindMany = jest.fn().mockResolvedValue([rows[2]]);
+      const cursor = encodeCursor([day(2), 'b']);
+
+      const result = await cursorPaginatedQuery(mockFindMany, {
+        cursor,
+        limit: 2,
+      });
+
+      expect(mockFindMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            {
+              OR: [
+                { createdAt: { lt: day(2).toISOString() } },
+                { createdAt: day(2).toISOString(), id: { lt: 'b' } },
+              ],
+            },
+          ],
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 3,
+      });
+      expect(result).toMatchObject({
+        data: [rows[2]],
+        hasNext: false,
+        hasPrev: true,
+        nextCursor: undefined,
+        prevCursor: encodeCursor([day(2), 'a']),
+      });
+    });
+
+    it('should read backward from the cursor in sort order', async () => {
+      // 逆順で読まれるので古い順に返る
+      const mockFindMany = jest.fn().mockResolvedValue([rows[1], rows[0]]);
+      const cursor = encodeCursor([day(2), 'a']);
+
+      const result = await cursorPaginatedQuery(mockFindMany, {
+        cursor,
+        direction: 'backward',
+        limit: 2,
+      });
+
+      expect(mockFindMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            {
+              OR: [
+                { createdAt: { gt: day(2).toISOString() } },
+                { createdAt: day(2).toISOString(), id: { gt: 'a' } },
+              ],
+            },
+          ],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: 3,
+      });
+      expect(result).toMatchObject({
+        data: [rows[0], rows[1]],
+        hasNext: true,
+        hasPrev: false,
+        nextCursor: encodeCursor([day(2), 'b']),
+        prevCursor: undefined,
+      });
+    });
+
+    it('should use the given keyset', async () => {
+      const mockFindMany = jest.fn().mockResolvedValue([]);
+
+      await cursorPaginatedQuery(mockFindMany, { cursor: undefined }, [
+        { field: 'title', order: 'asc' },
+      ]);
+
+      expect(mockFindMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ title: 'asc' }, { id: 'asc' }],
+          take: 21,
+        })
+      );
+    });
+
+    it('should reject a cursor with values of the wrong type', async () => {
+      const mockFindMany = jest.fn();
+
+      await expect(
+        cursorPaginatedQuery(mockFindMany, { cursor: encodeCursor([0, 'b']) })
+      ).rejects.toThrow(InvalidQueryError);
+      expect(mockFindMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a malformed cursor before querying', async () => {
+      const mockFindMany = jest.fn();
+
+      await expect(
+        cursorPaginatedQuery(mockFindMany, { cursor: 'garbage' })
+      ).rejects.toThrow(InvalidQueryError);
+      expect(mockFindMany).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,88 @@
+import { InvalidQueryError } from '../errors';
+import { parseSort, toOrderBy, validateSort, withTiebreaker } from '../sorting';
+
+describe('Sorting Utils', () => {
+  describe('parseSort', () => {
+    it('should return no keys without sortBy', () => {
+      expect(parseSort(undefined)).toEqual([]);
+      expect(parseSort('')).toEqual([]);
+    });
+
+    it('should apply sortOrder to fields without their own order', () => {
+      expect(parseSort('title, createdAt:desc', 'asc')).toEqual([
+        { field: 'title', order: 'asc' },
+        { field: 'createdAt', order: 'desc' },
+      ]);
+      expect(parseSort('createdAt', 'desc')).toEqual([
+        { field: 'createdAt', order: 'desc' },
+      ]);
+    });
+
+    it('should reject an unknown order', () => {
+      expect(() => parseSort('title:up')).toThrow(InvalidQueryError);
+    });
+  });
+
+  describe('validateSort', () => {
+    const allowed = ['createdAt', 'title'];
+
+    it('should accept allowed fields', () => {
+      expect(() =>
+        validateSort(
+          [
+            { field: 'title', order: 'asc' },
+            { field: 'createdAt', order: 'desc' },
+          ],
+          allowed
+        )
+      ).not.toThrow();
+    });
+
+    it('should reject fields that are not allowed', () => {
+      expect(() =>
+        validateSort([{ field: 'authorId', order: 'asc' }], allowed)
+      ).toThrow(new InvalidQueryError('Cannot sort by authorId', 'sortBy'));
+    });
+
+    it('should reject a field given twice', () => {
+      expect(() =>
+        validateSort(
+          [
+            { field: 'title', order: 'asc' },
+            { field: 'title', order: 'desc' },
+          ],
+          allowed
+        )
+      ).toThrow(InvalidQueryError);
+    });
+  });
+
+  describe('withTiebreaker', () => {
+    it('should append id in the order of the last key', () => {
+      expect(withTiebreaker([{ field: 'createdAt', order: 'desc' }])).toEqual([
+        { field: 'createdAt', order: 'desc' },
+        { field: 'id', order: 'desc', type: 'string' },
+      ]);
+      expect(withTiebreaker([])).toEqual([
+        { field: 'id', order: 'asc', type: 'string' },
+      ]);
+    });
+
+    it('should not add id twice', () => {
+      const keys = [{ field: 'id', order: 'desc' as const }];
+
+      expect(withTiebreaker(keys)).toBe(keys);
+    });
+  });
+
+  describe('toOrderBy', () => {
+    it('should keep the key order', () => {
+      expect(
+        toOrderBy([
+          { field: 'title', order: 'asc' },
+          { field: 'id', order: 'desc' },
+        ])
+      ).toEqual([{ title: 'asc' }, { id: 'desc' }]);
+    });
+  });
+});
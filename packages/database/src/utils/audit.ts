@@ -0,0 +1,130 @@
+/**
+ * Audit log utilities
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Who made a change and from where, for the audit entries written while
+ * handling it
+ */
+export interface AuditContext {
+  /**
+   * Authenticated user, undefined for anonymous requests and background jobs
+   */
+  actorId?: string;
+  /**
+   * Trace id of the request
+   */
+  traceId?: string;
+  /**
+   * Client IP address
+   */
+  ipAddress?: string;
+}
+
+/**
+ * Changed fields of an audited record
+ */
+export type AuditChanges = Record<string, { from?: unknown; to?: unknown }>;
+
+/**
+ * Value stored in place of sensitive fields
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Fields that are always redacted (credentials, tokens and their hashes)
+ */
+const SENSITIVE_FIELD_PATTERN = /password|secret|token|hash/i;
+
+const auditContextStorage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run `fn` with the given audit context
+ *
+ * Repositories read it when they write audit entries, so callers do not need
+ * to pass the actor through every service.
+ */
+export function runWithAuditContext<R>(context: AuditContext, fn: () => R): R {
+  return auditContextStorage.run(context, fn);
+}
+
+/**
+ * Audit context of the current call, or undefined outside of one
+ */
+export function getAuditContext(): AuditContext | undefined {
+  return auditContextStorage.getStore();
+}
+
+/**
+ * Actor, trace id and IP address from the current audit context
+ */
+export function currentAuditContext(): {
+  actorId: string | null;
+  traceId: string | null;
+  ipAddress: string | null;
+} {
+  const context = getAuditContext();
+
+  return {
+    actorId: context?.actorId ?? null,
+    traceId: context?.traceId ?? null,
+    ipAddress: context?.ipAddress ?? null,
+  };
+}
+
+const isScalar = (value: unknown): boolean =>
+  value === null || value instanceof Date || typeof value !== 'object';
+
+// Date は Json 列に入らないので ISO 文字列にする
+const toJsonValue = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  a instanceof Date && b instanceof Date
+    ? a.getTime() === b.getTime()
+    : a === b;
+
+/**
+ * Diff the scalar fields of a record before and after a change
+ *
+ * Relations and JSON fields are left out. Sensitive fields are listed as
+ * changed, with their values replaced by `REDACTED`.
+ *
+ * @param before - Record before the change, null when it was created
+ * @param after - Record after the change, null when it was deleted
+ * @param redactedFields - Fields to redact besides credentials and tokens
+ * @returns Changed fields, undefined when nothing changed
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  redactedFields: readonly string[] = []
+): AuditChanges | undefined {
+  const changes: AuditChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  for (const field of fields) {
+    const from = before?.[field];
+    const to = after?.[field];
+
+    if (!isScalar(from ?? null) || !isScalar(to ?? null) || isSame(from, to)) {
+      continue;
+    }
+
+    const redact =
+      redactedFields.includes(field) || SENSITIVE_FIELD_PATTERN.test(field);
+    const value = (v: unknown) => (redact ? REDACTED : toJsonValue(v));
+
+    changes[field] = {
+      ...(before && { from: value(from ?? null) }),
+      ...(after && { to: value(to ?? null) }),
+    };
+  }
+
+  return Object.keys(changes).length > 0 ? changes : undefined;
+}
@@ -0,0 +1,90 @@
+/**
+ * Prisma error utilities
+ */
+
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Prisma query engine error codes that callers commonly handle
+ *
+ * @see https://www.prisma.io/docs/orm/reference/error-reference
+ */
+export const PrismaErrorCode = {
+  /**
+   * Unique constraint failed (`meta.target` lists the fields)
+   */
+  UNIQUE_CONSTRAINT_FAILED: 'P2002',
+  /**
+   * Foreign key constraint failed (`meta.field_name`)
+   */
+  FOREIGN_KEY_CONSTRAINT_FAILED: 'P2003',
+  /**
+   * Record required by the operation was not found
+   */
+  RECORD_NOT_FOUND: 'P2025',
+} as const;
+
+/**
+ * Check whether an error is a known request error from the query engine
+ *
+ * Checked structurally rather than with `instanceof`, which fails when more
+ * than one copy of @prisma/client is loaded.
+ *
+ * @param error - Any thrown value
+ * @param code - Only match this error code
+ */
+export function isPrismaKnownRequestError(
+  error: unknown,
+  code?: string
+): error is Prisma.PrismaClientKnownRequestError {
+  if (
+    !(error instanceof Error) ||
+    error.name !== 'PrismaClientKnownRequestError'
+  ) {
+    return false;
+  }
+
+  const actual = (error as Partial<Prisma.PrismaClientKnownRequestError>).code;
+  return typeof actual === 'string' && (code === undefined || actual === code);
+}
+
+/**
+ * Query options supplied by the caller cannot be used, such as a malformed
+ * pagination cursor
+ *
+ * Raised before the query is sent, so the API can answer 400 instead of 500.
+ */
+export class InvalidQueryError extends Error {
+  /**
+   * The query option at fault (`cursor`, ...)
+   */
+  readonly field: string | undefined;
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = 'InvalidQueryError';
+    this.field = field;
+  }
+}
+
+/**
+ * A record was changed since the caller read it
+ *
+ * Raised by `update` when the record is no longer at the version the caller
+ * expected (optimistic concurrency).
+ */
+export class VersionConflictError extends Error {
+  readonly id: string;
+  readonly expectedVersion: number;
+  readonly currentVersion: number;
+
+  constructor(id: string, expectedVersion: number, currentVersion: number) {
+    super(
+      `Record ${id} is at version ${currentVersion}, not ${expectedVersion}`
+    );
+    this.name = 'VersionConflictError';
+    this.id = id;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
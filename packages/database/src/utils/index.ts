@@ -3,5 +3,8 @@
  */
 
 export * from './pagination';
+export * from './sorting';
 export * from './transactions';
 export * from './filters';
+export * from './errors';
+export * from './audit';
@@ -2,6 +2,9 @@
  * Pagination utilities for database queries
  */
 
+import { InvalidQueryError } from './errors';
+import { SortFieldType, SortKey, SortOrder, withTiebreaker } from './sorting';
+
 /**
  * Pagination parameters
  */
@@ -143,3 +146,249 @@ export async function paginatedQuery<T, Q extends Record<string, any>>(
 
   return createPaginationResult(data, total, page, limit);
 }
+
+/**
+ * Cursor (keyset) pagination parameters
+ */
+export interface CursorPaginationParams {
+  /**
+   * `nextCursor` or `prevCursor` of the previous page, undefined for the
+   * first page (or the last page when going backward)
+   */
+  cursor: string | undefined;
+  /**
+   * `forward` reads the rows after the cursor, `backward` the rows before it
+   * Default: forward
+   */
+  direction?: 'forward' | 'backward';
+  /**
+   * Number of items per page
+   */
+  limit?: number;
+  /**
+   * Maximum allowed page size
+   */
+  maxLimit?: number;
+}
+
+/**
+ * Cursor pagination result (no total count)
+ */
+export interface CursorPaginationResult<T> {
+  /**
+   * Array of items for current page, in sort order for both directions
+   */
+  data: T[];
+  /**
+   * Number of items per page
+   */
+  limit: number;
+  /**
+   * Whether there are items after this page
+   */
+  hasNext: boolean;
+  /**
+   * Whether there are items before this page
+   */
+  hasPrev: boolean;
+  /**
+   * Cursor to read the next page forward
+   */
+  nextCursor?: string;
+  /**
+   * Cursor to read the previous page backward
+   */
+  prevCursor?: string;
+}
+
+/**
+ * Result type for either kind of pagination parameters
+ */
+export type PaginatedResult<
+  T,
+  P extends PaginationParams | CursorPaginationParams,
+> = P extends CursorPaginationParams
+  ? CursorPaginationResult<T>
+  : PaginationResult<T>;
+
+/**
+ * Default keyset: newest first
+ */
+export const DEFAULT_CURSOR_KEYS: SortKey[] = [
+  { field: 'createdAt', order: 'desc', type: 'date' },
+];
+
+/**
+ * Check whether pagination parameters ask for cursor pagination
+ */
+export function isCursorPagination(
+  params: object
+): params is CursorPaginationParams {
+  return 'cursor' in params;
+}
+
+/**
+ * Encode the sort key values of a row as an opaque cursor
+ *
+ * @param values - Values of the keyset columns, in key order
+ * @returns URL-safe cursor string
+ */
+export function encodeCursor(values: unknown[]): string {
+  // Date は ISO 文字列になり、Prisma はそのまま DateTime として比較できる
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+// encodeCursor が Date を書き出す形式（toISOString）
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+const CURSOR_VALUE_CHECKS: Record<SortFieldType, (_value: unknown) => boolean> =
+  {
+    string: value => typeof value === 'string',
+    number: value => typeof value === 'number' && Number.isFinite(value),
+    date: value =>
+      typeof value === 'string' &&
+      ISO_DATE_PATTERN.test(value) &&
+      !Number.isNaN(Date.parse(value)),
+  };
+
+/**
+ * Check a decoded cursor value against the type of its sort key
+ *
+ * Keys without a type only rule out values Prisma cannot compare against.
+ */
+function isCursorValue(value: unknown, key: SortKey): boolean {
+  if (key.type) {
+    return CURSOR_VALUE_CHECKS[key.type](value);
+  }
+  return value !== null && typeof value !== 'object';
+}
+
+/**
+ * Decode a cursor created by `encodeCursor`
+ *
+ * Each value is checked against its key, so a tampered cursor is rejected
+ * here instead of failing in the query.
+ *
+ * @param cursor - Cursor from the client
+ * @param keys - Keyset the cursor must carry values for
+ * @returns Values of the keyset columns
+ * @throws {InvalidQueryError} When the cursor was not issued for this keyset
+ */
+export function decodeCursor(cursor: string, keys: SortKey[]): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidQueryError('Invalid cursor', 'cursor');
+  }
+
+  if (
+    !Array.isArray(values) ||
+    values.length !== keys.length ||
+    values.some((value, i) => !isCursorValue(value, keys[i]))
+  ) {
+    throw new InvalidQueryError('Invalid cursor', 'cursor');
+  }
+  return values;
+}
+
+/**
+ * Where clause for the rows after (or, going backward, before) the cursor
+ *
+ * `(a, b) > (x, y)` is expanded to `a > x OR (a = x AND b > y)`, flipping the
+ * comparison for descending columns.
+ */
+function keysetWhere(
+  keys: SortKey[],
+  values: unknown[],
+  backward: boolean
+): Record<string, unknown> {
+  return {
+    OR: keys.map((key, i) => {
+      const after = (key.order === 'asc') !== backward;
+      const where: Record<string, unknown> = {};
+
+      keys.slice(0, i).forEach((previous, j) => {
+        where[previous.field] = values[j];
+      });
+      where[key.field] = { [after ? 'gt' : 'lt']: values[i] };
+
+      return where;
+    }),
+  };
+}
+
+/**
+ * Helper function for cursor (keyset) paginated queries
+ *
+ * Reads one row more than the page size to know whether another page
+ * follows, and never counts the table. Going backward reads in reverse
+ * order and flips the page back, so `data` is always in sort order.
+ *
+ * @param findMany - Prisma findMany function
+ * @param params - Cursor pagination parameters
+ * @param keys - Stable sort to paginate over (`id` is added as tiebreaker)
+ * @param query - Additional query options
+ * @returns Cursor paginated result
+ * @throws {InvalidQueryError} When the cursor is malformed
+ */
+export async function cursorPaginatedQuery<T, Q extends Record<string, any>>(
+  findMany: (
+    _args: Q & {
+      where: any;
+      orderBy: Record<string, SortOrder>[];
+      take: number;
+    }
+  ) => Promise<T[]>,
+  params: CursorPaginationParams,
+  keys: SortKey[] = DEFAULT_CURSOR_KEYS,
+  query: Q = {} as Q
+): Promise<CursorPaginationResult<T>> {
+  const { cursor, direction = 'forward' } = params;
+  const { limit } = calculatePagination(params);
+  const keyset = withTiebreaker(keys);
+  const backward = direction === 'backward';
+
+  const conditions = [query.where];
+  if (cursor !== undefined) {
+    conditions.push(
+      keysetWhere(keyset, decodeCursor(cursor, keyset), backward)
+    );
+  }
+
+  const orderBy = keyset.map(key => ({
+    [key.field]: (key.order === 'asc') !== backward ? 'asc' : 'desc',
+  })) as Record<string, SortOrder>[];
+
+  const rows = await findMany({
+    ...query,
+    where: { AND: conditions.filter(Boolean) },
+    orderBy,
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+  if (backward) {
+    data.reverse();
+  }
+
+  // カーソルを渡されたなら、その行の反対側にもページがある
+  const hasNext = backward ? cursor !== undefined : hasMore;
+  const hasPrev = backward ? hasMore : cursor !== undefined;
+
+  const cursorOf = (row: T) =>
+    encodeCursor(
+      keyset.map(key => (row as Record<string, unknown>)[key.field])
+    );
+
+  return {
+    data,
+    limit,
+    hasNext,
+    hasPrev,
+    nextCursor:
+      hasNext && data.length > 0 ? cursorOf(data[data.length - 1]) : undefined,
+    prevCursor: hasPrev && data.length > 0 ? cursorOf(data[0]) : undefined,
+  };
+}
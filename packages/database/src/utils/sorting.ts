@@ -0,0 +1,113 @@
+/**
+ * Sorting utilities for database queries
+ */
+
+import { InvalidQueryError } from './errors';
+
+/**
+ * Sort order
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Type of a sortable field's values, as they appear in a cursor
+ */
+export type SortFieldType = 'string' | 'number' | 'date';
+
+/**
+ * Sortable fields of a model with the type of their values
+ */
+export type SortableFields = Readonly<Record<string, SortFieldType>>;
+
+/**
+ * One column of a (multi-key) sort
+ */
+export interface SortKey {
+  /**
+   * Scalar field of the model
+   */
+  field: string;
+  order: SortOrder;
+  /**
+   * Type of the field's values, checked when decoding cursors
+   */
+  type?: SortFieldType;
+}
+
+const SORT_ORDERS: readonly string[] = ['asc', 'desc'];
+
+/**
+ * Parse `sortBy`/`sortOrder` query parameters into sort keys
+ *
+ * `sortBy` is a comma-separated list of fields, each optionally followed by
+ * its own order (`title:asc,createdAt:desc`); fields without one use
+ * `sortOrder`.
+ *
+ * @param sortBy - Fields to sort by
+ * @param sortOrder - Order for fields that do not give one (default: asc)
+ * @returns Sort keys, empty when `sortBy` is empty
+ * @throws {InvalidQueryError} When an order is neither `asc` nor `desc`
+ */
+export function parseSort(
+  sortBy: string | undefined,
+  sortOrder: SortOrder = 'asc'
+): SortKey[] {
+  if (!sortBy) {
+    return [];
+  }
+
+  return sortBy.split(',').map(entry => {
+    const [field, order = sortOrder] = entry.trim().split(':');
+
+    if (!SORT_ORDERS.includes(order)) {
+      throw new InvalidQueryError(`Invalid sort order: ${order}`, 'sortOrder');
+    }
+    return { field, order: order as SortOrder };
+  });
+}
+
+/**
+ * Check requested sort keys against the fields a repository allows
+ *
+ * Unknown fields are rejected here instead of being passed to Prisma, which
+ * would fail with a server error (or sort by an unindexed column).
+ *
+ * @param sort - Requested sort keys
+ * @param allowed - Fields that may be sorted by
+ * @throws {InvalidQueryError} When a field is not allowed or given twice
+ */
+export function validateSort(
+  sort: SortKey[],
+  allowed: readonly string[]
+): void {
+  const seen = new Set<string>();
+
+  for (const { field } of sort) {
+    if (!allowed.includes(field)) {
+      throw new InvalidQueryError(`Cannot sort by ${field}`, 'sortBy');
+    }
+    if (seen.has(field)) {
+      throw new InvalidQueryError(`Duplicate sort field: ${field}`, 'sortBy');
+    }
+    seen.add(field);
+  }
+}
+
+/**
+ * Sort keys with the `id` tiebreaker appended, so that rows sharing the same
+ * sort values still have a total (deterministic) order
+ */
+export function withTiebreaker(keys: SortKey[]): SortKey[] {
+  if (keys.some(key => key.field === 'id')) {
+    return keys;
+  }
+  const order = keys.length > 0 ? keys[keys.length - 1].order : 'asc';
+  return [...keys, { field: 'id', order, type: 'string' }];
+}
+
+/**
+ * Convert sort keys to a Prisma orderBy list
+ */
+export function toOrderBy(keys: SortKey[]): Record<string, SortOrder>[] {
+  return keys.map(({ field, order }) => ({ [field]: order }));
+}
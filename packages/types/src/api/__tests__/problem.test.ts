@@ -0,0 +1,62 @@
+import { ErrorCode, createErrorResponse } from '../error';
+import {
+  fromProblemDetails,
+  getErrorCodeFromProblemType,
+  getProblemType,
+  readErrorResponse,
+  toProblemDetails,
+} from '../problem';
+
+describe('Problem Details', () => {
+  const envelope = createErrorResponse({
+    code: ErrorCode.VALIDATION_ERROR,
+    message: 'Invalid request data',
+    details: [{ field: 'email', message: 'Invalid email' }],
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    path: '/api/v1/users/1',
+    timestamp: '2024-01-01T00:00:00.000Z',
+  });
+
+  it('should give each error code its own type URI', () => {
+    const type = getProblemType(ErrorCode.RESOURCE_NOT_AVAILABLE);
+
+    expect(type).toBe('urn:template:problem:resource-not-available');
+    expect(getErrorCodeFromProblemType(type)).toBe(
+      ErrorCode.RESOURCE_NOT_AVAILABLE
+    );
+    expect(getErrorCodeFromProblemType('about:blank')).toBeUndefined();
+  });
+
+  it('should convert the error envelope to problem details', () => {
+    expect(toProblemDetails(envelope)).toEqual({
+      type: 'urn:template:problem:validation-error',
+      title: 'Validation failed',
+      status: 400,
+      detail: 'Invalid request data',
+      instance: '/api/v1/users/1',
+      code: ErrorCode.VALIDATION_ERROR,
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      details: [{ field: 'email', message: 'Invalid email' }],
+    });
+  });
+
+  it('should round-trip through problem details', () => {
+    expect(fromProblemDetails(toProblemDetails(envelope))).toEqual(envelope);
+  });
+
+  it('should read problems from other services by type or status', () => {
+    const foreign = readErrorResponse({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+    });
+
+    expect(foreign?.error).toMatchObject({
+      code: ErrorCode.NOT_FOUND,
+      message: 'Not Found',
+    });
+    expect(readErrorResponse(envelope)).toBe(envelope);
+    expect(readErrorResponse({ success: true, data: null })).toBeUndefined();
+  });
+});
@@ -18,6 +18,7 @@ export enum ErrorCode {
   FORBIDDEN = 'FORBIDDEN',
   NOT_FOUND = 'NOT_FOUND',
   CONFLICT = 'CONFLICT',
+  PRECONDITION_FAILED = 'PRECONDITION_FAILED',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
 
   // Authentication Errors
@@ -29,6 +30,7 @@ export enum ErrorCode {
   BUSINESS_RULE_VIOLATION = 'BUSINESS_RULE_VIOLATION',
   RESOURCE_NOT_AVAILABLE = 'RESOURCE_NOT_AVAILABLE',
   OPERATION_NOT_ALLOWED = 'OPERATION_NOT_ALLOWED',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
 
   // Server Errors (5xx)
   INTERNAL_ERROR = 'INTERNAL_ERROR',
@@ -185,6 +187,12 @@ export const ERROR_STATUS_MAP: Record<ErrorCode, number> = {
   // 409 Conflict
   [ErrorCode.CONFLICT]: 409,
 
+  // 412 Precondition Failed
+  [ErrorCode.PRECONDITION_FAILED]: 412,
+
+  // 413 Content Too Large
+  [ErrorCode.QUOTA_EXCEEDED]: 413,
+
   // 429 Too Many Requests
   [ErrorCode.RATE_LIMIT_EXCEEDED]: 429,
 
@@ -0,0 +1,15 @@
+import { FileType } from '../common';
+
+// ファイル種別ごとの使用量
+export interface StorageUsageEntry {
+  bytes: number;
+  fileCount: number;
+}
+
+// ストレージ使用量（GET /api/v1/files/usage）
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  fileCount: number;
+  byType: Record<FileType, StorageUsageEntry>;
+}
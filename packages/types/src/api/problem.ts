@@ -0,0 +1,176 @@
+/**
+ * RFC 9457 Problem Details 形式のエラーレスポンス
+ * 既存の ApiErrorResponse と相互変換できる
+ */
+
+import {
+  ApiErrorResponse,
+  ERROR_STATUS_MAP,
+  ErrorCode,
+  ErrorDetail,
+  createErrorResponse,
+  isApiErrorResponse,
+} from './error';
+
+/**
+ * Problem Details のメディアタイプ
+ */
+export const PROBLEM_JSON_MEDIA_TYPE = 'application/problem+json';
+
+/**
+ * ErrorCode ごとの type URI の接頭辞
+ */
+export const PROBLEM_TYPE_BASE_URI = 'urn:template:problem:';
+
+/**
+ * Problem Details（RFC 9457）
+ * traceId・code・details は拡張メンバー
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  code?: ErrorCode;
+  traceId?: string;
+  timestamp?: string;
+  details?: ErrorDetail[] | Record<string, unknown>;
+}
+
+/**
+ * type ごとの短い要約（同じ type では常に同じ title を返す）
+ */
+export const PROBLEM_TITLES: Record<ErrorCode, string> = {
+  [ErrorCode.VALIDATION_ERROR]: 'Validation failed',
+  [ErrorCode.INVALID_REQUEST]: 'Invalid request',
+  [ErrorCode.UNAUTHORIZED]: 'Authentication required',
+  [ErrorCode.FORBIDDEN]: 'Forbidden',
+  [ErrorCode.NOT_FOUND]: 'Resource not found',
+  [ErrorCode.CONFLICT]: 'Conflict',
+  [ErrorCode.PRECONDITION_FAILED]: 'Precondition failed',
+  [ErrorCode.RATE_LIMIT_EXCEEDED]: 'Too many requests',
+  [ErrorCode.TOKEN_EXPIRED]: 'Token expired',
+  [ErrorCode.INVALID_TOKEN]: 'Invalid token',
+  [ErrorCode.TOKEN_MISSING]: 'Token missing',
+  [ErrorCode.BUSINESS_RULE_VIOLATION]: 'Business rule violation',
+  [ErrorCode.RESOURCE_NOT_AVAILABLE]: 'Resource not available',
+  [ErrorCode.OPERATION_NOT_ALLOWED]: 'Operation not allowed',
+  [ErrorCode.QUOTA_EXCEEDED]: 'Storage quota exceeded',
+  [ErrorCode.INTERNAL_ERROR]: 'Internal server error',
+  [ErrorCode.SERVICE_UNAVAILABLE]: 'Service unavailable',
+  [ErrorCode.DATABASE_ERROR]: 'Database error',
+  [ErrorCode.EXTERNAL_SERVICE_ERROR]: 'External service error',
+};
+
+/**
+ * ErrorCode の type URI（例: urn:template:problem:not-found）
+ */
+export function getProblemType(code: ErrorCode): string {
+  return `${PROBLEM_TYPE_BASE_URI}${code.toLowerCase().replace(/_/g, '-')}`;
+}
+
+const isErrorCode = (value: unknown): value is ErrorCode =>
+  Object.values(ErrorCode).includes(value as ErrorCode);
+
+/**
+ * type URI から ErrorCode を取得（他サービスの type なら undefined）
+ */
+export function getErrorCodeFromProblemType(
+  type: string
+): ErrorCode | undefined {
+  if (!type.startsWith(PROBLEM_TYPE_BASE_URI)) {
+    return undefined;
+  }
+
+  const code = type
+    .slice(PROBLEM_TYPE_BASE_URI.length)
+    .toUpperCase()
+    .replace(/-/g, '_');
+  return isErrorCode(code) ? code : undefined;
+}
+
+/**
+ * Problem Details の型ガード
+ */
+export function isProblemDetails(value: unknown): value is ProblemDetails {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'type' in value &&
+    typeof value.type === 'string' &&
+    'title' in value &&
+    typeof value.title === 'string' &&
+    'status' in value &&
+    typeof value.status === 'number'
+  );
+}
+
+/**
+ * ApiErrorResponse を Problem Details に変換
+ */
+export function toProblemDetails(
+  response: ApiErrorResponse,
+  status: number = ERROR_STATUS_MAP[response.error.code] || 500
+): ProblemDetails {
+  const { code, message, timestamp, details, traceId, path } = response.error;
+
+  return {
+    type: getProblemType(code),
+    title: PROBLEM_TITLES[code],
+    status,
+    detail: message,
+    ...(path && { instance: path }),
+    code,
+    ...(traceId && { traceId }),
+    timestamp,
+    ...(details !== undefined && {
+      details: details as ProblemDetails['details'],
+    }),
+  };
+}
+
+/**
+ * Problem Details を ApiErrorResponse に変換
+ *
+ * ErrorCode は code 拡張メンバー、type URI、HTTPステータスの順に決める
+ */
+export function fromProblemDetails(problem: ProblemDetails): ApiErrorResponse {
+  const code =
+    (isErrorCode(problem.code) && problem.code) ||
+    getErrorCodeFromProblemType(problem.type) ||
+    getErrorCodeFromStatus(problem.status);
+
+  return createErrorResponse({
+    code,
+    message: problem.detail || problem.title,
+    details: problem.details,
+    traceId: problem.traceId,
+    path: problem.instance,
+    timestamp: problem.timestamp,
+  });
+}
+
+/**
+ * どちらの形式のエラーレスポンスも ApiErrorResponse として読む
+ * エラーレスポンスでなければ undefined
+ */
+export function readErrorResponse(
+  value: unknown
+): ApiErrorResponse | undefined {
+  if (isApiErrorResponse(value)) return value;
+  if (isProblemDetails(value)) return fromProblemDetails(value);
+  return undefined;
+}
+
+/**
+ * HTTPステータスに対応する代表的な ErrorCode
+ */
+function getErrorCodeFromStatus(status: number): ErrorCode {
+  const code = (Object.keys(ERROR_STATUS_MAP) as ErrorCode[]).find(
+    key => ERROR_STATUS_MAP[key] === status
+  );
+
+  if (code) return code;
+  return status < 500 ? ErrorCode.INVALID_REQUEST : ErrorCode.INTERNAL_ERROR;
+}
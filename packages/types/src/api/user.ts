@@ -85,7 +85,7 @@ export interface UserListParams {
   search?: string;
   page?: number;
   limit?: number;
-  sortBy?: 'createdAt' | 'updatedAt' | 'email' | 'lastLoginAt';
+  sortBy?: 'createdAt' | 'updatedAt' | 'email';
   sortOrder?: 'asc' | 'desc';
 }
 
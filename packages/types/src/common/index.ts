@@ -10,19 +10,27 @@ export interface BaseEntity {
   updatedAt: Timestamp;
 }
 
-// ユーザーロール
+// ユーザーロール（値はPrismaスキーマの UserRole enum と一致させる。apps/api の enums.test.ts で検査）
 export enum UserRole {
-  USER = 'user',
-  ADMIN = 'admin',
+  USER = 'USER',
+  ADMIN = 'ADMIN',
 }
 
-// ファイルタイプ
+// ファイルタイプ（値はPrismaスキーマの FileType enum と一致させる。apps/api の enums.test.ts で検査）
 export enum FileType {
-  IMAGE = 'image',
-  DOCUMENT = 'document',
-  VIDEO = 'video',
-  AUDIO = 'audio',
-  OTHER = 'other',
+  IMAGE = 'IMAGE',
+  DOCUMENT = 'DOCUMENT',
+  VIDEO = 'VIDEO',
+  AUDIO = 'AUDIO',
+  OTHER = 'OTHER',
+}
+
+// ファイルのスキャン状態（値はPrismaスキーマの FileStatus enum と一致させる。apps/api の enums.test.ts で検査）
+export enum FileStatus {
+  PENDING_SCAN = 'PENDING_SCAN',
+  CLEAN = 'CLEAN',
+  QUARANTINED = 'QUARANTINED',
+  SCAN_FAILED = 'SCAN_FAILED',
 }
 
 // コンテンツステータス
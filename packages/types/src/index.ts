@@ -3,7 +3,9 @@ export * from './common/index';
 
 // API型定義
 export * from './api/user';
+export * from './api/file';
 export * from './api/error';
+export * from './api/problem';
 
 // データベース型定義 (Prismaによって生成される)
 // データベースパッケージのセットアップ後に利用可能
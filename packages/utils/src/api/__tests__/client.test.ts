@@ -0,0 +1,60 @@
+import {
+  ErrorCode,
+  createErrorResponse,
+  toProblemDetails,
+} from '@template/types';
+
+import { classifyError } from '../../error';
+import { ApiClient } from '../client';
+
+describe('ApiClient', () => {
+  const client = new ApiClient({ baseUrl: 'https://api.example.com' });
+  const envelope = createErrorResponse({
+    code: ErrorCode.RATE_LIMIT_EXCEEDED,
+    message: 'Too many requests. Please try again later.',
+    traceId: 'trace-1',
+  });
+  let fetchSpy: jest.SpyInstance;
+
+  const respondWith = (status: number, body: unknown) =>
+    fetchSpy.mockResolvedValue({
+      ok: status < 400,
+      status,
+      statusText: 'Error',
+      json: async () => body,
+    } as Response);
+
+  beforeEach(() => {
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should return error envelopes as they are', async () => {
+    respondWith(429, envelope);
+
+    await expect(client.get('/posts')).resolves.toEqual(envelope);
+  });
+
+  it('should read problem+json errors', async () => {
+    respondWith(429, toProblemDetails(envelope));
+
+    const result = await client.get('/posts');
+
+    expect(result).toEqual(envelope);
+    expect(classifyError(toProblemDetails(envelope)).isRetryable).toBe(true);
+  });
+
+  it('should fall back to the HTTP status for other bodies', async () => {
+    respondWith(502, { message: 'Bad gateway' });
+
+    const result = await client.get('/posts');
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'HTTP_502', message: 'Bad gateway' },
+    });
+  });
+});
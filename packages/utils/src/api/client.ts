@@ -1,4 +1,9 @@
-import type { ApiResponse, ApiError, ApiResult } from '@template/types';
+import {
+  type ApiResponse,
+  type ApiError,
+  type ApiResult,
+  readErrorResponse,
+} from '@template/types';
 
 /**
  * API クライアントユーティリティ
@@ -72,6 +77,13 @@ export class ApiClient {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+
+        // 従来のエラー形式・RFC 9457 (problem+json) のどちらも ApiError に揃える
+        const apiError = readErrorResponse(errorData);
+        if (apiError) {
+          return apiError;
+        }
+
         return {
           success: false,
           error: {
@@ -5,8 +5,11 @@
 import {
   ApiErrorResponse,
   ErrorCode,
+  ProblemDetails,
   createErrorResponse,
   isApiErrorResponse,
+  isProblemDetails,
+  fromProblemDetails,
 } from '@template/types';
 
 /**
@@ -19,17 +22,25 @@ export interface ErrorClassification {
   category: 'user' | 'system' | 'network' | 'business';
 }
 
+/**
+ * 分類できるエラー（APIのエラーは従来形式・RFC 9457 形式のどちらでもよい）
+ */
+export type ClassifiableError = Error | ApiErrorResponse | ProblemDetails;
+
 /**
  * エラーを分類する関数
  */
-export function classifyError(
-  error: Error | ApiErrorResponse
-): ErrorClassification {
+export function classifyError(error: ClassifiableError): ErrorClassification {
   // APIエラーレスポンスの場合
   if (isApiErrorResponse(error)) {
     return classifyApiErrorResponse(error);
   }
 
+  // Problem Details の場合
+  if (isProblemDetails(error)) {
+    return classifyApiErrorResponse(fromProblemDetails(error));
+  }
+
   // JavaScript Errorの場合
   return classifyJavaScriptError(error as Error);
 }
@@ -81,7 +92,16 @@ function classifyApiErrorResponse(
         category: 'user',
       };
 
+    case ErrorCode.QUOTA_EXCEEDED:
+      return {
+        isOperational: true,
+        isRetryable: false,
+        severity: 'low',
+        category: 'business',
+      };
+
     case ErrorCode.CONFLICT:
+    case ErrorCode.PRECONDITION_FAILED:
       return {
         isOperational: true,
         isRetryable: false,
@@ -188,7 +208,7 @@ function classifyJavaScriptError(error: Error): ErrorClassification {
  * エラーからユーザー向けメッセージを生成
  */
 export function getUserFriendlyMessage(
-  error: Error | ApiErrorResponse,
+  error: ClassifiableError,
   locale: 'ja' | 'en' = 'ja'
 ): string {
   const classification = classifyError(error);
@@ -197,6 +217,13 @@ export function getUserFriendlyMessage(
     return getUserFriendlyApiErrorResponseMessage(error, locale);
   }
 
+  if (isProblemDetails(error)) {
+    return getUserFriendlyApiErrorResponseMessage(
+      fromProblemDetails(error),
+      locale
+    );
+  }
+
   return getUserFriendlyJavaScriptErrorMessage(
     error as Error,
     classification,
@@ -229,6 +256,8 @@ function getUserFriendlyApiErrorResponseMessage(
       [ErrorCode.NOT_FOUND]: '指定されたデータが見つかりません。',
       [ErrorCode.RESOURCE_NOT_AVAILABLE]: 'リソースが利用できません。',
       [ErrorCode.CONFLICT]: 'データが既に存在するか、競合が発生しました。',
+      [ErrorCode.PRECONDITION_FAILED]:
+        '他のユーザーがデータを更新しました。最新の内容を読み込んでください。',
       [ErrorCode.RATE_LIMIT_EXCEEDED]:
         'リクエストが多すぎます。しばらくしてから再試行してください。',
       [ErrorCode.SERVICE_UNAVAILABLE]: 'サービスが一時的に利用できません。',
@@ -237,6 +266,8 @@ function getUserFriendlyApiErrorResponseMessage(
       [ErrorCode.DATABASE_ERROR]: 'データベースエラーが発生しました。',
       [ErrorCode.INTERNAL_ERROR]: 'システムエラーが発生しました。',
       [ErrorCode.BUSINESS_RULE_VIOLATION]: 'ビジネスルールに違反しています。',
+      [ErrorCode.QUOTA_EXCEEDED]:
+        'ストレージの上限に達しました。不要なファイルを削除してください。',
     },
     en: {
       [ErrorCode.VALIDATION_ERROR]: 'Please check your input data.',
@@ -250,6 +281,8 @@ function getUserFriendlyApiErrorResponseMessage(
       [ErrorCode.NOT_FOUND]: 'The requested data was not found.',
       [ErrorCode.RESOURCE_NOT_AVAILABLE]: 'Resource is not available.',
       [ErrorCode.CONFLICT]: 'Data already exists or conflict occurred.',
+      [ErrorCode.PRECONDITION_FAILED]:
+        'The data was changed by someone else. Please reload it.',
       [ErrorCode.RATE_LIMIT_EXCEEDED]:
         'Too many requests. Please try again later.',
       [ErrorCode.SERVICE_UNAVAILABLE]: 'Service is temporarily unavailable.',
@@ -257,6 +290,8 @@ function getUserFriendlyApiErrorResponseMessage(
       [ErrorCode.DATABASE_ERROR]: 'Database error occurred.',
       [ErrorCode.INTERNAL_ERROR]: 'System error occurred.',
       [ErrorCode.BUSINESS_RULE_VIOLATION]: 'Business rule violation.',
+      [ErrorCode.QUOTA_EXCEEDED]:
+        'Storage quota exceeded. Please delete files you no longer need.',
     },
   };
 
@@ -297,14 +332,14 @@ export interface ErrorHandlingOptions {
   retryable?: boolean;
   maxRetries?: number;
   onRetry?: () => void;
-  onError?: (error: Error | ApiErrorResponse) => void;
+  onError?: (error: ClassifiableError) => void;
 }
 
 /**
  * 統一エラーハンドリング関数
  */
 export async function handleError(
-  error: Error | ApiErrorResponse,
+  error: ClassifiableError,
   options: ErrorHandlingOptions = {}
 ): Promise<void> {
   const {
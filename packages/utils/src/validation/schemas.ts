@@ -77,6 +77,21 @@ export const createUserSchema = z.object({
 
 export const updateUserSchema = createUserSchema.partial();
 
+// アバター設定スキーマ（アップロード済みの画像ファイルを指定する）
+export const setAvatarSchema = z.object({
+  fileId: z.string().min(1, 'ファイルIDを指定してください'),
+});
+
+// 認証スキーマ
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'パスワードを入力してください'),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'リフレッシュトークンを指定してください'),
+});
+
 // プロファイルスキーマ
 export const createProfileSchema = z.object({
   bio: z
@@ -145,6 +160,30 @@ export const fileUploadSchema = z.object({
   type: z.nativeEnum(FileType),
 });
 
+// 署名付きURL発行スキーマ（ファイル種別はサーバー側で判定する）
+export const signedUploadSchema = fileUploadSchema.omit({ type: true }).extend({
+  size: z.number().int().positive('ファイルサイズを指定してください'),
+});
+
+// 署名付き PUT でアップロードした内容の確定スキーマ
+export const finalizeSignedUploadSchema = z.object({
+  storageKey: z.string().min(1, 'ストレージキーを指定してください'),
+  filename: z.string().min(1, 'ファイル名を入力してください'),
+});
+
+// 再開可能アップロードの開始スキーマ（ファイル名・種別・サイズを事前に申告する）
+export const createUploadSessionSchema = signedUploadSchema;
+
+// 再開可能アップロードの完了スキーマ
+export const completeUploadSessionSchema = z.object({
+  checksum: z
+    .string()
+    .regex(
+      /^[0-9a-fA-F]{64}$/,
+      'SHA-256チェックサム（16進数）を指定してください'
+    ),
+});
+
 // 検索スキーマ
 export const searchSchema = z.object({
   query: z.string().optional(),
@@ -167,6 +206,52 @@ export const paginationSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 });
 
+// クエリ文字列用ページネーションスキーマ
+export const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// クエリ文字列用ソートスキーマ（sortBy はカンマ区切りで複数指定、field:order も可）
+export const sortQuerySchema = z.object({
+  sortBy: z.string().optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+// ユーザー一覧クエリスキーマ
+export const userListQuerySchema = paginationQuerySchema
+  .merge(sortQuerySchema)
+  .extend({
+    role: z.nativeEnum(UserRole).optional(),
+    search: z.string().optional(),
+    isActive: z
+      .enum(['true', 'false'])
+      .transform(value => value === 'true')
+      .optional(),
+  });
+
+// 投稿一覧クエリスキーマ
+export const postListQuerySchema = paginationQuerySchema
+  .merge(sortQuerySchema)
+  .extend({
+    authorId: z.string().optional(),
+    published: z
+      .enum(['true', 'false'])
+      .transform(value => value === 'true')
+      .optional(),
+    search: z.string().optional(),
+  });
+
+// 監査ログ一覧クエリスキーマ
+export const auditLogQuerySchema = paginationQuerySchema.extend({
+  actorId: z.string().optional(),
+  resource: z.string().optional(),
+  resourceId: z.string().optional(),
+  action: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
 // IDバリデーション
 export const uuidSchema = z.string().uuid('有効なIDを指定してください');
 export const cuidSchema = z.string().min(1, '有効なIDを指定してください');